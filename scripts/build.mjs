@@ -54,6 +54,10 @@ async function build() {
     path.join(repoRoot, 'src', 'extension', 'popup.html'),
     path.join(distDir, 'extension', 'popup.html')
   );
+  await copyFile(
+    path.join(repoRoot, 'src', 'extension', 'options.html'),
+    path.join(distDir, 'extension', 'options.html')
+  );
 
   const iconsDir = path.join(repoRoot, 'src', 'extension', 'icons');
   for (const file of await fs.readdir(iconsDir)) {
@@ -0,0 +1,201 @@
+import { normalizeByline } from './book-metadata.js';
+import type { ArticleMetadata, MetadataSources } from './types.js';
+
+// NewsArticle, ScholarlyArticle, TechArticle, BlogPosting, SocialMediaPosting, Report...
+const ARTICLE_TYPE_RE = /(Article|Posting|Report)$/;
+const MAX_TAGS = 20;
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+type JsonNode = Record<string, unknown>;
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function cleanText(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const cleaned = String(value).replace(/\s+/g, ' ').trim();
+  return cleaned || null;
+}
+
+function distinct(values: Array<string | null>, limit = Infinity): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    if (!value || seen.has(value.toLowerCase())) continue;
+    seen.add(value.toLowerCase());
+    result.push(value);
+    if (result.length >= limit) break;
+  }
+  return result;
+}
+
+// Top-level arrays and @graph containers both hold several nodes per block.
+function jsonLdNodes(blocks: string[]): JsonNode[] {
+  const nodes: JsonNode[] = [];
+  const visit = (value: unknown): void => {
+    for (const item of asArray(value)) {
+      if (!item || typeof item !== 'object') continue;
+      nodes.push(item as JsonNode);
+      visit((item as JsonNode)['@graph']);
+    }
+  };
+  for (const block of blocks) {
+    try {
+      visit(JSON.parse(block));
+    } catch {
+      // Pages ship malformed JSON-LD often enough that one bad block must not stop the rest.
+    }
+  }
+  return nodes;
+}
+
+function isArticleNode(node: JsonNode): boolean {
+  return asArray(node['@type']).some((type) => typeof type === 'string' && ARTICLE_TYPE_RE.test(type));
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+// Authors are plain names, { name } objects or lists of either; profile URLs are not names.
+function personNames(value: unknown): string[] {
+  return asArray(value)
+    .map((item) => normalizeByline(cleanText(item && typeof item === 'object' ? (item as JsonNode).name : item)))
+    .filter((name): name is string => Boolean(name) && !isUrl(name as string));
+}
+
+function urlValue(value: unknown): string | null {
+  for (const item of asArray(value)) {
+    const candidate = item && typeof item === 'object' ? (item as JsonNode).url ?? (item as JsonNode)['@id'] : item;
+    const text = cleanText(candidate);
+    if (text) return text;
+  }
+  return null;
+}
+
+function resolveHttpUrl(value: string | null, baseUrl: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function validDateParts(year: string, month?: string, day?: string): boolean {
+  const m = month ? Number(month) : 1;
+  const d = day ? Number(day) : 1;
+  return Number(year) > 0 && m >= 1 && m <= 12 && d >= 1 && d <= 31;
+}
+
+// Keeps the publisher's own offset so the displayed day is the day they published.
+// citation_* dates use slashes (2020/05/14) and may stop at the year or month.
+export function normalizeDate(value: string | null | undefined): string | null {
+  const text = (value || '').trim();
+  const match = text.match(/^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?([T ]\d{2}:\d{2}.*)?$/);
+  if (match) {
+    const [, year, month, day, time] = match;
+    if (!validDateParts(year, month, day)) return null;
+    const date = [year, month?.padStart(2, '0'), day?.padStart(2, '0')].filter(Boolean).join('-');
+    if (time && day && !Number.isNaN(Date.parse(`${date}T${time.slice(1)}`))) {
+      return `${date}T${time.slice(1)}`;
+    }
+    return date;
+  }
+  const parsed = new Date(text);
+  if (!text || Number.isNaN(parsed.getTime())) return null;
+  const pad = (num: number) => String(num).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+// "14 May 2020", "May 2020" or "2020", from the date part of an ISO string.
+export function formatArticleDate(iso: string | null | undefined): string | null {
+  const match = (iso || '').match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const monthName = month ? MONTHS[Number(month) - 1] : null;
+  return [day ? String(Number(day)) : null, monthName, year].filter(Boolean).join(' ');
+}
+
+function metaLookup(meta: MetadataSources['meta']): (...names: string[]) => string[] {
+  const byName = new Map<string, string[]>();
+  for (const { name, content } of meta) {
+    const key = name.trim().toLowerCase();
+    const value = cleanText(content);
+    if (!key || !value) continue;
+    byName.set(key, [...(byName.get(key) || []), value]);
+  }
+  return (...names) => names.flatMap((name) => byName.get(name) || []);
+}
+
+// Twitter cards put the author in a label/data pair such as "Written by" / "Jane Doe".
+function twitterAuthors(lookup: (...names: string[]) => string[]): string[] {
+  const authors: string[] = [];
+  for (let index = 1; index <= 4; index += 1) {
+    const label = lookup(`twitter:label${index}`)[0] || '';
+    if (/written by|author/i.test(label)) authors.push(...lookup(`twitter:data${index}`));
+  }
+  return authors;
+}
+
+function splitKeywords(values: string[], separator: RegExp): string[] {
+  return values.flatMap((value) => value.split(separator)).map((value) => value.trim());
+}
+
+// JSON-LD is the most deliberate source, then citation_* tags, then OpenGraph and Twitter cards.
+export function readArticleMetadata(sources: MetadataSources, baseUrl?: string): ArticleMetadata {
+  const article = jsonLdNodes(sources.jsonLd).find(isArticleNode) || {};
+  const meta = metaLookup(sources.meta);
+  const firstOf = (...values: unknown[]): string | null => {
+    for (const value of values) {
+      const text = cleanText(Array.isArray(value) ? value[0] : value);
+      if (text) return text;
+    }
+    return null;
+  };
+
+  const ldAuthors = personNames(article.author);
+  const authors = distinct(
+    ldAuthors.length > 0
+      ? ldAuthors
+      : [
+          ...meta('citation_author').map(normalizeByline),
+          ...meta('article:author', 'author').filter((name) => !isUrl(name)).map(normalizeByline),
+          ...twitterAuthors(meta).map(normalizeByline)
+        ]
+  );
+  const ldKeywords = asArray(article.keywords).map(cleanText).filter((value): value is string => Boolean(value));
+  const tags = distinct(
+    ldKeywords.length > 0
+      ? splitKeywords(ldKeywords, /,/)
+      : [
+          ...meta('article:tag'),
+          ...splitKeywords(meta('citation_keywords'), /;/),
+          ...splitKeywords(meta('news_keywords'), /,/)
+        ],
+    MAX_TAGS
+  );
+
+  return {
+    publishedTime: normalizeDate(
+      firstOf(
+        article.datePublished,
+        meta('citation_publication_date', 'citation_date', 'citation_online_date'),
+        meta('article:published_time', 'og:published_time', 'date', 'dc.date')
+      )
+    ),
+    modifiedTime: normalizeDate(firstOf(article.dateModified, meta('article:modified_time', 'og:updated_time'))),
+    authors,
+    section: firstOf(article.articleSection, meta('article:section', 'parsely-section')),
+    tags,
+    canonicalUrl: resolveHttpUrl(sources.canonical || firstOf(meta('og:url')) || urlValue(article.mainEntityOfPage), baseUrl),
+    leadImage: resolveHttpUrl(
+      urlValue(article.image) ||
+        firstOf(meta('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src')),
+      baseUrl
+    )
+  };
+}
@@ -0,0 +1,77 @@
+import { collectSourceDomains } from './cover.js';
+import type { ArticleInput, BookMetadata } from './types.js';
+
+export const DEFAULT_CREATOR = 'Tabs to EPUB & Kindle';
+
+function cleanText(value: string | null | undefined): string | null {
+  const cleaned = (value || '').replace(/\s+/g, ' ').trim();
+  return cleaned || null;
+}
+
+export function normalizeByline(byline: string | null | undefined): string | null {
+  const cleaned = cleanText(byline);
+  return cleaned ? cleanText(cleaned.replace(/^by\s+/i, '')) : null;
+}
+
+// Structured author lists win over the free-text byline, which may hold several names.
+export function articleAuthors(article: ArticleInput): string[] {
+  const listed = (article.authors || []).map(normalizeByline).filter((author): author is string => Boolean(author));
+  if (listed.length > 0) {
+    return listed;
+  }
+  const byline = normalizeByline(article.byline);
+  return byline ? [byline] : [];
+}
+
+function distinctNames(names: string[]): string[] {
+  const distinct: string[] = [];
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    distinct.push(name);
+  }
+  return distinct;
+}
+
+function articleSubjects(article: ArticleInput): string[] {
+  return [article.section, ...(article.tags || [])].map(cleanText).filter((subject): subject is string => Boolean(subject));
+}
+
+// A single article describes the book directly; a collection lists its authors and source domains.
+export function collectBookMetadata(articles: ArticleInput[]): BookMetadata {
+  const authors = distinctNames(articles.flatMap(articleAuthors));
+  const creators = authors.length > 0 ? authors : [DEFAULT_CREATOR];
+  if (articles.length === 1) {
+    const [article] = articles;
+    return {
+      creators,
+      publisher: cleanText(article.siteName),
+      source: cleanText(article.canonicalUrl) || cleanText(article.url),
+      description: cleanText(article.excerpt),
+      subjects: [...new Set(articleSubjects(article))],
+      date: cleanText(article.publishedTime)
+    };
+  }
+  return {
+    creators,
+    publisher: null,
+    source: null,
+    description: null,
+    subjects: collectSourceDomains(articles),
+    date: null
+  };
+}
+
+// Appending keeps what the book already says about itself and adds the new articles' authors and subjects.
+export function appendBookMetadata(existing: BookMetadata, articles: ArticleInput[]): BookMetadata {
+  const creators = distinctNames([...existing.creators, ...articles.flatMap(articleAuthors)].filter((creator) => creator !== DEFAULT_CREATOR));
+  return {
+    creators: creators.length > 0 ? creators : [DEFAULT_CREATOR],
+    publisher: existing.publisher,
+    source: existing.source,
+    description: existing.description,
+    subjects: distinctNames([...existing.subjects, ...articles.flatMap(articleSubjects), ...collectSourceDomains(articles)]),
+    date: existing.date
+  };
+}
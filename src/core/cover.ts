@@ -0,0 +1,146 @@
+import { escapeXml } from './strings.js';
+import type { EpubCover } from './types.js';
+
+export interface CoverDetails {
+  title: string;
+  domains: string[];
+  date: Date;
+  articleCount: number;
+}
+
+const COVER_WIDTH = 1600;
+const COVER_HEIGHT = 2560;
+const TITLE_MAX_CHARS_PER_LINE = 18;
+const TITLE_MAX_LINES = 6;
+const DOMAIN_MAX_LINES = 8;
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+function hostLabel(url: string | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+export function collectSourceDomains(articles: Array<{ url?: string }>): string[] {
+  const domains: string[] = [];
+  const seen = new Set<string>();
+  for (const article of articles) {
+    const label = hostLabel(article.url);
+    if (!label || seen.has(label)) continue;
+    seen.add(label);
+    domains.push(label);
+  }
+  return domains;
+}
+
+function truncateLine(line: string, maxChars: number): string {
+  if (line.length <= maxChars) {
+    return line;
+  }
+  return `${line.slice(0, Math.max(1, maxChars - 1)).trimEnd()}…`;
+}
+
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = String(text).replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+  }
+  if (current) {
+    lines.push(current);
+  }
+  const kept = lines.slice(0, maxLines).map((line) => truncateLine(line, maxChars));
+  if (lines.length > maxLines && !kept[maxLines - 1].endsWith('…')) {
+    kept[maxLines - 1] = truncateLine(`${kept[maxLines - 1]}…`, maxChars);
+  }
+  return kept;
+}
+
+function formatCoverDate(date: Date): string {
+  return `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
+}
+
+function textLines(lines: string[], x: number, startY: number, lineHeight: number, attrs: string): string {
+  return lines
+    .map((line, index) => `  <text x="${x}" y="${startY + index * lineHeight}" ${attrs}>${escapeXml(line)}</text>`)
+    .join('\n');
+}
+
+export function buildCoverSvg(details: CoverDetails): string {
+  const titleLines = wrapText(details.title || 'Untitled', TITLE_MAX_CHARS_PER_LINE, TITLE_MAX_LINES);
+  const titleLineHeight = 150;
+  const titleStartY = 620;
+  const titleBlock = textLines(
+    titleLines,
+    COVER_WIDTH / 2,
+    titleStartY,
+    titleLineHeight,
+    'text-anchor="middle" font-family="Georgia, serif" font-size="128" font-weight="bold" fill="#1f1f1f"'
+  );
+
+  const ruleY = titleStartY + titleLines.length * titleLineHeight;
+  const domains = details.domains.slice(0, DOMAIN_MAX_LINES);
+  if (details.domains.length > DOMAIN_MAX_LINES) {
+    domains[DOMAIN_MAX_LINES - 1] = `+ ${details.domains.length - DOMAIN_MAX_LINES + 1} more`;
+  }
+  const domainBlock = textLines(
+    domains.map((domain) => truncateLine(domain, 36)),
+    COVER_WIDTH / 2,
+    ruleY + 180,
+    90,
+    'text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="64" fill="#444444"'
+  );
+
+  const countLabel = details.articleCount === 1 ? '1 article' : `${details.articleCount} articles`;
+  const footer = `${formatCoverDate(details.date)} · ${countLabel}`;
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" version="1.1" width="${COVER_WIDTH}" height="${COVER_HEIGHT}" viewBox="0 0 ${COVER_WIDTH} ${COVER_HEIGHT}">
+  <rect x="0" y="0" width="${COVER_WIDTH}" height="${COVER_HEIGHT}" fill="#f7f3ee"/>
+  <rect x="80" y="80" width="${COVER_WIDTH - 160}" height="${COVER_HEIGHT - 160}" fill="none" stroke="#1f1f1f" stroke-width="8"/>
+${titleBlock}
+  <rect x="${COVER_WIDTH / 2 - 200}" y="${ruleY}" width="400" height="8" fill="#1f1f1f"/>
+${domainBlock}
+  <text x="${COVER_WIDTH / 2}" y="${COVER_HEIGHT - 240}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="56" fill="#1f1f1f">${escapeXml(footer)}</text>
+</svg>`;
+}
+
+export function generateCover(title: string, articles: Array<{ url?: string }>, date: Date): EpubCover {
+  const svg = buildCoverSvg({
+    title,
+    domains: collectSourceDomains(articles),
+    date,
+    articleCount: articles.length
+  });
+  return {
+    data: new TextEncoder().encode(svg),
+    mediaType: 'image/svg+xml',
+    generated: true
+  };
+}
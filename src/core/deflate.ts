@@ -0,0 +1,482 @@
+// Raw DEFLATE (RFC 1951) encoder. Kept synchronous so buildEpub/createZip stay synchronous.
+
+export const DEFAULT_COMPRESSION_LEVEL = 6;
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const HASH_MASK = HASH_SIZE - 1;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const BLOCK_SYMBOLS = 16384;
+const MAX_CODE_BITS = 15;
+const MAX_CODE_LENGTH_BITS = 7;
+const LITERAL_CODES = 286;
+const DISTANCE_CODES = 30;
+const CODE_LENGTH_CODES = 19;
+const END_OF_BLOCK = 256;
+
+export const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+export const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+export const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577
+];
+export const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+export const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// [maxChain, niceLength, lazy] indexed by level 1-9.
+const LEVEL_CONFIG: Array<[number, number, boolean]> = [
+  [4, 8, false],
+  [8, 16, false],
+  [16, 32, false],
+  [16, 32, true],
+  [32, 64, true],
+  [128, 128, true],
+  [256, 258, true],
+  [1024, 258, true],
+  [4096, 258, true]
+];
+
+interface BitWriter {
+  bytes: Uint8Array;
+  length: number;
+  bitBuffer: number;
+  bitCount: number;
+}
+
+function createBitWriter(capacity: number): BitWriter {
+  return { bytes: new Uint8Array(Math.max(64, capacity)), length: 0, bitBuffer: 0, bitCount: 0 };
+}
+
+function pushByte(writer: BitWriter, byte: number): void {
+  if (writer.length === writer.bytes.length) {
+    const grown = new Uint8Array(writer.bytes.length * 2);
+    grown.set(writer.bytes);
+    writer.bytes = grown;
+  }
+  writer.bytes[writer.length] = byte;
+  writer.length += 1;
+}
+
+function writeBits(writer: BitWriter, value: number, count: number): void {
+  writer.bitBuffer |= value << writer.bitCount;
+  writer.bitCount += count;
+  while (writer.bitCount >= 8) {
+    pushByte(writer, writer.bitBuffer & 0xff);
+    writer.bitBuffer >>>= 8;
+    writer.bitCount -= 8;
+  }
+}
+
+function flushBits(writer: BitWriter): Uint8Array {
+  if (writer.bitCount > 0) {
+    pushByte(writer, writer.bitBuffer & 0xff);
+    writer.bitBuffer = 0;
+    writer.bitCount = 0;
+  }
+  return writer.bytes.slice(0, writer.length);
+}
+
+function lengthCodeIndex(length: number): number {
+  let index = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[index] > length) {
+    index -= 1;
+  }
+  return index;
+}
+
+function distanceCodeIndex(distance: number): number {
+  let index = DISTANCE_BASE.length - 1;
+  while (DISTANCE_BASE[index] > distance) {
+    index -= 1;
+  }
+  return index;
+}
+
+function huffmanLengths(freqs: Uint32Array, limit: number): Uint8Array {
+  const lengths = new Uint8Array(freqs.length);
+  const used: number[] = [];
+  for (let i = 0; i < freqs.length; i += 1) {
+    if (freqs[i] > 0) used.push(i);
+  }
+  if (used.length === 0) {
+    return lengths;
+  }
+  if (used.length === 1) {
+    // A lone code must still form a complete prefix code for strict inflaters.
+    lengths[used[0]] = 1;
+    lengths[used[0] === 0 ? 1 : 0] = 1;
+    return lengths;
+  }
+
+  const weight: number[] = used.map((symbol) => freqs[symbol]);
+  const parent: number[] = new Array(used.length).fill(-1);
+  const heap: number[] = used.map((_, index) => index);
+  const less = (a: number, b: number) => weight[a] < weight[b] || (weight[a] === weight[b] && a < b);
+  const siftDown = (start: number) => {
+    let i = start;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && less(heap[left], heap[smallest])) smallest = left;
+      if (right < heap.length && less(heap[right], heap[smallest])) smallest = right;
+      if (smallest === i) return;
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+      i = smallest;
+    }
+  };
+  const pop = (): number => {
+    const top = heap[0];
+    const last = heap.pop() as number;
+    if (heap.length > 0) {
+      heap[0] = last;
+      siftDown(0);
+    }
+    return top;
+  };
+  const push = (node: number) => {
+    heap.push(node);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (!less(heap[i], heap[up])) break;
+      [heap[i], heap[up]] = [heap[up], heap[i]];
+      i = up;
+    }
+  };
+  for (let i = (heap.length >> 1) - 1; i >= 0; i -= 1) {
+    siftDown(i);
+  }
+  while (heap.length > 1) {
+    const a = pop();
+    const b = pop();
+    const node = weight.length;
+    weight.push(weight[a] + weight[b]);
+    parent.push(-1);
+    parent[a] = node;
+    parent[b] = node;
+    push(node);
+  }
+
+  used.forEach((symbol, index) => {
+    let depth = 0;
+    for (let node = index; parent[node] !== -1; node = parent[node]) {
+      depth += 1;
+    }
+    lengths[symbol] = Math.min(depth, limit);
+  });
+
+  // Clamping can over-subscribe the code space; rebalance until the Kraft sum is exactly one.
+  const total = 1 << limit;
+  let kraft = used.reduce((sum, symbol) => sum + (1 << (limit - lengths[symbol])), 0);
+  const byRarity = [...used].sort((a, b) => freqs[a] - freqs[b]);
+  while (kraft > total) {
+    let pick = -1;
+    for (const symbol of byRarity) {
+      if (lengths[symbol] < limit && (pick === -1 || lengths[symbol] > lengths[pick])) {
+        pick = symbol;
+      }
+    }
+    kraft -= 1 << (limit - lengths[pick] - 1);
+    lengths[pick] += 1;
+  }
+  while (kraft < total) {
+    const deficit = total - kraft;
+    let pick = -1;
+    for (const symbol of used) {
+      if (lengths[symbol] > 1 && 1 << (limit - lengths[symbol]) <= deficit && (pick === -1 || lengths[symbol] > lengths[pick])) {
+        pick = symbol;
+      }
+    }
+    kraft += 1 << (limit - lengths[pick]);
+    lengths[pick] -= 1;
+  }
+  return lengths;
+}
+
+function reverseBits(value: number, count: number): number {
+  let result = 0;
+  for (let i = 0; i < count; i += 1) {
+    result = (result << 1) | ((value >>> i) & 1);
+  }
+  return result;
+}
+
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const counts = new Uint16Array(MAX_CODE_BITS + 1);
+  for (const length of lengths) {
+    if (length) counts[length] += 1;
+  }
+  const next = new Uint16Array(MAX_CODE_BITS + 2);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits += 1) {
+    code = (code + counts[bits - 1]) << 1;
+    next[bits] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    const length = lengths[symbol];
+    if (length) {
+      codes[symbol] = reverseBits(next[length], length);
+      next[length] += 1;
+    }
+  }
+  return codes;
+}
+
+export const FIXED_LITERAL_LENGTHS = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return lengths;
+})();
+export const FIXED_DISTANCE_LENGTHS = new Uint8Array(DISTANCE_CODES).fill(5);
+
+interface SymbolBlock {
+  // Literal byte (0-255) or match length (>= 3), paired with a distance of 0 for literals.
+  values: Uint16Array;
+  distances: Uint16Array;
+  count: number;
+}
+
+function encodeCodeLengths(lengths: Uint8Array): Array<[number, number]> {
+  const output: Array<[number, number]> = [];
+  let i = 0;
+  while (i < lengths.length) {
+    const value = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) {
+      run += 1;
+    }
+    i += run;
+    if (value === 0) {
+      while (run >= 11) {
+        const chunk = Math.min(run, 138);
+        output.push([18, chunk - 11]);
+        run -= chunk;
+      }
+      if (run >= 3) {
+        output.push([17, run - 3]);
+        run = 0;
+      }
+    } else {
+      output.push([value, 0]);
+      run -= 1;
+      while (run >= 3) {
+        const chunk = Math.min(run, 6);
+        output.push([16, chunk - 3]);
+        run -= chunk;
+      }
+    }
+    for (; run > 0; run -= 1) {
+      output.push([value, 0]);
+    }
+  }
+  return output;
+}
+
+const CODE_LENGTH_EXTRA: Record<number, number> = { 16: 2, 17: 3, 18: 7 };
+
+function writeBlock(writer: BitWriter, block: SymbolBlock, isFinal: boolean): void {
+  const literalFreqs = new Uint32Array(LITERAL_CODES);
+  const distanceFreqs = new Uint32Array(DISTANCE_CODES);
+  for (let i = 0; i < block.count; i += 1) {
+    const distance = block.distances[i];
+    if (distance === 0) {
+      literalFreqs[block.values[i]] += 1;
+    } else {
+      literalFreqs[257 + lengthCodeIndex(block.values[i])] += 1;
+      distanceFreqs[distanceCodeIndex(distance)] += 1;
+    }
+  }
+  literalFreqs[END_OF_BLOCK] += 1;
+
+  const literalLengths = huffmanLengths(literalFreqs, MAX_CODE_BITS);
+  const distanceLengths = huffmanLengths(distanceFreqs, MAX_CODE_BITS);
+  if (!distanceLengths.some(Boolean)) {
+    distanceLengths[0] = 1;
+    distanceLengths[1] = 1;
+  }
+
+  let hlit = LITERAL_CODES;
+  while (hlit > 257 && literalLengths[hlit - 1] === 0) hlit -= 1;
+  let hdist = DISTANCE_CODES;
+  while (hdist > 1 && distanceLengths[hdist - 1] === 0) hdist -= 1;
+
+  const combined = new Uint8Array(hlit + hdist);
+  combined.set(literalLengths.subarray(0, hlit), 0);
+  combined.set(distanceLengths.subarray(0, hdist), hlit);
+  const codeLengthSymbols = encodeCodeLengths(combined);
+  const codeLengthFreqs = new Uint32Array(CODE_LENGTH_CODES);
+  codeLengthSymbols.forEach(([symbol]) => {
+    codeLengthFreqs[symbol] += 1;
+  });
+  const codeLengthLengths = huffmanLengths(codeLengthFreqs, MAX_CODE_LENGTH_BITS);
+  let hclen = CODE_LENGTH_CODES;
+  while (hclen > 4 && codeLengthLengths[CODE_LENGTH_ORDER[hclen - 1]] === 0) hclen -= 1;
+
+  const dataBits = (litLengths: Uint8Array, distLengths: Uint8Array): number => {
+    let bits = litLengths[END_OF_BLOCK];
+    for (let i = 0; i < block.count; i += 1) {
+      const distance = block.distances[i];
+      if (distance === 0) {
+        bits += litLengths[block.values[i]];
+      } else {
+        const lengthIndex = lengthCodeIndex(block.values[i]);
+        const distanceIndex = distanceCodeIndex(distance);
+        bits += litLengths[257 + lengthIndex] + LENGTH_EXTRA[lengthIndex];
+        bits += distLengths[distanceIndex] + DISTANCE_EXTRA[distanceIndex];
+      }
+    }
+    return bits;
+  };
+  const headerBits =
+    14 +
+    3 * hclen +
+    codeLengthSymbols.reduce((sum, [symbol]) => sum + codeLengthLengths[symbol] + (CODE_LENGTH_EXTRA[symbol] || 0), 0);
+  const dynamicBits = headerBits + dataBits(literalLengths, distanceLengths);
+  const fixedBits = dataBits(FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+
+  let useLiteralLengths: Uint8Array = FIXED_LITERAL_LENGTHS;
+  let useDistanceLengths: Uint8Array = FIXED_DISTANCE_LENGTHS;
+  writeBits(writer, isFinal ? 1 : 0, 1);
+  if (dynamicBits < fixedBits) {
+    useLiteralLengths = literalLengths;
+    useDistanceLengths = distanceLengths;
+    writeBits(writer, 2, 2);
+    writeBits(writer, hlit - 257, 5);
+    writeBits(writer, hdist - 1, 5);
+    writeBits(writer, hclen - 4, 4);
+    for (let i = 0; i < hclen; i += 1) {
+      writeBits(writer, codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    }
+    const codeLengthCodes = canonicalCodes(codeLengthLengths);
+    for (const [symbol, extra] of codeLengthSymbols) {
+      writeBits(writer, codeLengthCodes[symbol], codeLengthLengths[symbol]);
+      if (CODE_LENGTH_EXTRA[symbol]) {
+        writeBits(writer, extra, CODE_LENGTH_EXTRA[symbol]);
+      }
+    }
+  } else {
+    writeBits(writer, 1, 2);
+  }
+
+  const literalCodes = canonicalCodes(useLiteralLengths);
+  const distanceCodes = canonicalCodes(useDistanceLengths);
+  for (let i = 0; i < block.count; i += 1) {
+    const distance = block.distances[i];
+    const value = block.values[i];
+    if (distance === 0) {
+      writeBits(writer, literalCodes[value], useLiteralLengths[value]);
+      continue;
+    }
+    const lengthIndex = lengthCodeIndex(value);
+    writeBits(writer, literalCodes[257 + lengthIndex], useLiteralLengths[257 + lengthIndex]);
+    if (LENGTH_EXTRA[lengthIndex]) {
+      writeBits(writer, value - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+    }
+    const distanceIndex = distanceCodeIndex(distance);
+    writeBits(writer, distanceCodes[distanceIndex], useDistanceLengths[distanceIndex]);
+    if (DISTANCE_EXTRA[distanceIndex]) {
+      writeBits(writer, distance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA[distanceIndex]);
+    }
+  }
+  writeBits(writer, literalCodes[END_OF_BLOCK], useLiteralLengths[END_OF_BLOCK]);
+}
+
+export function deflateRaw(data: Uint8Array, level: number = DEFAULT_COMPRESSION_LEVEL): Uint8Array {
+  const clamped = Math.min(9, Math.max(1, Math.floor(level)));
+  const [maxChain, niceLength, lazy] = LEVEL_CONFIG[clamped - 1];
+  const writer = createBitWriter(data.length >> 1);
+  const block: SymbolBlock = {
+    values: new Uint16Array(BLOCK_SYMBOLS),
+    distances: new Uint16Array(BLOCK_SYMBOLS),
+    count: 0
+  };
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1);
+  const length = data.length;
+
+  const hashAt = (pos: number) => ((data[pos] << 10) ^ (data[pos + 1] << 5) ^ data[pos + 2]) & HASH_MASK;
+  const insert = (pos: number) => {
+    if (pos + MIN_MATCH > length) return;
+    const hash = hashAt(pos);
+    prev[pos & WINDOW_MASK] = head[hash];
+    head[hash] = pos;
+  };
+  const findMatch = (pos: number): { length: number; distance: number } => {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (pos + MIN_MATCH > length) {
+      return { length: 0, distance: 0 };
+    }
+    const maxLength = Math.min(MAX_MATCH, length - pos);
+    let candidate = head[hashAt(pos)];
+    let chain = maxChain;
+    while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain > 0) {
+      chain -= 1;
+      if (data[candidate + bestLength] === data[pos + bestLength]) {
+        let matched = 0;
+        while (matched < maxLength && data[candidate + matched] === data[pos + matched]) {
+          matched += 1;
+        }
+        if (matched > bestLength) {
+          bestLength = matched;
+          bestDistance = pos - candidate;
+          if (matched >= niceLength) break;
+        }
+      }
+      const next = prev[candidate & WINDOW_MASK];
+      if (next >= candidate) break;
+      candidate = next;
+    }
+    return bestLength >= MIN_MATCH ? { length: bestLength, distance: bestDistance } : { length: 0, distance: 0 };
+  };
+  const emit = (value: number, distance: number) => {
+    block.values[block.count] = value;
+    block.distances[block.count] = distance;
+    block.count += 1;
+    if (block.count === BLOCK_SYMBOLS) {
+      writeBlock(writer, block, false);
+      block.count = 0;
+    }
+  };
+
+  let pos = 0;
+  while (pos < length) {
+    let match = findMatch(pos);
+    if (lazy && match.length > 0 && match.length < niceLength && pos + 1 < length) {
+      insert(pos);
+      const next = findMatch(pos + 1);
+      if (next.length > match.length) {
+        emit(data[pos], 0);
+        pos += 1;
+        match = next;
+      } else {
+        // pos is already in the hash chain, so only the bytes after it need inserting.
+        emit(match.length, match.distance);
+        for (let i = 1; i < match.length; i += 1) insert(pos + i);
+        pos += match.length;
+        continue;
+      }
+    }
+    if (match.length > 0) {
+      emit(match.length, match.distance);
+      for (let i = 0; i < match.length; i += 1) insert(pos + i);
+      pos += match.length;
+    } else {
+      emit(data[pos], 0);
+      insert(pos);
+      pos += 1;
+    }
+  }
+  writeBlock(writer, block, true);
+  return flushBits(writer);
+}
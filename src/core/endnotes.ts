@@ -0,0 +1,100 @@
+import { decodeXmlEntities, escapeXml } from './strings.js';
+import type { LinkNote, LinkNotesMode } from './types.js';
+
+const ANCHOR_TAG_RE = /<(\/?)a\b([^>]*?)(\/?)>/g;
+const HREF_ATTR_RE = /\shref="([^"]*)"/;
+const ID_ATTR_RE = /\sid="([^"]*)"/;
+const EXTERNAL_HREF_RE = /^https?:\/\//i;
+
+export const LINK_NOTES_HREF = 'links.xhtml';
+export const LINK_NOTES_MODES: LinkNotesMode[] = ['off', 'chapter', 'book'];
+
+interface OpenAnchor {
+  url: string | null;
+  id: string | null;
+  labelStart: number;
+}
+
+function plainText(xhtml: string): string {
+  return decodeXmlEntities(xhtml.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function bareUrl(value: string): string {
+  return value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+// Link text such as "example.com/page" only repeats the URL listed next to it.
+function repeatsUrl(label: string, url: string): boolean {
+  return !/\s/.test(label) && bareUrl(url).startsWith(bareUrl(label));
+}
+
+// Rewrites external links in sanitized chapter content into numbered noterefs.
+// The link text stays in place; the URL moves to a note at notesHref#linknote-N.
+export function convertLinksToNotes(
+  content: string,
+  options: { firstNumber: number; notesHref: string }
+): { content: string; notes: LinkNote[] } {
+  const notes: LinkNote[] = [];
+  const numberByUrl = new Map<string, number>();
+  const stack: OpenAnchor[] = [];
+  let output = '';
+  let last = 0;
+
+  for (const match of content.matchAll(ANCHOR_TAG_RE)) {
+    const [tag, closing, attrs, selfClosing] = match;
+    output += content.slice(last, match.index);
+    last = (match.index ?? 0) + tag.length;
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || !open.url) {
+        output += tag;
+        continue;
+      }
+      const label = plainText(output.slice(open.labelStart));
+      output += open.id ? '</span>' : '';
+      let number = numberByUrl.get(open.url);
+      let refId = '';
+      if (number === undefined) {
+        number = options.firstNumber + notes.length;
+        numberByUrl.set(open.url, number);
+        notes.push({ number, url: decodeXmlEntities(open.url), label });
+        refId = ` id="linkref-${number}"`;
+      }
+      output += `<sup><a class="noteref" epub:type="noteref" href="${options.notesHref}#linknote-${number}"${refId}>${number}</a></sup>`;
+      continue;
+    }
+
+    const href = HREF_ATTR_RE.exec(attrs)?.[1] || '';
+    const insideConverted = stack.some((anchor) => anchor.url);
+    if (selfClosing || !EXTERNAL_HREF_RE.test(decodeXmlEntities(href)) || insideConverted) {
+      output += tag;
+      if (!selfClosing) stack.push({ url: null, id: null, labelStart: output.length });
+      continue;
+    }
+    // Keep the anchor's id as a span so in-page links to it still resolve.
+    const id = ID_ATTR_RE.exec(attrs)?.[1] || null;
+    output += id ? `<span id="${id}">` : '';
+    stack.push({ url: href, id, labelStart: output.length });
+  }
+
+  return { content: output + content.slice(last), notes };
+}
+
+// Renders the "Links" list; backHref is the chapter file holding the noterefs ('' for the same file).
+export function renderLinkNotes(
+  notes: Array<LinkNote & { backHref: string }>,
+  kind: 'footnote' | 'endnote',
+  heading = 'Links'
+): string {
+  const items = notes
+    .map((note) => {
+      const url = escapeXml(note.url);
+      const label = note.label && !repeatsUrl(note.label, note.url) ? `${escapeXml(note.label)}: ` : '';
+      const back = `<a class="noteback" href="${note.backHref}#linkref-${note.number}">&#8617;</a>`;
+      return `<li id="linknote-${note.number}" epub:type="${kind}">${label}<a href="${url}">${url}</a> ${back}</li>`;
+    })
+    .join('\n');
+  const start = notes.length > 0 && notes[0].number !== 1 ? ` start="${notes[0].number}"` : '';
+  return `<section class="link-notes" epub:type="${kind}s">\n<h2>${escapeXml(heading)}</h2>\n<ol${start}>\n${items}\n</ol>\n</section>`;
+}
@@ -0,0 +1,199 @@
+import { readZip } from './zip.js';
+import { decodeXmlEntities } from './strings.js';
+import type { EpubChapter, EpubManifestItem, EpubMetadata, EpubSpineItem, ParsedEpub } from './types.js';
+
+const textDecoder = new TextDecoder();
+
+const ATTRIBUTE_RE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_RE)) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+function elementText(inner: string): string {
+  return decodeXmlEntities(inner.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]*>/g, '')).trim();
+}
+
+function sectionOf(xml: string, name: string): string {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${name}\\s*>`, 'i'));
+  return match ? match[1] : '';
+}
+
+function emptyElements(xml: string, name: string): Array<Record<string, string>> {
+  const re = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)\\/?>`, 'gi');
+  return Array.from(xml.matchAll(re), (match) => parseAttributes(match[1]));
+}
+
+export function resolveEpubPath(baseDir: string, href: string): string {
+  let decoded = href.split('#')[0];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep the raw href when it is not valid percent-encoding.
+  }
+  const parts = `${baseDir}${decoded}`.split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') {
+      resolved.pop();
+    } else if (part !== '.' && part !== '') {
+      resolved.push(part);
+    }
+  }
+  return resolved.join('/');
+}
+
+function findRootfile(files: Map<string, Uint8Array>): string {
+  const container = files.get('META-INF/container.xml');
+  if (!container) {
+    throw new Error('Invalid EPUB: META-INF/container.xml is missing');
+  }
+  const rootfiles = emptyElements(textDecoder.decode(container), 'rootfile');
+  const rootfile =
+    rootfiles.find((attrs) => attrs['media-type'] === 'application/oebps-package+xml') || rootfiles[0];
+  if (!rootfile || !rootfile['full-path']) {
+    throw new Error('Invalid EPUB: no rootfile in container.xml');
+  }
+  return rootfile['full-path'];
+}
+
+function parseMetadata(metadataXml: string, uniqueIdentifier: string | undefined): EpubMetadata {
+  const dc = new Map<string, Array<{ attrs: Record<string, string>; text: string }>>();
+  for (const match of metadataXml.matchAll(/<dc:(\w+)\b([^>]*)>([\s\S]*?)<\/dc:\1\s*>/gi)) {
+    const name = match[1].toLowerCase();
+    const list = dc.get(name) || [];
+    list.push({ attrs: parseAttributes(match[2]), text: elementText(match[3]) });
+    dc.set(name, list);
+  }
+  const first = (name: string) => dc.get(name)?.[0]?.text || null;
+  const all = (name: string) => (dc.get(name) || []).map((entry) => entry.text).filter(Boolean);
+
+  const identifiers = dc.get('identifier') || [];
+  const identifier =
+    identifiers.find((entry) => uniqueIdentifier && entry.attrs.id === uniqueIdentifier)?.text ||
+    identifiers[0]?.text ||
+    null;
+
+  let modified: string | null = null;
+  let coverId: string | null = null;
+  let collection: { id: string; title: string } | null = null;
+  const refinements = new Map<string, string>();
+  for (const match of metadataXml.matchAll(/<(?:opf:)?meta\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:opf:)?meta\s*>)/gi)) {
+    const attrs = parseAttributes(match[1]);
+    if (attrs.property === 'dcterms:modified' && match[2] !== undefined) {
+      modified = elementText(match[2]);
+    }
+    if (attrs.name === 'cover' && attrs.content) {
+      coverId = attrs.content;
+    }
+    if (attrs.property === 'belongs-to-collection' && attrs.id && match[2] !== undefined && !collection) {
+      collection = { id: attrs.id, title: elementText(match[2]) };
+    }
+    if (attrs.refines && attrs.property && match[2] !== undefined) {
+      refinements.set(`${attrs.refines}|${attrs.property}`, elementText(match[2]));
+    }
+  }
+  const refined = (property: string) => (collection ? refinements.get(`#${collection.id}|${property}`) : undefined);
+  const series =
+    collection && refined('collection-type') === 'series'
+      ? {
+          identifier: refined('dcterms:identifier') || '',
+          title: collection.title,
+          position: Number(refined('group-position')) || 1
+        }
+      : null;
+
+  return {
+    identifier,
+    title: first('title'),
+    language: first('language'),
+    creators: all('creator'),
+    publisher: first('publisher'),
+    description: first('description'),
+    source: first('source'),
+    date: first('date'),
+    subjects: all('subject'),
+    modified,
+    coverId,
+    series
+  };
+}
+
+function chapterTitle(xhtml: string): string | null {
+  const match = xhtml.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const title = match ? elementText(match[1]) : '';
+  return title || null;
+}
+
+export function parseEpub(input: Uint8Array | ArrayBuffer): ParsedEpub {
+  const files = new Map<string, Uint8Array>();
+  for (const entry of readZip(input)) {
+    files.set(entry.path, entry.data);
+  }
+  return parseEpubFiles(files);
+}
+
+export function parseEpubFiles(files: Map<string, Uint8Array>): ParsedEpub {
+  const mimetype = files.get('mimetype');
+  if (!mimetype || textDecoder.decode(mimetype).trim() !== 'application/epub+zip') {
+    throw new Error('Invalid EPUB: missing or wrong mimetype entry');
+  }
+
+  const opfPath = findRootfile(files);
+  const opfBytes = files.get(opfPath);
+  if (!opfBytes) {
+    throw new Error(`Invalid EPUB: package document ${opfPath} is missing`);
+  }
+  const opf = textDecoder.decode(opfBytes);
+  const packageMatch = opf.match(/<(?:\w+:)?package\b([^>]*)>/i);
+  const packageAttrs = packageMatch ? parseAttributes(packageMatch[1]) : {};
+  const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+
+  const metadata = parseMetadata(sectionOf(opf, 'metadata'), packageAttrs['unique-identifier']);
+
+  const manifest: EpubManifestItem[] = emptyElements(sectionOf(opf, 'manifest'), 'item')
+    .filter((attrs) => attrs.id && attrs.href)
+    .map((attrs) => ({
+      id: attrs.id,
+      href: attrs.href,
+      path: resolveEpubPath(baseDir, attrs.href),
+      mediaType: attrs['media-type'] || '',
+      properties: (attrs.properties || '').split(/\s+/).filter(Boolean)
+    }));
+  if (!metadata.coverId) {
+    metadata.coverId = manifest.find((item) => item.properties.includes('cover-image'))?.id ?? null;
+  }
+
+  const spineMatch = opf.match(/<(?:\w+:)?spine\b([^>]*)>/i);
+  const spineAttrs = spineMatch ? parseAttributes(spineMatch[1]) : {};
+  const spine: EpubSpineItem[] = emptyElements(sectionOf(opf, 'spine'), 'itemref')
+    .filter((attrs) => attrs.idref)
+    .map((attrs) => ({ idref: attrs.idref, linear: attrs.linear !== 'no' }));
+
+  const manifestById = new Map(manifest.map((item) => [item.id, item]));
+  const chapters: EpubChapter[] = [];
+  for (const itemref of spine) {
+    const item = manifestById.get(itemref.idref);
+    const data = item ? files.get(item.path) : undefined;
+    if (!item || !data) {
+      continue;
+    }
+    const xhtml = textDecoder.decode(data);
+    chapters.push({ id: item.id, href: item.href, path: item.path, title: chapterTitle(xhtml), xhtml });
+  }
+
+  return {
+    opfPath,
+    version: packageAttrs.version || null,
+    metadata,
+    manifest,
+    spine,
+    tocId: spineAttrs.toc || null,
+    chapters,
+    files
+  };
+}
@@ -0,0 +1,269 @@
+// Structural checks in the spirit of epubcheck, covering the problems Kindle's converter rejects silently.
+import { readZip } from './zip.js';
+import { parseEpubFiles } from './epub-parser.js';
+import type { EpubValidationIssue, EpubValidationResult, ParsedEpub } from './types.js';
+import type { ZipReadEntry } from './zip.js';
+
+const textDecoder = new TextDecoder();
+
+// Image types Kindle renders natively; WebP, AVIF and the like must be transcoded before packaging.
+const ALLOWED_IMAGE_TYPES = new Set(['image/gif', 'image/jpeg', 'image/png', 'image/svg+xml']);
+const XML_MEDIA_TYPES = new Set(['application/xhtml+xml', 'application/x-dtbncx+xml', 'image/svg+xml']);
+const SPINE_MEDIA_TYPES = new Set(['application/xhtml+xml', 'image/svg+xml']);
+const PREDEFINED_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+const NAME = '[A-Za-z_:\\u00C0-\\uFFFF][-A-Za-z0-9_.:\\u00B7\\u00C0-\\uFFFF]*';
+const START_TAG_RE = new RegExp(`<(${NAME})((?:\\s+${NAME}\\s*=\\s*(?:"[^"]*"|'[^']*'))*)\\s*(/?)>`, 'y');
+const END_TAG_RE = new RegExp(`</(${NAME})\\s*>`, 'y');
+const ATTRIBUTE_RE = new RegExp(`(${NAME})\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'g');
+const DOCTYPE_RE = /<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>/y;
+const REFERENCE_RE = /&(?:#([0-9]+)|#x([0-9a-fA-F]+)|([A-Za-z_:][-\w.:]*));/y;
+const ILLEGAL_CHAR_RE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/;
+
+function isXmlChar(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function textError(text: string): string | null {
+  const illegal = text.match(ILLEGAL_CHAR_RE);
+  if (illegal) {
+    return `Illegal XML character U+${illegal[0].charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+  let amp = text.indexOf('&');
+  while (amp !== -1) {
+    REFERENCE_RE.lastIndex = amp;
+    const match = REFERENCE_RE.exec(text);
+    if (!match) {
+      return `Unescaped "&" near "${text.slice(amp, amp + 20)}"`;
+    }
+    if (match[3] && !PREDEFINED_ENTITIES.has(match[3])) {
+      return `Undefined entity &${match[3]};`;
+    }
+    if (!match[3]) {
+      const code = match[1] ? Number.parseInt(match[1], 10) : Number.parseInt(match[2], 16);
+      if (!isXmlChar(code)) {
+        return `Character reference ${match[0]} is not a legal XML character`;
+      }
+    }
+    amp = text.indexOf('&', REFERENCE_RE.lastIndex);
+  }
+  return null;
+}
+
+// Returns well-formedness problems plus duplicate id values; parsing stops at the first fatal error.
+// XHTML is also checked for links inside links, which HTML forbids and readers render unpredictably.
+export function checkXml(xml: string, { xhtml = false }: { xhtml?: boolean } = {}): string[] {
+  const errors: string[] = [];
+  const stack: string[] = [];
+  const ids = new Set<string>();
+  let rootSeen = false;
+  let pos = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string): string[] => [...errors, message];
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const text = xml.slice(pos, lt === -1 ? xml.length : lt);
+    if (text) {
+      if (stack.length === 0 && text.trim()) {
+        return fail('Text content outside the root element');
+      }
+      const error = textError(text);
+      if (error) {
+        return fail(error);
+      }
+    }
+    if (lt === -1) {
+      break;
+    }
+    pos = lt;
+
+    if (xml.startsWith('<!--', pos)) {
+      const end = xml.indexOf('-->', pos + 4);
+      if (end === -1) {
+        return fail('Unterminated comment');
+      }
+      pos = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<![CDATA[', pos)) {
+      const end = xml.indexOf(']]>', pos + 9);
+      if (end === -1 || stack.length === 0) {
+        return fail(end === -1 ? 'Unterminated CDATA section' : 'CDATA section outside the root element');
+      }
+      pos = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', pos)) {
+      const end = xml.indexOf('?>', pos + 2);
+      if (end === -1) {
+        return fail('Unterminated processing instruction');
+      }
+      pos = end + 2;
+      continue;
+    }
+    if (xml.startsWith('<!DOCTYPE', pos)) {
+      DOCTYPE_RE.lastIndex = pos;
+      if (rootSeen || !DOCTYPE_RE.exec(xml)) {
+        return fail('Malformed or misplaced DOCTYPE');
+      }
+      pos = DOCTYPE_RE.lastIndex;
+      continue;
+    }
+    if (xml.startsWith('</', pos)) {
+      END_TAG_RE.lastIndex = pos;
+      const match = END_TAG_RE.exec(xml);
+      if (!match) {
+        return fail(`Malformed end tag near "${xml.slice(pos, pos + 30)}"`);
+      }
+      const open = stack.pop();
+      if (open !== match[1]) {
+        return fail(open ? `Expected </${open}> but found </${match[1]}>` : `Unexpected end tag </${match[1]}>`);
+      }
+      pos = END_TAG_RE.lastIndex;
+      continue;
+    }
+
+    START_TAG_RE.lastIndex = pos;
+    const match = START_TAG_RE.exec(xml);
+    if (!match) {
+      return fail(`Malformed tag near "${xml.slice(pos, pos + 30)}"`);
+    }
+    if (stack.length === 0 && rootSeen) {
+      return fail(`Second root element <${match[1]}>`);
+    }
+    rootSeen = true;
+    if (xhtml && match[1] === 'a' && stack.includes('a')) {
+      errors.push('Nested <a> inside another <a>');
+    }
+    const names = new Set<string>();
+    for (const attribute of match[2].matchAll(ATTRIBUTE_RE)) {
+      const name = attribute[1];
+      const value = attribute[2] ?? attribute[3] ?? '';
+      if (names.has(name)) {
+        return fail(`Duplicate attribute ${name} on <${match[1]}>`);
+      }
+      names.add(name);
+      const error = value.includes('<') ? `Unescaped "<" in attribute ${name}` : textError(value);
+      if (error) {
+        return fail(error);
+      }
+      if (name === 'id' || name === 'xml:id') {
+        if (ids.has(value)) {
+          errors.push(`Duplicate id "${value}"`);
+        }
+        ids.add(value);
+      }
+    }
+    if (!match[3]) {
+      stack.push(match[1]);
+    }
+    pos = START_TAG_RE.lastIndex;
+  }
+
+  if (stack.length > 0) {
+    return fail(`Unclosed element <${stack[stack.length - 1]}>`);
+  }
+  if (!rootSeen) {
+    return fail('No root element');
+  }
+  return errors;
+}
+
+function checkMimetype(entries: ZipReadEntry[], errors: EpubValidationIssue[]): void {
+  const first = entries.reduce<ZipReadEntry | null>((min, entry) => (!min || entry.offset < min.offset ? entry : min), null);
+  if (!first || first.path !== 'mimetype') {
+    errors.push({ path: 'mimetype', message: 'The mimetype entry must be the first file in the archive' });
+    return;
+  }
+  if (first.method !== 0) {
+    errors.push({ path: 'mimetype', message: 'The mimetype entry must be stored uncompressed' });
+  }
+  if (textDecoder.decode(first.data) !== 'application/epub+zip') {
+    errors.push({ path: 'mimetype', message: 'The mimetype entry must contain exactly "application/epub+zip"' });
+  }
+}
+
+function checkPackage(book: ParsedEpub, errors: EpubValidationIssue[]): void {
+  const manifestIds = new Map<string, string>();
+  for (const item of book.manifest) {
+    if (manifestIds.has(item.id)) {
+      errors.push({ path: book.opfPath, message: `Duplicate manifest id "${item.id}"` });
+    }
+    manifestIds.set(item.id, item.mediaType);
+    if (!book.files.has(item.path)) {
+      errors.push({ path: book.opfPath, message: `Manifest item "${item.id}" points to missing file ${item.href}` });
+    }
+    if (item.mediaType.startsWith('image/') && !ALLOWED_IMAGE_TYPES.has(item.mediaType)) {
+      errors.push({ path: item.path, message: `Image media type ${item.mediaType} is not allowed` });
+    }
+  }
+
+  if (book.spine.length === 0) {
+    errors.push({ path: book.opfPath, message: 'The spine is empty' });
+  }
+  for (const itemref of book.spine) {
+    const mediaType = manifestIds.get(itemref.idref);
+    if (mediaType === undefined) {
+      errors.push({ path: book.opfPath, message: `Spine references unknown id "${itemref.idref}"` });
+    } else if (!SPINE_MEDIA_TYPES.has(mediaType)) {
+      errors.push({ path: book.opfPath, message: `Spine item "${itemref.idref}" has non-content media type ${mediaType}` });
+    }
+  }
+  if (book.tocId && !manifestIds.has(book.tocId)) {
+    errors.push({ path: book.opfPath, message: `Spine toc references unknown id "${book.tocId}"` });
+  }
+  if (book.version?.startsWith('3') && !book.manifest.some((item) => item.properties.includes('nav'))) {
+    errors.push({ path: book.opfPath, message: 'EPUB 3 package has no navigation document' });
+  }
+}
+
+export function validateEpub(input: Uint8Array | ArrayBuffer): EpubValidationResult {
+  const errors: EpubValidationIssue[] = [];
+  let entries: ZipReadEntry[];
+  try {
+    entries = readZip(input);
+  } catch (err) {
+    errors.push({ path: null, message: err instanceof Error ? err.message : String(err) });
+    return { valid: false, errors };
+  }
+
+  checkMimetype(entries, errors);
+
+  const files = new Map(entries.map((entry) => [entry.path, entry.data]));
+  let book: ParsedEpub;
+  try {
+    book = parseEpubFiles(files);
+  } catch (err) {
+    errors.push({ path: null, message: err instanceof Error ? err.message : String(err) });
+    return { valid: false, errors };
+  }
+
+  checkPackage(book, errors);
+
+  const xmlPaths = new Map([
+    ['META-INF/container.xml', ''],
+    [book.opfPath, '']
+  ]);
+  for (const item of book.manifest) {
+    if (XML_MEDIA_TYPES.has(item.mediaType) && files.has(item.path)) {
+      xmlPaths.set(item.path, item.mediaType);
+    }
+  }
+  for (const [path, mediaType] of xmlPaths) {
+    const data = files.get(path);
+    if (!data) continue;
+    for (const message of checkXml(textDecoder.decode(data), { xhtml: mediaType === 'application/xhtml+xml' })) {
+      errors.push({ path, message });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -1,6 +1,30 @@
 import { createZip } from './zip.js';
-import { escapeXml, safeFileName, formatTimestamp, isoDateTime } from './strings.js';
-import type { ArticleInput, BuildEpubOptions, BuildEpubResult, EpubAsset, NormalizedArticle } from './types.js';
+import { generateCover } from './cover.js';
+import { DEFAULT_TOC_DEPTH, buildTocTree, extractHeadings, tocTreeDepth } from './toc.js';
+import { parseEpub, resolveEpubPath } from './epub-parser.js';
+import { sanitizeXhtml } from './xhtml.js';
+import { appendBookMetadata, articleAuthors, collectBookMetadata } from './book-metadata.js';
+import { formatArticleDate } from './article-metadata.js';
+import { buildStylesheet } from './styles.js';
+import { LINK_NOTES_HREF, convertLinksToNotes, renderLinkNotes } from './endnotes.js';
+import { decodeXmlEntities, escapeXml, safeFileName, formatTimestamp, isoDateTime } from './strings.js';
+import type {
+  AppendEpubOptions,
+  ArticleHeading,
+  ArticleInput,
+  BookMetadata,
+  BuildEpubOptions,
+  BuildEpubResult,
+  EpubAsset,
+  EpubCover,
+  EpubManifestItem,
+  EpubSeries,
+  LinkNote,
+  LinkNotesMode,
+  NormalizedArticle,
+  ParsedEpub
+} from './types.js';
+import type { TocNode } from './toc.js';
 import type { ZipEntry } from './zip.js';
 
 function randomUuid(): string {
@@ -21,135 +45,333 @@ function randomUuid(): string {
   return `${hex.slice(0, 4).join('')}-${hex.slice(4, 6).join('')}-${hex.slice(6, 8).join('')}-${hex.slice(8, 10).join('')}-${hex.slice(10).join('')}`;
 }
 
-const INTERACTIVE_TAGS: string[] = [
-  'script',
-  'style',
-  'iframe',
-  'form',
-  'input',
-  'button',
-  'select',
-  'textarea',
-  'video',
-  'audio',
-  'canvas',
-  'svg',
-  'math',
-  'object',
-  'embed',
-  'noscript'
-];
-
-function stripInteractive(html: string): string {
-  let output = html || '';
-  for (const tag of INTERACTIVE_TAGS) {
-    const re = new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi');
-    output = output.replace(re, '');
-    const reSelf = new RegExp(`<${tag}\\b[^>]*\\/?\\s*>`, 'gi');
-    output = output.replace(reSelf, '');
-  }
-  output = output.replace(/\son\w+\s*=\s*"[^"]*"/gi, '');
-  output = output.replace(/\son\w+\s*=\s*'[^']*'/gi, '');
-  output = output.replace(/\son\w+\s*=\s*[^\s>]+/gi, '');
-  output = output.replace(/href\s*=\s*"javascript:[^"]*"/gi, 'href="#"');
-  output = output.replace(/href\s*=\s*'javascript:[^']*'/gi, "href='#'");
-  output = output.replace(/src\s*=\s*"javascript:[^"]*"/gi, '');
-  output = output.replace(/src\s*=\s*'javascript:[^']*'/gi, '');
-  return output;
-}
-
-function defaultTitle(articles: NormalizedArticle[]): string {
+const COVER_EXT_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg'
+};
+const GENERATED_RASTER_COVER_NAME = 'generated-cover';
+const GENERATED_RASTER_COVER_RE = /^images\/generated-cover\.(?:jpg|png)$/;
+
+// Already-compressed formats gain nothing from DEFLATE, so they are stored as-is.
+const PRECOMPRESSED_MEDIA_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif']);
+
+export function defaultTitle(articles: Array<{ title?: string }>, date?: Date): string {
   if (articles.length === 1 && articles[0].title) {
     return articles[0].title;
   }
-  const stamp = formatTimestamp();
+  const stamp = formatTimestamp(date);
   return `Saved Tabs ${stamp}`;
 }
 
 function normalizeArticle(article: ArticleInput, index: number): NormalizedArticle {
   const title = article.title || `Article ${index + 1}`;
+  const { content, headings } = extractHeadings(sanitizeXhtml(article.content || ''), index);
   return {
     ...article,
     title,
-    content: stripInteractive(article.content || '')
+    content,
+    headings
   };
 }
 
+function timeElement(iso: string | null | undefined): string | null {
+  const label = formatArticleDate(iso);
+  return label ? `<time datetime="${escapeXml(iso as string)}">${escapeXml(label)}</time>` : null;
+}
+
+// Title, authors, dates, section and tags; the byline paragraph keeps its plain-text form
+// because appendToEpub reads it back.
+function buildChapterHeader(article: NormalizedArticle, title: string): string {
+  const authors = articleAuthors(article);
+  const byline = authors.length > 0 ? authors.join(', ') : article.byline;
+  const published = timeElement(article.publishedTime);
+  const modified = article.modifiedTime?.slice(0, 10) !== article.publishedTime?.slice(0, 10) ? timeElement(article.modifiedTime) : null;
+  const details = [published, article.section ? escapeXml(article.section) : null, modified ? `Updated ${modified}` : null].filter(
+    (detail): detail is string => Boolean(detail)
+  );
+  const lines = [
+    `<h1>${title}</h1>`,
+    byline ? `<p class="byline">${escapeXml(byline)}</p>` : '',
+    details.length > 0 ? `<p class="article-meta">${details.join(' · ')}</p>` : '',
+    article.tags && article.tags.length > 0 ? `<p class="article-tags">${article.tags.map(escapeXml).join(', ')}</p>` : ''
+  ].filter(Boolean);
+  return `<header class="chapter-header">\n      ${lines.join('\n      ')}\n    </header>`;
+}
+
 function buildArticleXhtml(article: NormalizedArticle, index: number, lang: string): string {
   const title = escapeXml(article.title || `Article ${index + 1}`);
-  const byline = article.byline ? `<p class="byline">${escapeXml(article.byline)}</p>` : '';
-  const source = article.url
-    ? `<p class="source">Source: <a href="${escapeXml(article.url)}">${escapeXml(article.url)}</a></p>`
+  const header = buildChapterHeader(article, title);
+  const sourceUrl = article.canonicalUrl || article.url;
+  const source = sourceUrl
+    ? `<p class="source">Source: <a href="${escapeXml(sourceUrl)}">${escapeXml(sourceUrl)}</a></p>`
     : '';
   const content =
     article.content || (article.excerpt ? `<p>${escapeXml(article.excerpt)}</p>` : '<p>(No content extracted.)</p>');
 
-  return `<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n<html xmlns="http://www.w3.org/1999/xhtml" lang="${escapeXml(lang)}">\n<head>\n  <meta charset="utf-8"/>\n  <title>${title}</title>\n  <link rel="stylesheet" href="styles.css"/>\n</head>\n<body>\n  <article>\n    <h1>${title}</h1>\n    ${byline}\n    ${content}\n    ${source}\n  </article>\n</body>\n</html>`;
+  return `<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(lang)}">\n<head>\n  <meta charset="utf-8"/>\n  <title>${title}</title>\n  <link rel="stylesheet" href="styles.css"/>\n</head>\n<body>\n  <article>\n    ${header}\n    ${content}\n    ${source}\n  </article>\n</body>\n</html>`;
+}
+
+function withChapterLinkNotes(content: string): string {
+  const { content: converted, notes } = convertLinksToNotes(content, { firstNumber: 1, notesHref: '' });
+  if (notes.length === 0) {
+    return converted;
+  }
+  return `${converted}\n${renderLinkNotes(notes.map((note) => ({ ...note, backHref: '' })), 'footnote')}`;
+}
+
+function applyLinkNotes(
+  articles: NormalizedArticle[],
+  mode: LinkNotesMode | undefined
+): { articles: NormalizedArticle[]; bookNotes: Array<LinkNote & { backHref: string }> } {
+  const bookNotes: Array<LinkNote & { backHref: string }> = [];
+  if (mode === 'chapter') {
+    return { articles: articles.map((article) => ({ ...article, content: withChapterLinkNotes(article.content) })), bookNotes };
+  }
+  if (mode !== 'book') {
+    return { articles, bookNotes };
+  }
+  const converted = articles.map((article, index) => {
+    const result = convertLinksToNotes(article.content, { firstNumber: bookNotes.length + 1, notesHref: LINK_NOTES_HREF });
+    bookNotes.push(...result.notes.map((note) => ({ ...note, backHref: `section-${index + 1}.xhtml` })));
+    return { ...article, content: result.content };
+  });
+  return { articles: converted, bookNotes };
+}
+
+function buildLinksXhtml(notes: Array<LinkNote & { backHref: string }>, lang: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(lang)}">\n<head>\n  <meta charset="utf-8"/>\n  <title>Links</title>\n  <link rel="stylesheet" href="styles.css"/>\n</head>\n<body>\n  ${renderLinkNotes(notes, 'endnote')}\n</body>\n</html>`;
+}
+
+interface PackageChapter {
+  id: string;
+  href: string;
+  title: string;
+  headings: ArticleHeading[];
+  xhtml: string;
+}
+
+interface PackageItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+  properties?: string;
 }
 
-function buildNavXhtml(articles: NormalizedArticle[], lang: string): string {
-  const items = articles
-    .map((article, index) => {
-      const label = escapeXml(article.title || `Article ${index + 1}`);
-      const href = `section-${index + 1}.xhtml`;
-      return `      <li><a href="${href}">${label}</a></li>`;
+function assetItems(assets: EpubAsset[], firstIndex = 1): PackageItem[] {
+  return assets
+    .filter((asset) => asset && (asset.href || asset.path) && asset.mediaType && asset.data)
+    .map((asset, index) => ({
+      id: `asset-${firstIndex + index}`,
+      href: asset.href || asset.path.replace(/^OEBPS\//, ''),
+      mediaType: asset.mediaType,
+      data: asset.data
+    }));
+}
+
+function renderNavList(nodes: TocNode[], indent: string): string {
+  return nodes
+    .map((node) => {
+      const link = `<a href="${escapeXml(node.href)}">${escapeXml(node.label)}</a>`;
+      if (node.children.length === 0) {
+        return `${indent}<li>${link}</li>`;
+      }
+      return `${indent}<li>${link}\n${indent}  <ol>\n${renderNavList(node.children, `${indent}    `)}\n${indent}  </ol>\n${indent}</li>`;
     })
     .join('\n');
+}
+
+function buildNavXhtml(toc: TocNode[], lang: string): string {
+  const items = renderNavList(toc, '      ');
 
   return `<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(lang)}">\n<head>\n  <meta charset="utf-8"/>\n  <title>Table of Contents</title>\n  <link rel="stylesheet" href="styles.css"/>\n</head>\n<body>\n  <nav epub:type="toc">\n    <h1>Contents</h1>\n    <ol>\n${items}\n    </ol>\n  </nav>\n</body>\n</html>`;
 }
 
-function buildNcx(articles: NormalizedArticle[], title: string, uuid: string): string {
-  const navPoints = articles
-    .map((article, index) => {
-      const label = escapeXml(article.title || `Article ${index + 1}`);
-      const href = `section-${index + 1}.xhtml`;
-      const playOrder = index + 1;
-      return `    <navPoint id="navPoint-${playOrder}" playOrder="${playOrder}">\n      <navLabel><text>${label}</text></navLabel>\n      <content src="${href}"/>\n    </navPoint>`;
+function renderNavPoints(nodes: TocNode[], indent: string, counter: { playOrder: number }): string {
+  return nodes
+    .map((node) => {
+      counter.playOrder += 1;
+      const playOrder = counter.playOrder;
+      const children = node.children.length > 0 ? `\n${renderNavPoints(node.children, `${indent}  `, counter)}` : '';
+      return `${indent}<navPoint id="navPoint-${playOrder}" playOrder="${playOrder}">\n${indent}  <navLabel><text>${escapeXml(node.label)}</text></navLabel>\n${indent}  <content src="${escapeXml(node.href)}"/>${children}\n${indent}</navPoint>`;
     })
     .join('\n');
+}
+
+function buildNcx(toc: TocNode[], title: string, identifier: string): string {
+  const navPoints = renderNavPoints(toc, '    ', { playOrder: 0 });
+  const depth = Math.max(1, tocTreeDepth(toc));
 
-  return `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN" "http://www.daisy.org/z3986/2005/ncx-2005-1.dtd">\n<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">\n  <head>\n    <meta name="dtb:uid" content="urn:uuid:${uuid}"/>\n    <meta name="dtb:depth" content="1"/>\n    <meta name="dtb:totalPageCount" content="0"/>\n    <meta name="dtb:maxPageNumber" content="0"/>\n  </head>\n  <docTitle><text>${escapeXml(title)}</text></docTitle>\n  <navMap>\n${navPoints}\n  </navMap>\n</ncx>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN" "http://www.daisy.org/z3986/2005/ncx-2005-1.dtd">\n<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">\n  <head>\n    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>\n    <meta name="dtb:depth" content="${depth}"/>\n    <meta name="dtb:totalPageCount" content="0"/>\n    <meta name="dtb:maxPageNumber" content="0"/>\n  </head>\n  <docTitle><text>${escapeXml(title)}</text></docTitle>\n  <navMap>\n${navPoints}\n  </navMap>\n</ncx>`;
 }
 
 function buildOpf({
   title,
-  uuid,
+  identifier,
   lang,
-  articles,
-  assets,
+  chapters,
+  items,
+  cover,
+  metadata,
+  series,
   modified
 }: {
   title: string;
-  uuid: string;
+  identifier: string;
   lang: string;
-  articles: NormalizedArticle[];
-  assets: EpubAsset[];
+  chapters: PackageChapter[];
+  items: PackageItem[];
+  cover: PackageItem | null;
+  metadata: BookMetadata;
+  series: EpubSeries | null;
   modified: string;
 }): string {
-  const manifestItems = articles
-    .map((article, index) => {
-      return `    <item id="item-${index + 1}" href="section-${index + 1}.xhtml" media-type="application/xhtml+xml"/>`;
+  const manifestItems = chapters
+    .map((chapter) => {
+      return `    <item id="${escapeXml(chapter.id)}" href="${escapeXml(chapter.href)}" media-type="application/xhtml+xml"/>`;
     })
     .join('\n');
 
-  const assetItems = (assets || [])
-    .filter((asset) => asset && (asset.href || asset.path) && asset.mediaType)
-    .map((asset, index) => {
-      const href = asset.href || asset.path.replace(/^OEBPS\//, '');
-      return `    <item id="asset-${index + 1}" href="${escapeXml(href)}" media-type="${escapeXml(asset.mediaType)}"/>`;
+  const assetItems = items
+    .map((item) => {
+      const properties = item.properties ? ` properties="${escapeXml(item.properties)}"` : '';
+      return `    <item id="${escapeXml(item.id)}" href="${escapeXml(item.href)}"${properties} media-type="${escapeXml(item.mediaType)}"/>`;
     })
     .join('\n');
 
-  const spineItems = articles
-    .map((_, index) => `    <itemref idref="item-${index + 1}"/>`)
+  const coverItem = cover
+    ? `\n    <item id="${escapeXml(cover.id)}" href="${escapeXml(cover.href)}" properties="cover-image" media-type="${escapeXml(cover.mediaType)}"/>`
+    : '';
+  const coverMeta = cover ? `\n    <meta name="cover" content="${escapeXml(cover.id)}"/>` : '';
+  // EPUB 3 collection metadata, plus the calibre tags Kindle tooling still reads.
+  const seriesMeta = series
+    ? [
+        `<meta property="belongs-to-collection" id="series">${escapeXml(series.title)}</meta>`,
+        '<meta refines="#series" property="collection-type">series</meta>',
+        `<meta refines="#series" property="group-position">${series.position}</meta>`,
+        `<meta refines="#series" property="dcterms:identifier">${escapeXml(series.identifier)}</meta>`,
+        `<meta name="calibre:series" content="${escapeXml(series.title)}"/>`,
+        `<meta name="calibre:series_index" content="${series.position}"/>`
+      ]
+        .map((element) => `\n    ${element}`)
+        .join('')
+    : '';
+
+  const spineItems = chapters
+    .map((chapter) => `    <itemref idref="${escapeXml(chapter.id)}"/>`)
     .join('\n');
 
-  return `<?xml version="1.0" encoding="utf-8"?>\n<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="3.0">\n  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n    <dc:identifier id="bookid">urn:uuid:${uuid}</dc:identifier>\n    <dc:title>${escapeXml(title)}</dc:title>\n    <dc:language>${escapeXml(lang)}</dc:language>\n    <dc:creator>Tabs to EPUB & Kindle</dc:creator>\n    <meta property="dcterms:modified">${escapeXml(modified)}</meta>\n  </metadata>\n  <manifest>\n    <item id="nav" href="nav.xhtml" properties="nav" media-type="application/xhtml+xml"/>\n    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>\n    <item id="css" href="styles.css" media-type="text/css"/>\n${manifestItems}\n${assetItems}\n  </manifest>\n  <spine toc="ncx">\n${spineItems}\n  </spine>\n</package>`;
+  const dcElements = [
+    ...metadata.creators.map((creator) => `<dc:creator>${escapeXml(creator)}</dc:creator>`),
+    ...(metadata.publisher ? [`<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`] : []),
+    `<dc:date>${escapeXml(metadata.date || modified)}</dc:date>`,
+    ...(metadata.source ? [`<dc:source>${escapeXml(metadata.source)}</dc:source>`] : []),
+    ...(metadata.description ? [`<dc:description>${escapeXml(metadata.description)}</dc:description>`] : []),
+    ...metadata.subjects.map((subject) => `<dc:subject>${escapeXml(subject)}</dc:subject>`)
+  ]
+    .map((element) => `\n    ${element}`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="utf-8"?>\n<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="3.0">\n  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n    <dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>\n    <dc:title>${escapeXml(title)}</dc:title>\n    <dc:language>${escapeXml(lang)}</dc:language>${dcElements}\n    <meta property="dcterms:modified">${escapeXml(modified)}</meta>${seriesMeta}${coverMeta}\n  </metadata>\n  <manifest>\n    <item id="nav" href="nav.xhtml" properties="nav" media-type="application/xhtml+xml"/>\n    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>\n    <item id="css" href="styles.css" media-type="text/css"/>${coverItem}\n${manifestItems}\n${assetItems}\n  </manifest>\n  <spine toc="ncx">\n${spineItems}\n  </spine>\n</package>`;
 }
 
-function defaultCss(): string {
-  return `body {\n  font-family: "Georgia", "Times New Roman", serif;\n  line-height: 1.6;\n  margin: 5%;\n  color: #1f1f1f;\n}\n\narticle h1 {\n  font-size: 1.6em;\n  margin-bottom: 0.4em;\n}\n\n.byline {\n  font-style: italic;\n  color: #666;\n  margin-top: 0;\n}\n\n.source {\n  margin-top: 2em;\n  font-size: 0.9em;\n  color: #555;\n}\n\nimg {\n  max-width: 100%;\n  height: auto;\n}\n\npre, code {\n  font-family: "Courier New", monospace;\n  font-size: 0.9em;\n}`;
+function resolveCover(
+  option: EpubCover | false | undefined,
+  title: string,
+  articles: Array<{ url?: string }>,
+  date: Date
+): PackageItem | null {
+  if (option === false) {
+    return null;
+  }
+  const cover = option && option.data && option.mediaType ? option : generateCover(title, articles, date);
+  const ext = COVER_EXT_BY_TYPE[cover.mediaType];
+  if (!ext) {
+    throw new Error(`Unsupported cover image type: ${cover.mediaType}`);
+  }
+  // Rasterized generated covers get their own name so appending can tell them from a custom cover.png.
+  const href = cover.generated && ext !== 'svg' ? `images/${GENERATED_RASTER_COVER_NAME}.${ext}` : `images/cover.${ext}`;
+  return { id: 'cover-image', href, mediaType: cover.mediaType, data: cover.data };
+}
+
+function packageEpub({
+  opfPath,
+  title,
+  identifier,
+  lang,
+  chapters,
+  items,
+  cover,
+  metadata,
+  series,
+  css,
+  modifiedDate,
+  tocDepth,
+  compressionLevel
+}: {
+  opfPath: string;
+  title: string;
+  identifier: string;
+  lang: string;
+  chapters: PackageChapter[];
+  items: PackageItem[];
+  cover: PackageItem | null;
+  metadata: BookMetadata;
+  series?: EpubSeries | null;
+  css: string | Uint8Array;
+  modifiedDate: Date;
+  tocDepth?: number;
+  compressionLevel?: number;
+}): Uint8Array {
+  const opfDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+  const files: ZipEntry[] = [];
+
+  files.push({
+    path: 'mimetype',
+    data: 'application/epub+zip',
+    store: true
+  });
+
+  files.push({
+    path: 'META-INF/container.xml',
+    data: `<?xml version="1.0" encoding="UTF-8"?>\n<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n  <rootfiles>\n    <rootfile full-path="${escapeXml(opfPath)}" media-type="application/oebps-package+xml"/>\n  </rootfiles>\n</container>`
+  });
+
+  const toc = buildTocTree(chapters, tocDepth ?? DEFAULT_TOC_DEPTH);
+  const nav = buildNavXhtml(toc, lang);
+  const ncx = buildNcx(toc, title, identifier);
+  const opf = buildOpf({
+    title,
+    identifier,
+    lang,
+    chapters,
+    items,
+    cover,
+    metadata,
+    series: series || null,
+    modified: isoDateTime(modifiedDate)
+  });
+
+  files.push({ path: `${opfDir}nav.xhtml`, data: nav });
+  files.push({ path: `${opfDir}toc.ncx`, data: ncx });
+  files.push({ path: opfPath, data: opf });
+  files.push({ path: `${opfDir}styles.css`, data: css });
+
+  chapters.forEach((chapter) => {
+    files.push({ path: resolveEpubPath(opfDir, chapter.href), data: chapter.xhtml });
+  });
+
+  [...(cover ? [cover] : []), ...items].forEach((item) => {
+    files.push({
+      path: resolveEpubPath(opfDir, item.href),
+      data: item.data,
+      store: PRECOMPRESSED_MEDIA_TYPES.has(item.mediaType)
+    });
+  });
+
+  return createZip(files, { mtime: modifiedDate, compressionLevel });
 }
 
 export function buildEpub(rawArticles: ArticleInput[], options: BuildEpubOptions = {}): BuildEpubResult {
@@ -157,54 +379,233 @@ export function buildEpub(rawArticles: ArticleInput[], options: BuildEpubOptions
     throw new Error('No articles provided.');
   }
 
-  const articles = rawArticles.map((article, index) => normalizeArticle(article, index));
+  const { articles, bookNotes } = applyLinkNotes(
+    rawArticles.map((article, index) => normalizeArticle(article, index)),
+    options.linkNotes
+  );
   const lang = options.language || articles[0].lang || 'en';
   const title = options.title || defaultTitle(articles);
   const uuid = options.identifier || randomUuid();
-  const modified = isoDateTime(options.modified || new Date());
+  const modifiedDate = options.modified || new Date();
   const assets = Array.isArray(options.assets) ? options.assets : [];
 
-  const files: ZipEntry[] = [];
+  const chapters: PackageChapter[] = articles.map((article, index) => ({
+    id: `item-${index + 1}`,
+    href: `section-${index + 1}.xhtml`,
+    title: article.title,
+    headings: article.headings,
+    xhtml: buildArticleXhtml(article, index, lang)
+  }));
+  if (bookNotes.length > 0) {
+    chapters.push({ id: 'links', href: LINK_NOTES_HREF, title: 'Links', headings: [], xhtml: buildLinksXhtml(bookNotes, lang) });
+  }
 
-  files.push({
-    path: 'mimetype',
-    data: 'application/epub+zip'
+  const bytes = packageEpub({
+    opfPath: 'OEBPS/content.opf',
+    title,
+    identifier: `urn:uuid:${uuid}`,
+    lang,
+    chapters,
+    items: assetItems(assets),
+    cover: resolveCover(options.cover, title, articles, modifiedDate),
+    metadata: collectBookMetadata(articles),
+    series: options.series,
+    css: options.stylesheet || buildStylesheet(),
+    modifiedDate,
+    tocDepth: options.tocDepth,
+    compressionLevel: options.compressionLevel
   });
+  const filename = options.filename || safeFileName(articles.length === 1 ? articles[0].title : `tabs-${formatTimestamp()}`);
 
-  files.push({
-    path: 'META-INF/container.xml',
-    data: `<?xml version="1.0" encoding="UTF-8"?>\n<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n  <rootfiles>\n    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>\n  </rootfiles>\n</container>`
-  });
+  return { bytes, filename };
+}
 
-  const nav = buildNavXhtml(articles, lang);
-  const ncx = buildNcx(articles, title, uuid);
-  const opf = buildOpf({ title, uuid, lang, articles, assets, modified });
-  const css = defaultCss();
+const GENERATED_COVER_HREF = 'images/cover.svg';
+const SOURCE_LINK_RE = /<p class="source">Source: <a href="([^"]*)"/;
 
-  files.push({ path: 'OEBPS/nav.xhtml', data: nav });
-  files.push({ path: 'OEBPS/toc.ncx', data: ncx });
-  files.push({ path: 'OEBPS/content.opf', data: opf });
-  files.push({ path: 'OEBPS/styles.css', data: css });
+function opfDirectory(book: ParsedEpub): string {
+  return book.opfPath.includes('/') ? book.opfPath.slice(0, book.opfPath.lastIndexOf('/') + 1) : '';
+}
 
-  articles.forEach((article, index) => {
-    files.push({
-      path: `OEBPS/section-${index + 1}.xhtml`,
-      data: buildArticleXhtml(article, index, lang)
+function navigationIds(book: ParsedEpub): Set<string> {
+  return new Set(
+    book.manifest
+      .filter((item) => item.properties.includes('nav') || item.id === book.tocId || item.mediaType === 'application/x-dtbncx+xml')
+      .map((item) => item.id)
+  );
+}
+
+function generatedCoverItem(book: ParsedEpub): EpubManifestItem | null {
+  const coverItem = book.manifest.find((item) => item.id === book.metadata.coverId);
+  if (!coverItem) {
+    return null;
+  }
+  const href = coverItem.path.slice(opfDirectory(book).length);
+  return href === GENERATED_COVER_HREF || GENERATED_RASTER_COVER_RE.test(href) ? coverItem : null;
+}
+
+// Earlier chapters only survive as XHTML, so the cover recovers their source URLs from the chapter template.
+function articleChapterSources(book: ParsedEpub): Array<{ url?: string }> {
+  const navIds = navigationIds(book);
+  return book.chapters
+    .filter((chapter) => !navIds.has(chapter.id) && chapter.path !== `${opfDirectory(book)}${LINK_NOTES_HREF}`)
+    .map((chapter) => {
+      const url = chapter.xhtml.match(SOURCE_LINK_RE);
+      return { url: url ? decodeXmlEntities(url[1]) : undefined };
     });
+}
+
+// The SVG cover appendToEpub would draw for the combined book, or null when the book keeps its
+// own cover. Lets callers rasterize it and pass the result back as AppendEpubOptions.cover.
+export function appendedCover(existing: Uint8Array | ArrayBuffer, rawArticles: ArticleInput[], date: Date): EpubCover | null {
+  const book = parseEpub(existing);
+  if (!generatedCoverItem(book)) {
+    return null;
+  }
+  const title = book.metadata.title || defaultTitle(rawArticles.map((article, index) => ({ title: article.title || `Article ${index + 1}` })));
+  return generateCover(title, [...articleChapterSources(book), ...rawArticles], date);
+}
+
+function nextFree(used: Set<string>, start: number, make: (index: number) => string): { index: number; value: string } {
+  let index = start;
+  while (used.has(make(index))) {
+    index += 1;
+  }
+  const value = make(index);
+  used.add(value);
+  return { index, value };
+}
+
+// Appends articles to a previously saved EPUB, keeping its identifier, title and existing chapters
+// and regenerating the navigation documents and package file around the combined chapter list.
+export function appendToEpub(
+  existing: Uint8Array | ArrayBuffer,
+  rawArticles: ArticleInput[],
+  options: AppendEpubOptions = {}
+): BuildEpubResult {
+  if (!rawArticles || rawArticles.length === 0) {
+    throw new Error('No articles provided.');
+  }
+
+  const book = parseEpub(existing);
+  const opfDir = opfDirectory(book);
+  const modifiedDate = options.modified || new Date();
+
+  const navIds = navigationIds(book);
+  const keptChapters = book.chapters.filter((chapter) => !navIds.has(chapter.id));
+  const keptPackageChapters: PackageChapter[] = keptChapters.map((chapter, index) => {
+    const { content, headings } = extractHeadings(chapter.xhtml, index);
+    return {
+      id: chapter.id,
+      href: chapter.href,
+      title: chapter.title || `Article ${index + 1}`,
+      headings,
+      xhtml: content
+    };
   });
+  // A book-level Links page stays last, after the appended chapters.
+  const notesPages = keptPackageChapters.filter((chapter) => chapter.href === LINK_NOTES_HREF);
+  const chapters = keptPackageChapters.filter((chapter) => chapter.href !== LINK_NOTES_HREF);
+
+  const articles = rawArticles.map((article, index) => normalizeArticle(article, chapters.length + index));
+  const lang = book.metadata.language || articles[0].lang || 'en';
+  const title = book.metadata.title || defaultTitle(articles);
 
-  assets.forEach((asset) => {
-    if (!asset || !asset.path || !asset.data) {
-      return;
+  const usedIds = new Set(book.manifest.map((item) => item.id));
+  const usedPaths = new Set([...book.files.keys(), ...book.manifest.map((item) => item.path)]);
+
+  const coverItem = book.manifest.find((item) => item.id === book.metadata.coverId);
+  const regenerateCover = Boolean(generatedCoverItem(book));
+  const skipIds = new Set([...navIds, ...keptChapters.map((chapter) => chapter.id)]);
+  if (coverItem) {
+    skipIds.add(coverItem.id);
+  }
+  const items: PackageItem[] = [];
+  for (const item of book.manifest) {
+    const data = book.files.get(item.path);
+    if (skipIds.has(item.id) || item.path === `${opfDir}styles.css` || !data) {
+      continue;
     }
-    files.push({
-      path: asset.path,
-      data: asset.data
+    const properties = item.properties.filter((property) => property !== 'nav' && property !== 'cover-image');
+    items.push({
+      id: item.id,
+      href: item.href,
+      mediaType: item.mediaType,
+      data,
+      properties: properties.length ? properties.join(' ') : undefined
+    });
+  }
+
+  // New images keep their names unless they collide with files already in the book.
+  const renames = new Map<string, string>();
+  let assetIndex = 1;
+  for (const asset of assetItems(Array.isArray(options.assets) ? options.assets : [])) {
+    let href = asset.href;
+    if (usedPaths.has(resolveEpubPath(opfDir, href))) {
+      const ext = href.includes('.') ? href.slice(href.lastIndexOf('.')) : '';
+      href = nextFree(usedPaths, 1, (index) => `${opfDir}images/image-${index}${ext}`).value.slice(opfDir.length);
+      renames.set(asset.href, href);
+    } else {
+      usedPaths.add(resolveEpubPath(opfDir, href));
+    }
+    const id = nextFree(usedIds, assetIndex, (index) => `asset-${index}`);
+    assetIndex = id.index + 1;
+    items.push({ ...asset, id: id.value, href });
+  }
+
+  let sectionIndex = chapters.length + 1;
+  articles.forEach((article) => {
+    let content = renames.size
+      ? article.content.replace(/"([^"]+)"/g, (match, value: string) => {
+          const renamed = renames.get(value);
+          return renamed ? `"${renamed}"` : match;
+        })
+      : article.content;
+    // Appended chapters keep their notes to themselves; an existing Links page is left as it was.
+    if (options.linkNotes && options.linkNotes !== 'off') {
+      content = withChapterLinkNotes(content);
+    }
+    const section = nextFree(usedPaths, sectionIndex, (number) => `${opfDir}section-${number}.xhtml`);
+    sectionIndex = section.index + 1;
+    const id = nextFree(usedIds, section.index, (number) => `item-${number}`);
+    chapters.push({
+      id: id.value,
+      href: section.value.slice(opfDir.length),
+      title: article.title,
+      headings: article.headings,
+      xhtml: buildArticleXhtml({ ...article, content }, chapters.length, lang)
     });
   });
+  chapters.push(...notesPages);
 
-  const bytes = createZip(files, { mtime: options.modified || new Date() });
-  const filename = options.filename || safeFileName(articles.length === 1 ? articles[0].title : `tabs-${formatTimestamp()}`);
+  let cover: PackageItem | null = null;
+  if (regenerateCover) {
+    cover = resolveCover(options.cover, title, [...articleChapterSources(book), ...articles], modifiedDate);
+  } else if (coverItem && book.files.get(coverItem.path)) {
+    cover = {
+      id: coverItem.id,
+      href: coverItem.href,
+      mediaType: coverItem.mediaType,
+      data: book.files.get(coverItem.path) as Uint8Array
+    };
+  }
+
+  const bytes = packageEpub({
+    opfPath: book.opfPath,
+    title,
+    identifier: book.metadata.identifier || `urn:uuid:${randomUuid()}`,
+    lang,
+    chapters,
+    items,
+    cover,
+    metadata: appendBookMetadata(book.metadata, articles),
+    series: book.metadata.series,
+    css: book.files.get(`${opfDir}styles.css`) || buildStylesheet(),
+    modifiedDate,
+    tocDepth: options.tocDepth,
+    compressionLevel: options.compressionLevel
+  });
+  const filename = options.filename || safeFileName(title);
 
   return { bytes, filename };
 }
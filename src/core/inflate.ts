@@ -0,0 +1,234 @@
+// Raw DEFLATE (RFC 1951) decoder, the counterpart to deflate.ts.
+import {
+  CODE_LENGTH_ORDER,
+  DISTANCE_BASE,
+  DISTANCE_EXTRA,
+  FIXED_DISTANCE_LENGTHS,
+  FIXED_LITERAL_LENGTHS,
+  LENGTH_BASE,
+  LENGTH_EXTRA
+} from './deflate.js';
+
+const MAX_BITS = 15;
+
+interface BitReader {
+  data: Uint8Array;
+  pos: number;
+  bitBuffer: number;
+  bitCount: number;
+}
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+interface OutputBuffer {
+  bytes: Uint8Array;
+  length: number;
+}
+
+function readBits(reader: BitReader, count: number): number {
+  while (reader.bitCount < count) {
+    if (reader.pos >= reader.data.length) {
+      throw new Error('Unexpected end of deflate data');
+    }
+    reader.bitBuffer |= reader.data[reader.pos] << reader.bitCount;
+    reader.pos += 1;
+    reader.bitCount += 8;
+  }
+  const value = reader.bitBuffer & ((1 << count) - 1);
+  reader.bitBuffer >>>= count;
+  reader.bitCount -= count;
+  return value;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i += 1) {
+    counts[lengths[i]] += 1;
+  }
+  let left = 1;
+  for (let len = 1; len <= MAX_BITS; len += 1) {
+    left <<= 1;
+    left -= counts[len];
+    if (left < 0) {
+      throw new Error('Invalid deflate data: over-subscribed code');
+    }
+  }
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len += 1) {
+    offsets[len + 1] = offsets[len] + counts[len];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]] = symbol;
+      offsets[lengths[symbol]] += 1;
+    }
+  }
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len <= MAX_BITS; len += 1) {
+    code |= readBits(reader, 1);
+    const count = huffman.counts[len];
+    if (code - first < count) {
+      return huffman.symbols[index + (code - first)];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid deflate data: bad Huffman code');
+}
+
+function ensureCapacity(output: OutputBuffer, extra: number): void {
+  const needed = output.length + extra;
+  if (needed <= output.bytes.length) {
+    return;
+  }
+  let size = Math.max(1024, output.bytes.length * 2);
+  while (size < needed) size *= 2;
+  const grown = new Uint8Array(size);
+  grown.set(output.bytes.subarray(0, output.length));
+  output.bytes = grown;
+}
+
+function inflateStored(reader: BitReader, output: OutputBuffer): void {
+  reader.bitBuffer = 0;
+  reader.bitCount = 0;
+  if (reader.pos + 4 > reader.data.length) {
+    throw new Error('Unexpected end of deflate data');
+  }
+  const data = reader.data;
+  const len = data[reader.pos] | (data[reader.pos + 1] << 8);
+  const nlen = data[reader.pos + 2] | (data[reader.pos + 3] << 8);
+  reader.pos += 4;
+  if (len !== (~nlen & 0xffff)) {
+    throw new Error('Invalid deflate data: stored block length mismatch');
+  }
+  if (reader.pos + len > data.length) {
+    throw new Error('Unexpected end of deflate data');
+  }
+  ensureCapacity(output, len);
+  output.bytes.set(data.subarray(reader.pos, reader.pos + len), output.length);
+  output.length += len;
+  reader.pos += len;
+}
+
+function inflateCodes(reader: BitReader, output: OutputBuffer, literals: Huffman, distances: Huffman): void {
+  while (true) {
+    const symbol = decodeSymbol(reader, literals);
+    if (symbol < 256) {
+      ensureCapacity(output, 1);
+      output.bytes[output.length] = symbol;
+      output.length += 1;
+      continue;
+    }
+    if (symbol === 256) {
+      return;
+    }
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) {
+      throw new Error('Invalid deflate data: bad length symbol');
+    }
+    const length = LENGTH_BASE[lengthIndex] + readBits(reader, LENGTH_EXTRA[lengthIndex]);
+    const distanceIndex = decodeSymbol(reader, distances);
+    if (distanceIndex >= DISTANCE_BASE.length) {
+      throw new Error('Invalid deflate data: bad distance symbol');
+    }
+    const distance = DISTANCE_BASE[distanceIndex] + readBits(reader, DISTANCE_EXTRA[distanceIndex]);
+    if (distance > output.length) {
+      throw new Error('Invalid deflate data: distance too far back');
+    }
+    ensureCapacity(output, length);
+    const bytes = output.bytes;
+    let from = output.length - distance;
+    for (let i = 0; i < length; i += 1) {
+      bytes[output.length] = bytes[from];
+      output.length += 1;
+      from += 1;
+    }
+  }
+}
+
+function readDynamicTables(reader: BitReader): { literals: Huffman; distances: Huffman } {
+  const hlit = readBits(reader, 5) + 257;
+  const hdist = readBits(reader, 5) + 1;
+  const hclen = readBits(reader, 4) + 4;
+  if (hlit > 286 || hdist > 30) {
+    throw new Error('Invalid deflate data: too many codes');
+  }
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < hclen; i += 1) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = readBits(reader, 3);
+  }
+  const codeLengths = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(hlit + hdist);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengths);
+    if (symbol < 16) {
+      lengths[index] = symbol;
+      index += 1;
+      continue;
+    }
+    let value = 0;
+    let repeat = 0;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new Error('Invalid deflate data: repeat with no previous length');
+      }
+      value = lengths[index - 1];
+      repeat = 3 + readBits(reader, 2);
+    } else if (symbol === 17) {
+      repeat = 3 + readBits(reader, 3);
+    } else {
+      repeat = 11 + readBits(reader, 7);
+    }
+    if (index + repeat > lengths.length) {
+      throw new Error('Invalid deflate data: too many code lengths');
+    }
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+  if (lengths[256] === 0) {
+    throw new Error('Invalid deflate data: missing end-of-block code');
+  }
+  return {
+    literals: buildHuffman(lengths.subarray(0, hlit)),
+    distances: buildHuffman(lengths.subarray(hlit))
+  };
+}
+
+let fixedTables: { literals: Huffman; distances: Huffman } | null = null;
+
+export function inflateRaw(data: Uint8Array, expectedSize = 0): Uint8Array {
+  const reader: BitReader = { data, pos: 0, bitBuffer: 0, bitCount: 0 };
+  const output: OutputBuffer = { bytes: new Uint8Array(Math.max(expectedSize, 1024)), length: 0 };
+  let isFinal = 0;
+  while (!isFinal) {
+    isFinal = readBits(reader, 1);
+    const type = readBits(reader, 2);
+    if (type === 0) {
+      inflateStored(reader, output);
+    } else if (type === 1) {
+      const tables =
+        fixedTables ??
+        (fixedTables = { literals: buildHuffman(FIXED_LITERAL_LENGTHS), distances: buildHuffman(FIXED_DISTANCE_LENGTHS) });
+      inflateCodes(reader, output, tables.literals, tables.distances);
+    } else if (type === 2) {
+      const tables = readDynamicTables(reader);
+      inflateCodes(reader, output, tables.literals, tables.distances);
+    } else {
+      throw new Error('Invalid deflate data: reserved block type');
+    }
+  }
+  return output.bytes.slice(0, output.length);
+}
@@ -7,6 +7,25 @@ export function escapeXml(value: string): string {
     .replace(/'/g, '&apos;');
 }
 
+const BASIC_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0'
+};
+
+export function decodeXmlEntities(value: string): string {
+  return String(value).replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return BASIC_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
 export function slugify(value: string): string {
   const cleaned = String(value)
     .toLowerCase()
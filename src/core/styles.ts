@@ -0,0 +1,172 @@
+import type { CssLintWarning, StylePresetId } from './types.js';
+
+const BASE_LAYOUT = `.byline {
+  font-style: italic;
+  margin-top: 0;
+}
+
+.article-meta,
+.article-tags {
+  font-size: 0.85em;
+  margin: 0.2em 0;
+}
+
+.source {
+  margin-top: 2em;
+  font-size: 0.9em;
+}
+
+.lead-image {
+  margin: 1em 0;
+  text-align: center;
+}
+
+img {
+  max-width: 100%;
+  height: auto;
+}
+
+figure {
+  margin: 1em 0;
+  text-align: center;
+  page-break-inside: avoid;
+}
+
+figcaption {
+  font-size: 0.85em;
+  font-style: italic;
+  margin-top: 0.3em;
+}
+
+.link-notes {
+  font-size: 0.9em;
+}
+
+.link-notes li {
+  word-wrap: break-word;
+}
+
+.missing-image {
+  font-size: 0.9em;
+  font-style: italic;
+  word-wrap: break-word;
+}`;
+
+export const STYLE_PRESETS: Record<StylePresetId, { label: string; css: string }> = {
+  classic: {
+    label: 'Classic serif',
+    // Shares BASE_LAYOUT with the other presets and only adds its fonts and muted colours on top.
+    css: `body {\n  font-family: "Georgia", "Times New Roman", serif;\n  line-height: 1.6;\n  margin: 5%;\n  color: #1f1f1f;\n}\n\narticle h1 {\n  font-size: 1.6em;\n  margin-bottom: 0.4em;\n}\n\npre, code {\n  font-family: "Courier New", monospace;\n  font-size: 0.9em;\n}\n\n${BASE_LAYOUT}\n\n.byline {\n  color: #666;\n}\n\n.article-meta,\n.article-tags,\n.source,\nfigcaption {\n  color: #555;\n}`
+  },
+  'kindle-minimal': {
+    label: 'Kindle minimal',
+    // Leaves font, size and spacing to the reader's own device settings.
+    css: `article h1 {\n  font-size: 1.4em;\n  margin-bottom: 0.4em;\n}\n\n${BASE_LAYOUT}`
+  },
+  'sans-large': {
+    label: 'Sans large',
+    css: `body {\n  font-family: "Helvetica Neue", Helvetica, Arial, sans-serif;\n  font-size: 1.2em;\n  line-height: 1.7;\n}\n\narticle h1 {\n  font-size: 1.5em;\n  margin-bottom: 0.4em;\n}\n\np {\n  margin: 0 0 0.9em 0;\n}\n\n${BASE_LAYOUT}`
+  },
+  technical: {
+    label: 'Code-heavy technical',
+    css: `body {\n  font-family: "Georgia", serif;\n  line-height: 1.5;\n}\n\narticle h1 {\n  font-size: 1.5em;\n  margin-bottom: 0.4em;\n}\n\npre {\n  font-family: "Courier New", monospace;\n  font-size: 0.8em;\n  line-height: 1.3;\n  white-space: pre-wrap;\n  border-left: 3px solid #999;\n  padding-left: 0.6em;\n  margin: 1em 0;\n}\n\ncode {\n  font-family: "Courier New", monospace;\n  font-size: 0.9em;\n}\n\ntable {\n  border-collapse: collapse;\n}\n\nth, td {\n  border: 1px solid #999;\n  padding: 0.2em 0.4em;\n}\n\n${BASE_LAYOUT}`
+  },
+  'high-contrast': {
+    label: 'High contrast',
+    css: `body {\n  font-family: "Verdana", sans-serif;\n  line-height: 1.7;\n}\n\narticle h1 {\n  font-size: 1.6em;\n  font-weight: bold;\n  margin-bottom: 0.4em;\n}\n\na {\n  text-decoration: underline;\n}\n\nblockquote {\n  border-left: 4px solid #000;\n  padding-left: 0.8em;\n  margin-left: 0;\n}\n\n${BASE_LAYOUT}`
+  }
+};
+
+export const DEFAULT_STYLE_PRESET: StylePresetId = 'classic';
+
+export function isStylePresetId(value: unknown): value is StylePresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STYLE_PRESETS, value);
+}
+
+export function buildStylesheet(preset?: string | null, customCss?: string | null): string {
+  const base = STYLE_PRESETS[isStylePresetId(preset) ? preset : DEFAULT_STYLE_PRESET].css;
+  const custom = (customCss || '').trim();
+  return custom ? `${base}\n\n/* Custom CSS */\n${custom}\n` : base;
+}
+
+// Kindle's renderers drop or misplace these, or they fight the reader's own settings.
+const IGNORED_PROPERTIES: Record<string, string> = {
+  animation: 'animations are not supported',
+  transition: 'transitions are not supported',
+  transform: 'transforms are ignored by older Kindle renderers',
+  filter: 'filters are not supported',
+  'box-shadow': 'shadows are not rendered',
+  'text-shadow': 'shadows are not rendered',
+  'column-count': 'multi-column layout is ignored',
+  columns: 'multi-column layout is ignored',
+  'backdrop-filter': 'filters are not supported',
+  'mix-blend-mode': 'blend modes are not supported'
+};
+
+const BODY_OVERRIDES = new Set(['color', 'background', 'background-color']);
+const READER_CONTROLLED = new Set(['font-size', 'line-height', 'font-family', 'margin', 'text-align']);
+
+function blankComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+}
+
+function lineAt(css: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i += 1) {
+    if (css.charCodeAt(i) === 10) line += 1;
+  }
+  return line;
+}
+
+export function lintKindleCss(css: string): CssLintWarning[] {
+  const source = blankComments(css || '');
+  const warnings: CssLintWarning[] = [];
+  const warn = (index: number, property: string | null, message: string) => {
+    warnings.push({ line: lineAt(source, index), property, message });
+  };
+
+  for (const match of source.matchAll(/@import\b[^;]*;?/g)) {
+    warn(match.index ?? 0, null, '@import is not followed; inline the rules instead');
+  }
+
+  for (const rule of source.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+    // Statements such as @import end with ";" and are not part of the selector.
+    const selector = (rule[1].split(';').pop() || '').replace(/\s+/g, ' ').trim().toLowerCase();
+    const isBody = /(^|,)\s*(html|body)\s*(,|$)/.test(selector);
+    const blockStart = (rule.index ?? 0) + rule[1].length + 1;
+
+    for (const declaration of rule[2].matchAll(/([-a-zA-Z]+)\s*:\s*([^;]+)/g)) {
+      const property = declaration[1].toLowerCase();
+      const value = declaration[2].trim().toLowerCase();
+      const at = blockStart + (declaration.index ?? 0);
+
+      if (IGNORED_PROPERTIES[property]) {
+        warn(at, property, `${property}: ${IGNORED_PROPERTIES[property]}`);
+      } else if (property === 'position' && /\b(fixed|absolute|sticky)\b/.test(value)) {
+        warn(at, property, `position: ${value} is ignored or breaks pagination`);
+      } else if (property === 'display' && /\b(flex|inline-flex|grid|inline-grid)\b/.test(value)) {
+        warn(at, property, `display: ${value} is not supported; content falls back to block layout`);
+      } else if (property === 'float' && value !== 'none') {
+        warn(at, property, 'float is unreliable on Kindle; text may wrap unpredictably');
+      }
+
+      if (/\b\d*\.?\d+(vh|vw|vmin|vmax)\b/.test(value)) {
+        warn(at, property, `viewport units in ${property} are not supported`);
+      }
+      if (/url\(\s*['"]?(https?:)?\/\//.test(value)) {
+        warn(at, property, `remote url() in ${property} is never loaded`);
+      }
+      if (/^font-size$/.test(property) && /\b\d*\.?\d+px\b/.test(value)) {
+        warn(at, property, 'font-size in px does not scale with the reader\'s font size; use em or %');
+      }
+      if (isBody && BODY_OVERRIDES.has(property)) {
+        warn(at, property, `${property} on body breaks dark and sepia reading modes`);
+      }
+      if (/!important/.test(value) && READER_CONTROLLED.has(property)) {
+        warn(at, property, `${property} !important overrides the reader's own settings`);
+      }
+    }
+  }
+
+  return warnings.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,178 @@
+// DOM-free SVG sanitizer for images embedded from arbitrary sites. SVG is case-sensitive XML,
+// so this scans tags itself instead of going through the HTML tokenizer.
+import { checkXml } from './epub-validator.js';
+
+// Removed together with everything inside them: active content, embedded HTML and animations
+// that can rewrite attributes (e.g. <set attributeName="href" to="javascript:...">).
+const DROPPED_ELEMENTS = new Set([
+  'script',
+  'foreignobject',
+  'iframe',
+  'object',
+  'embed',
+  'audio',
+  'video',
+  'canvas',
+  'handler',
+  'listener',
+  'set',
+  'animate',
+  'animatemotion',
+  'animatetransform',
+  'animatecolor'
+]);
+
+const MARKUP_RE =
+  /<!--[\s\S]*?-->|<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_RE = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const URL_REF_RE = /url\(\s*(['"]?)([^'")]*)\1\s*\)/gi;
+const SAFE_DATA_IMAGE_RE = /^data:image\/(png|jpeg|gif|webp);/i;
+const DOCTYPE_RE = /<!DOCTYPE(?:[^[>]|\[([\s\S]*?)\])*>/i;
+const ENTITY_DECLARATION_RE = /<!ENTITY\s+([A-Za-z_][\w.-]*)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+const ENTITY_REF_RE = /&([A-Za-z_][\w.-]*);/g;
+const PREDEFINED_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+const MAX_ENTITY_EXPANSION = 1_000_000;
+
+function isLocalReference(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.startsWith('#') || SAFE_DATA_IMAGE_RE.test(trimmed);
+}
+
+// url(...) references in styles may only point inside the document.
+function stripExternalUrls(css: string): string {
+  return css
+    .replace(/@import\b[^;]*;?/gi, '')
+    .replace(URL_REF_RE, (match, _quote: string, target: string) => (isLocalReference(target) ? match : 'none'));
+}
+
+// The doctype is dropped below, so entities it declares (Illustrator's xmlns="&ns_svg;") are
+// expanded first, in one pass so nested entities cannot multiply. Anything left undefined, or an
+// expansion that grows without bound, makes the file unusable.
+function expandInternalEntities(svg: string): string {
+  const doctype = svg.match(DOCTYPE_RE);
+  const entities = new Map<string, string>();
+  for (const match of (doctype?.[1] || '').matchAll(ENTITY_DECLARATION_RE)) {
+    if (!entities.has(match[1])) entities.set(match[1], match[2] ?? match[3] ?? '');
+  }
+  const start = doctype ? (doctype.index ?? 0) + doctype[0].length : 0;
+  let grown = 0;
+  const body = svg.slice(start).replace(ENTITY_REF_RE, (reference, name: string) => {
+    if (PREDEFINED_ENTITIES.has(name)) return reference;
+    const value = entities.get(name);
+    if (value === undefined) {
+      throw new Error(`SVG uses an entity it does not define (&${name};)`);
+    }
+    if (value.includes('&')) {
+      throw new Error(`SVG entity &${name}; refers to other entities`);
+    }
+    grown += value.length;
+    if (grown > MAX_ENTITY_EXPANSION) {
+      throw new Error('SVG entity expansion is too large');
+    }
+    return value;
+  });
+  return svg.slice(0, start) + body;
+}
+
+function cleanAttributes(raw: string): string {
+  let output = '';
+  for (const match of raw.matchAll(ATTRIBUTE_RE)) {
+    const name = match[1];
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    const lower = name.toLowerCase();
+    if (lower.startsWith('on')) {
+      continue;
+    }
+    if ((lower === 'href' || lower.endsWith(':href') || lower === 'src') && !isLocalReference(value)) {
+      continue;
+    }
+    const cleaned = lower === 'style' || /url\(/i.test(value) ? stripExternalUrls(value) : value;
+    output += ` ${name}="${cleaned.replace(/"/g, '&quot;')}"`;
+  }
+  return output;
+}
+
+// Throws for SVG that is not well-formed once sanitized (markup the scanner cannot read is copied
+// through as text, so a broken tag would otherwise reach the book).
+export function sanitizeSvg(input: string): string {
+  const svg = expandInternalEntities(input);
+  let output = '';
+  let last = 0;
+  let skipping: { name: string; depth: number } | null = null;
+  let inStyle = false;
+
+  for (const match of svg.matchAll(MARKUP_RE)) {
+    const [markup, cdata, closing, rawName, rawAttrs, selfClosing] = match;
+    const index = match.index ?? 0;
+    if (!skipping) {
+      const text = svg.slice(last, index);
+      output += inStyle ? stripExternalUrls(text) : text;
+    }
+    last = index + markup.length;
+
+    if (!rawName) {
+      // Comments, doctypes (with any entity declarations) and processing instructions are dropped.
+      if (cdata !== undefined && !skipping) {
+        output += `<![CDATA[${inStyle ? stripExternalUrls(cdata) : cdata}]]>`;
+      }
+      continue;
+    }
+
+    // Any prefix can be bound to the SVG namespace, so elements are matched on their local name.
+    const name = rawName.toLowerCase().replace(/^[^:]*:/, '');
+    if (skipping) {
+      if (name === skipping.name && !selfClosing) {
+        skipping.depth += closing ? -1 : 1;
+        if (skipping.depth === 0) skipping = null;
+      }
+      continue;
+    }
+    if (DROPPED_ELEMENTS.has(name)) {
+      if (!closing && !selfClosing) skipping = { name, depth: 1 };
+      continue;
+    }
+    if (name === 'style') {
+      inStyle = !closing && !selfClosing;
+    }
+    output += closing ? `</${rawName}>` : `<${rawName}${cleanAttributes(rawAttrs || '')}${selfClosing ? '/' : ''}>`;
+  }
+
+  if (!skipping) {
+    output += svg.slice(last);
+  }
+  const sanitized = output.trim();
+  const [problem] = checkXml(sanitized);
+  if (problem) {
+    throw new Error(`SVG is not well-formed: ${problem}`);
+  }
+  return sanitized;
+}
+
+function parseLength(value: string | undefined): number | null {
+  const match = (value || '').trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Intrinsic size from the root element's width/height, falling back to its viewBox.
+export function readSvgSize(svg: string): { width: number; height: number } | null {
+  const root = svg.match(/<(?:svg:)?svg\b([^>]*)>/i);
+  if (!root) {
+    return null;
+  }
+  const attrs = new Map<string, string>();
+  for (const match of root[1].matchAll(ATTRIBUTE_RE)) {
+    attrs.set(match[1], match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  const width = parseLength(attrs.get('width'));
+  const height = parseLength(attrs.get('height'));
+  if (width && height) {
+    return { width, height };
+  }
+  const viewBox = (attrs.get('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    if (width) return { width, height: Math.round((width * viewBox[3]) / viewBox[2]) };
+    if (height) return { width: Math.round((height * viewBox[2]) / viewBox[3]), height };
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  return null;
+}
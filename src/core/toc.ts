@@ -0,0 +1,85 @@
+import { decodeXmlEntities } from './strings.js';
+import type { ArticleHeading } from './types.js';
+
+export interface TocNode {
+  label: string;
+  href: string;
+  children: TocNode[];
+}
+
+export interface TocSource {
+  title: string;
+  href: string;
+  headings: ArticleHeading[];
+}
+
+export const DEFAULT_TOC_DEPTH = 3;
+
+const HEADING_RE = /<(h[23])\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi;
+const ID_ATTR_RE = /\sid\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+function headingText(innerHtml: string): string {
+  return decodeXmlEntities(innerHtml.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+export function extractHeadings(content: string, articleIndex: number): { content: string; headings: ArticleHeading[] } {
+  const headings: ArticleHeading[] = [];
+  const usedIds = new Set<string>();
+  let counter = 0;
+
+  const updated = content.replace(HEADING_RE, (match, tag: string, attrs: string, inner: string) => {
+    const label = headingText(inner);
+    if (!label) {
+      return match;
+    }
+    const level = Number(tag.slice(1));
+    const existing = attrs.match(ID_ATTR_RE);
+    const existingId = existing ? (existing[1] ?? existing[2] ?? '').trim() : '';
+    if (existingId && !usedIds.has(existingId)) {
+      usedIds.add(existingId);
+      headings.push({ id: existingId, level, label });
+      return match;
+    }
+    let id = '';
+    do {
+      counter += 1;
+      id = `toc-${articleIndex + 1}-${counter}`;
+    } while (usedIds.has(id));
+    usedIds.add(id);
+    headings.push({ id, level, label });
+    const cleanedAttrs = existing ? attrs.replace(ID_ATTR_RE, '') : attrs;
+    return `<${tag} id="${id}"${cleanedAttrs}>${inner}</${tag}>`;
+  });
+
+  return { content: updated, headings };
+}
+
+export function buildTocTree(sources: TocSource[], maxDepth: number = DEFAULT_TOC_DEPTH): TocNode[] {
+  const depth = Math.max(1, Math.floor(maxDepth));
+  return sources.map((source, index) => {
+    const href = source.href;
+    const root: TocNode = { label: source.title || `Article ${index + 1}`, href, children: [] };
+    // Article titles sit at depth 1, so h2 maps to depth 2 and h3 to depth 3.
+    const stack: Array<{ level: number; node: TocNode }> = [{ level: 1, node: root }];
+    for (const heading of source.headings || []) {
+      if (heading.level > depth) {
+        continue;
+      }
+      while (stack.length > 1 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      const node: TocNode = { label: heading.label, href: `${href}#${heading.id}`, children: [] };
+      stack[stack.length - 1].node.children.push(node);
+      stack.push({ level: heading.level, node });
+    }
+    return root;
+  });
+}
+
+export function tocTreeDepth(nodes: TocNode[]): number {
+  let max = 0;
+  for (const node of nodes) {
+    max = Math.max(max, 1 + tocTreeDepth(node.children));
+  }
+  return max;
+}
@@ -1,4 +1,4 @@
-export interface ArticleInput {
+export interface ArticleInput extends Partial<ArticleMetadata> {
   title?: string;
   byline?: string | null;
   content?: string;
@@ -8,9 +8,44 @@ export interface ArticleInput {
   lang?: string;
 }
 
+// Read from JSON-LD, OpenGraph, Twitter card and citation_* tags. Dates are ISO 8601.
+export interface ArticleMetadata {
+  publishedTime: string | null;
+  modifiedTime: string | null;
+  authors: string[];
+  section: string | null;
+  tags: string[];
+  canonicalUrl: string | null;
+  leadImage: string | null;
+}
+
+// What the content script collects for readArticleMetadata: raw JSON-LD blocks and meta tags.
+export interface MetadataSources {
+  jsonLd: string[];
+  meta: Array<{ name: string; content: string }>;
+  canonical: string | null;
+}
+
+export interface ArticleHeading {
+  id: string;
+  level: number;
+  label: string;
+}
+
 export interface NormalizedArticle extends ArticleInput {
   title: string;
   content: string;
+  headings: ArticleHeading[];
+}
+
+export interface BookMetadata {
+  creators: string[];
+  publisher: string | null;
+  source: string | null;
+  description: string | null;
+  subjects: string[];
+  // Publication date of a single-article book; collections use the build date.
+  date: string | null;
 }
 
 export interface EpubAsset {
@@ -20,6 +55,13 @@ export interface EpubAsset {
   data: Uint8Array;
 }
 
+export interface EpubCover {
+  data: Uint8Array;
+  mediaType: string;
+  // Drawn by generateCover (possibly rasterized), so appending may redraw it.
+  generated?: boolean;
+}
+
 export interface BuildEpubOptions {
   title?: string;
   language?: string;
@@ -27,9 +69,101 @@ export interface BuildEpubOptions {
   modified?: Date;
   filename?: string;
   assets?: EpubAsset[];
+  cover?: EpubCover | false;
+  tocDepth?: number;
+  compressionLevel?: number;
+  stylesheet?: string;
+  linkNotes?: LinkNotesMode;
+  series?: EpubSeries;
 }
 
+export type AppendEpubOptions = Pick<BuildEpubOptions, 'modified' | 'filename' | 'assets' | 'tocDepth' | 'compressionLevel' | 'linkNotes'> & {
+  // Replaces a generated cover; see appendedCover.
+  cover?: EpubCover;
+};
+
 export interface BuildEpubResult {
   bytes: Uint8Array;
   filename: string;
 }
+
+export interface EpubMetadata {
+  identifier: string | null;
+  title: string | null;
+  language: string | null;
+  creators: string[];
+  publisher: string | null;
+  description: string | null;
+  source: string | null;
+  date: string | null;
+  subjects: string[];
+  modified: string | null;
+  coverId: string | null;
+  series: EpubSeries | null;
+}
+
+export interface EpubManifestItem {
+  id: string;
+  href: string;
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+export interface EpubSpineItem {
+  idref: string;
+  linear: boolean;
+}
+
+export interface EpubChapter {
+  id: string;
+  href: string;
+  path: string;
+  title: string | null;
+  xhtml: string;
+}
+
+export interface ParsedEpub {
+  opfPath: string;
+  version: string | null;
+  metadata: EpubMetadata;
+  manifest: EpubManifestItem[];
+  spine: EpubSpineItem[];
+  tocId: string | null;
+  chapters: EpubChapter[];
+  files: Map<string, Uint8Array>;
+}
+
+export interface EpubValidationIssue {
+  path: string | null;
+  message: string;
+}
+
+export interface EpubValidationResult {
+  valid: boolean;
+  errors: EpubValidationIssue[];
+}
+
+export type StylePresetId = 'classic' | 'kindle-minimal' | 'sans-large' | 'technical' | 'high-contrast';
+
+export interface CssLintWarning {
+  line: number;
+  property: string | null;
+  message: string;
+}
+
+// 'chapter' lists a chapter's external links at its end; 'book' collects them on one page at the back.
+export type LinkNotesMode = 'off' | 'chapter' | 'book';
+
+export interface LinkNote {
+  number: number;
+  url: string;
+  label: string;
+}
+
+// One volume of a multi-part book; volumes share the series identifier and title.
+export interface EpubSeries {
+  identifier: string;
+  title: string;
+  position: number;
+}
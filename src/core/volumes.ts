@@ -0,0 +1,43 @@
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+export interface VolumeLimits {
+  maxChapters?: number;
+  maxBytes?: number;
+}
+
+// Groups consecutive chapters into volumes without reordering them. A chapter larger
+// than maxBytes on its own still gets a volume of its own rather than being dropped.
+export function planVolumes(sizes: number[], limits: VolumeLimits): number[][] {
+  const maxChapters = limits.maxChapters && limits.maxChapters > 0 ? Math.floor(limits.maxChapters) : Infinity;
+  const maxBytes = limits.maxBytes && limits.maxBytes > 0 ? limits.maxBytes : Infinity;
+  const volumes: number[][] = [];
+  let current: number[] = [];
+  let currentBytes = 0;
+
+  sizes.forEach((size, index) => {
+    if (current.length > 0 && (current.length >= maxChapters || currentBytes + size > maxBytes)) {
+      volumes.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(index);
+    currentBytes += size;
+  });
+  if (current.length > 0) {
+    volumes.push(current);
+  }
+  return volumes;
+}
+
+export function volumeTitle(title: string, position: number, count: number): string {
+  return count > 1 ? `${title} (Part ${position} of ${count})` : title;
+}
+
+// The popup edits the byte limit in MB; two decimals round-trip any value typed there.
+export function megabytesToBytes(megabytes: number): number {
+  return Math.round(megabytes * BYTES_PER_MEGABYTE);
+}
+
+export function bytesToMegabytes(bytes: number): number {
+  return Number((bytes / BYTES_PER_MEGABYTE).toFixed(2));
+}
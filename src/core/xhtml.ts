@@ -0,0 +1,470 @@
+// DOM-free HTML tokenizer and XHTML serializer for article content.
+import { HTML_ENTITIES } from './html-entities.js';
+import { decodeXmlEntities } from './strings.js';
+
+export type HtmlToken =
+  | { type: 'text'; value: string }
+  | { type: 'start'; name: string; attrs: Array<[string, string]>; selfClosing: boolean }
+  | { type: 'end'; name: string };
+
+// Elements whose content is kept verbatim by HTML parsers; the tokenizer does the same.
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript']);
+
+// Removed together with everything inside them.
+const DROPPED_ELEMENTS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'form',
+  'input',
+  'button',
+  'select',
+  'textarea',
+  'video',
+  'audio',
+  'canvas',
+  'svg',
+  'math',
+  'object',
+  'embed',
+  'noscript',
+  'template',
+  'head',
+  'title',
+  'dialog',
+  'frameset',
+  'noembed',
+  'noframes',
+  'xmp'
+]);
+
+// Kept as-is. Anything not listed here or above is unwrapped so its children survive.
+const ALLOWED_ELEMENTS = new Set([
+  'a',
+  'abbr',
+  'address',
+  'article',
+  'aside',
+  'b',
+  'bdi',
+  'bdo',
+  'blockquote',
+  'br',
+  'caption',
+  'cite',
+  'code',
+  'col',
+  'colgroup',
+  'dd',
+  'del',
+  'details',
+  'dfn',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'li',
+  'main',
+  'mark',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'q',
+  'rp',
+  'rt',
+  'ruby',
+  's',
+  'samp',
+  'section',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'time',
+  'tr',
+  'u',
+  'ul',
+  'var',
+  'wbr'
+]);
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr'
+]);
+
+// Block-level start tags that implicitly close an open <p>, as in the HTML parsing algorithm.
+const CLOSES_PARAGRAPH = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'div',
+  'dl',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul'
+]);
+
+// Start tags that close an open sibling of the listed kinds, stopping at the given container.
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ['li'], scope: ['ul', 'ol'] },
+  dt: { closes: ['dt', 'dd'], scope: ['dl'] },
+  dd: { closes: ['dt', 'dd'], scope: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], scope: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] }
+};
+
+const PARAGRAPH_SCOPE = new Set(['td', 'th', 'li', 'dd', 'dt', 'blockquote', 'figure', 'table', 'caption']);
+
+const BOOLEAN_ATTRIBUTES = new Set(['hidden', 'ismap', 'open', 'reversed']);
+
+// Windows-1252 code points that HTML parsers substitute for numeric references in the C1 range.
+const C1_REPLACEMENTS: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+  0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+  0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178
+};
+
+const XML_PREDEFINED = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+const REFERENCE_OR_SPECIAL_RE =
+  /&(?:#([0-9]+);?|#[xX]([0-9a-fA-F]+);?|([A-Za-z][A-Za-z0-9]*);)|[&<>"]|[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+const XML_NAME_RE = /^[A-Za-z_][-A-Za-z0-9_.]*$/;
+const TAG_NAME_RE = /[^\s/>]+/y;
+const END_TAG_RE = /<\/([^\s/>]+)/y;
+const ATTRIBUTE_NAME_RE = /[^\s/>=]+|=/y;
+const UNQUOTED_VALUE_RE = /[^\s>]*/y;
+
+function matchAt(re: RegExp, source: string, pos: number): string {
+  re.lastIndex = pos;
+  const match = re.exec(source);
+  return match ? match[match.length - 1] : '';
+}
+
+function isXmlCodePoint(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function numericReference(code: number): string {
+  const mapped = C1_REPLACEMENTS[code] ?? code;
+  if (mapped === 0 || mapped > 0x10ffff || (mapped >= 0xd800 && mapped <= 0xdfff)) {
+    return '&#65533;';
+  }
+  return isXmlCodePoint(mapped) ? `&#${mapped};` : '';
+}
+
+// Rewrites raw HTML text as XML character data: named references become numeric ones, stray
+// markup characters are escaped and characters XML cannot represent are dropped.
+export function toXmlText(raw: string, escapeQuotes = false): string {
+  return raw.replace(REFERENCE_OR_SPECIAL_RE, (match, decimal?: string, hex?: string, name?: string) => {
+    if (decimal !== undefined) {
+      return numericReference(Number.parseInt(decimal, 10));
+    }
+    if (hex !== undefined) {
+      return numericReference(Number.parseInt(hex, 16));
+    }
+    if (name !== undefined) {
+      if (XML_PREDEFINED.has(name)) {
+        return name === 'quot' && !escapeQuotes ? '"' : match;
+      }
+      const code = HTML_ENTITIES[name];
+      return code === undefined ? `&amp;${name};` : `&#${code};`;
+    }
+    switch (match) {
+      case '&':
+        return '&amp;';
+      case '<':
+        return '&lt;';
+      case '>':
+        return '&gt;';
+      case '"':
+        return escapeQuotes ? '&quot;' : '"';
+      default:
+        return '';
+    }
+  });
+}
+
+function escapeRawText(raw: string): string {
+  return toXmlText(raw.replace(/&/g, '&amp;'));
+}
+
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const source = html || '';
+  let pos = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      tokens.push({ type: 'text', value });
+    }
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      pushText(toXmlText(source.slice(pos)));
+      break;
+    }
+    pushText(toXmlText(source.slice(pos, lt)));
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      const end = source.indexOf('-->', pos + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    const next = source.charAt(pos + 1);
+    if (next === '!' || next === '?' || (next === '/' && !/[A-Za-z]/.test(source.charAt(pos + 2)))) {
+      const end = source.indexOf('>', pos + 2);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+    if (next === '/') {
+      const name = matchAt(END_TAG_RE, source, pos);
+      const end = source.indexOf('>', pos);
+      tokens.push({ type: 'end', name: name.toLowerCase() });
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+    if (!/[A-Za-z]/.test(next)) {
+      pushText('&lt;');
+      pos += 1;
+      continue;
+    }
+
+    const tag = readStartTag(source, pos);
+    tokens.push(tag.token);
+    pos = tag.end;
+    if (RAW_TEXT_ELEMENTS.has(tag.token.name) && !tag.token.selfClosing) {
+      const closeRe = new RegExp(`</${tag.token.name}[\\s/>]`, 'gi');
+      closeRe.lastIndex = pos;
+      const close = closeRe.exec(source);
+      const end = close ? close.index : source.length;
+      pushText(escapeRawText(source.slice(pos, end)));
+      pos = end;
+    }
+  }
+  return tokens;
+}
+
+function readStartTag(source: string, start: number): { token: Extract<HtmlToken, { type: 'start' }>; end: number } {
+  let pos = start + 1;
+  const rawName = matchAt(TAG_NAME_RE, source, pos);
+  const name = rawName.toLowerCase();
+  pos += rawName.length;
+  const attrs: Array<[string, string]> = [];
+  let selfClosing = false;
+
+  while (pos < source.length) {
+    const ch = source.charAt(pos);
+    if (ch === '>') {
+      pos += 1;
+      break;
+    }
+    if (/\s/.test(ch)) {
+      pos += 1;
+      continue;
+    }
+    if (ch === '/') {
+      selfClosing = source.charAt(pos + 1) === '>';
+      pos += 1;
+      continue;
+    }
+    const attrName = matchAt(ATTRIBUTE_NAME_RE, source, pos);
+    pos += attrName.length;
+    while (/\s/.test(source.charAt(pos))) pos += 1;
+    let value = '';
+    if (source.charAt(pos) === '=') {
+      pos += 1;
+      while (/\s/.test(source.charAt(pos))) pos += 1;
+      const quote = source.charAt(pos);
+      if (quote === '"' || quote === "'") {
+        const end = source.indexOf(quote, pos + 1);
+        value = source.slice(pos + 1, end === -1 ? source.length : end);
+        pos = end === -1 ? source.length : end + 1;
+      } else {
+        value = matchAt(UNQUOTED_VALUE_RE, source, pos);
+        pos += value.length;
+      }
+    }
+    attrs.push([attrName.toLowerCase(), toXmlText(value, true)]);
+  }
+
+  return { token: { type: 'start', name, attrs, selfClosing }, end: pos };
+}
+
+function cleanAttributes(attrs: Array<[string, string]>, usedIds: Set<string>): string {
+  const seen = new Set<string>();
+  let output = '';
+  for (const [name, value] of attrs) {
+    if (seen.has(name) || !XML_NAME_RE.test(name) || name.startsWith('on') || name === 'xmlns') {
+      continue;
+    }
+    seen.add(name);
+    const decoded = decodeXmlEntities(value).trim().toLowerCase();
+    let cleaned = value === '' && BOOLEAN_ATTRIBUTES.has(name) ? name : value;
+    if (name === 'href' && decoded.startsWith('javascript:')) {
+      cleaned = '#';
+    }
+    if (name === 'src' && decoded.startsWith('javascript:')) {
+      continue;
+    }
+    if (name === 'id') {
+      if (!cleaned || usedIds.has(cleaned)) continue;
+      usedIds.add(cleaned);
+    }
+    output += ` ${name}="${cleaned}"`;
+  }
+  return output;
+}
+
+// Converts an HTML fragment into well-formed XHTML, keeping only allowlisted elements.
+export function sanitizeXhtml(html: string): string {
+  const stack: string[] = [];
+  const usedIds = new Set<string>();
+  let output = '';
+  let skipping: { name: string; depth: number } | null = null;
+
+  const closeTo = (index: number) => {
+    while (stack.length > index) {
+      output += `</${stack.pop()}>`;
+    }
+  };
+  // Outermost open element among `names` that sits inside the nearest `scope` container.
+  const openIndex = (names: string[], scope: Iterable<string>): number => {
+    const scopeSet = new Set(scope);
+    let found = -1;
+    for (let i = stack.length - 1; i >= 0 && !scopeSet.has(stack[i]); i -= 1) {
+      if (names.includes(stack[i])) found = i;
+    }
+    return found;
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    if (skipping) {
+      if (token.type === 'start' && token.name === skipping.name && !token.selfClosing) {
+        skipping.depth += 1;
+      } else if (token.type === 'end' && token.name === skipping.name) {
+        skipping.depth -= 1;
+        if (skipping.depth === 0) skipping = null;
+      }
+      continue;
+    }
+
+    if (token.type === 'text') {
+      output += token.value;
+      continue;
+    }
+
+    if (token.type === 'start') {
+      if (DROPPED_ELEMENTS.has(token.name)) {
+        if (!token.selfClosing && !VOID_ELEMENTS.has(token.name)) {
+          skipping = { name: token.name, depth: 1 };
+        }
+        continue;
+      }
+      if (!ALLOWED_ELEMENTS.has(token.name)) {
+        continue;
+      }
+      if (CLOSES_PARAGRAPH.has(token.name)) {
+        const index = openIndex(['p'], PARAGRAPH_SCOPE);
+        if (index !== -1) closeTo(index);
+      }
+      const implied = IMPLIED_END_TAGS[token.name];
+      if (implied) {
+        const index = openIndex(implied.closes, implied.scope);
+        if (index !== -1) closeTo(index);
+      }
+      const attrs = cleanAttributes(token.attrs, usedIds);
+      if (VOID_ELEMENTS.has(token.name)) {
+        output += `<${token.name}${attrs}/>`;
+      } else if (token.selfClosing) {
+        output += `<${token.name}${attrs}></${token.name}>`;
+      } else {
+        output += `<${token.name}${attrs}>`;
+        stack.push(token.name);
+      }
+      continue;
+    }
+
+    const index = stack.lastIndexOf(token.name);
+    if (index !== -1) {
+      closeTo(index);
+    } else if (token.name === 'br') {
+      output += '<br/>';
+    }
+  }
+
+  closeTo(0);
+  return output;
+}
@@ -1,13 +1,33 @@
+import { DEFAULT_COMPRESSION_LEVEL, deflateRaw } from './deflate.js';
+import { inflateRaw } from './inflate.js';
+
 export interface ZipEntry {
   path: string;
   data: string | Uint8Array | ArrayBuffer;
+  store?: boolean;
 }
 
 export interface CreateZipOptions {
   mtime?: Date;
+  // 0 stores every entry; 1-9 trade speed for size like zlib levels.
+  compressionLevel?: number;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipReadEntry {
+  path: string;
+  data: Uint8Array;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
 }
 
 const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
 
 let crcTable: Uint32Array | null = null;
 
@@ -72,7 +92,21 @@ function concatChunks(chunks: Uint8Array[]): Uint8Array {
   return output;
 }
 
-export function createZip(files: ZipEntry[], { mtime = new Date() }: CreateZipOptions = {}): Uint8Array {
+function compressEntry(data: Uint8Array, level: number, store: boolean): { method: number; payload: Uint8Array } {
+  if (store || level <= 0 || data.length === 0) {
+    return { method: METHOD_STORE, payload: data };
+  }
+  const deflated = deflateRaw(data, level);
+  if (deflated.length >= data.length) {
+    return { method: METHOD_STORE, payload: data };
+  }
+  return { method: METHOD_DEFLATE, payload: deflated };
+}
+
+export function createZip(
+  files: ZipEntry[],
+  { mtime = new Date(), compressionLevel = DEFAULT_COMPRESSION_LEVEL }: CreateZipOptions = {}
+): Uint8Array {
   const chunks: Uint8Array[] = [];
   const centralDirectory: Uint8Array[] = [];
   let offset = 0;
@@ -82,26 +116,27 @@ export function createZip(files: ZipEntry[], { mtime = new Date() }: CreateZipOp
     const data = ensureUint8(file.data);
     const crc = crc32(data);
     const { dosTime, dosDate } = dateToDos(mtime);
+    const { method, payload } = compressEntry(data, compressionLevel, Boolean(file.store));
 
     const header = new Uint8Array(30 + filenameBytes.length);
     const view = new DataView(header.buffer);
     view.setUint32(0, 0x04034b50, true);
     view.setUint16(4, 20, true); // version needed
     view.setUint16(6, 0x0800, true); // UTF-8
-    view.setUint16(8, 0, true); // no compression
+    view.setUint16(8, method, true);
     view.setUint16(10, dosTime, true);
     view.setUint16(12, dosDate, true);
     view.setUint32(14, crc, true);
-    view.setUint32(18, data.length, true);
+    view.setUint32(18, payload.length, true);
     view.setUint32(22, data.length, true);
     view.setUint16(26, filenameBytes.length, true);
     view.setUint16(28, 0, true);
     header.set(filenameBytes, 30);
 
-    chunks.push(header, data);
+    chunks.push(header, payload);
 
     const localHeaderOffset = offset;
-    offset += header.length + data.length;
+    offset += header.length + payload.length;
 
     const central = new Uint8Array(46 + filenameBytes.length);
     const cview = new DataView(central.buffer);
@@ -109,11 +144,11 @@ export function createZip(files: ZipEntry[], { mtime = new Date() }: CreateZipOp
     cview.setUint16(4, 20, true); // version made by
     cview.setUint16(6, 20, true); // version needed
     cview.setUint16(8, 0x0800, true); // UTF-8
-    cview.setUint16(10, 0, true); // no compression
+    cview.setUint16(10, method, true);
     cview.setUint16(12, dosTime, true);
     cview.setUint16(14, dosDate, true);
     cview.setUint32(16, crc, true);
-    cview.setUint32(20, data.length, true);
+    cview.setUint32(20, payload.length, true);
     cview.setUint32(24, data.length, true);
     cview.setUint16(28, filenameBytes.length, true);
     cview.setUint16(30, 0, true);
@@ -147,4 +182,72 @@ export function createZip(files: ZipEntry[], { mtime = new Date() }: CreateZipOp
   return concatChunks(chunks);
 }
 
+function findEndOfCentralDirectory(bytes: Uint8Array, view: DataView): number {
+  const minOffset = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let offset = bytes.length - 22; offset >= minOffset; offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      return offset;
+    }
+  }
+  throw new Error('Not a zip file: end of central directory not found');
+}
+
+export function readZip(input: Uint8Array | ArrayBuffer): ZipReadEntry[] {
+  const bytes = ensureUint8(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(bytes, view);
+  const entryCount = view.getUint16(end + 10, true);
+  const centralOffset = view.getUint32(end + 16, true);
+
+  const entries: ZipReadEntry[] = [];
+  let offset = centralOffset;
+  for (let i = 0; i < entryCount; i += 1) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt zip: bad central directory entry');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${path}`);
+    }
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw new Error(`Corrupt zip: bad local header for ${path}`);
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    if (dataStart + compressedSize > bytes.length) {
+      throw new Error(`Corrupt zip: truncated data for ${path}`);
+    }
+    const payload = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORE) {
+      data = payload.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = inflateRaw(payload, size);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${path}`);
+    }
+    if (data.length !== size) {
+      throw new Error(`Size mismatch for ${path}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`CRC mismatch for ${path}`);
+    }
+    entries.push({ path, data, method, crc32: crc, compressedSize, size, offset: localOffset });
+  }
+  return entries;
+}
+
 export { crc32, encodeString, ensureUint8 };
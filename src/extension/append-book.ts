@@ -0,0 +1,62 @@
+import { appendToEpub, appendedCover } from '../core/epub.js';
+import type { LinkNotesMode } from '../core/types.js';
+import { readFile, writeFile } from './directory-handle.js';
+import { describeMissingImages } from './image-assets.js';
+import { describeFilteredImages } from './image-filter.js';
+import { rasterizeCover } from './image-transcode.js';
+import type { EmbeddedResult, ImageTranscodeOptions, OutputArtifact } from './types.js';
+
+const EPUB_MIME_TYPE = 'application/epub+zip';
+
+export interface AppendBookOptions {
+  now: Date;
+  transcode: ImageTranscodeOptions;
+  linkNotes?: LinkNotesMode;
+}
+
+export interface AppendBookResult {
+  // Everything written to the folder, in the order it should be emailed.
+  artifacts: OutputArtifact[];
+  warning: string | null;
+}
+
+export function describeSeparatePdfs(pdfs: OutputArtifact[]): string | null {
+  if (pdfs.length === 0) {
+    return null;
+  }
+  return `${pdfs.length} PDF tab(s) cannot be added to a book and were saved as separate files: ${pdfs.map((pdf) => pdf.filename).join(', ')}.`;
+}
+
+// Adds the embedded articles to the book in the output folder, redrawing a generated cover as a raster
+// image. PDF tabs cannot become chapters, so they are written next to the book instead.
+export async function appendToBookInFolder(
+  handle: FileSystemDirectoryHandle,
+  filename: string,
+  embedded: EmbeddedResult | null,
+  pdfs: OutputArtifact[],
+  options: AppendBookOptions
+): Promise<AppendBookResult> {
+  const artifacts: OutputArtifact[] = [];
+  if (embedded && embedded.articles.length > 0) {
+    const existing = await readFile(handle, filename);
+    const generatedCover = appendedCover(existing, embedded.articles, options.now);
+    const { bytes } = appendToEpub(existing, embedded.articles, {
+      assets: embedded.assets,
+      filename,
+      linkNotes: options.linkNotes,
+      modified: options.now,
+      cover: generatedCover ? await rasterizeCover(generatedCover, options.transcode) : undefined
+    });
+    artifacts.push({ filename, mimeType: EPUB_MIME_TYPE, bytes });
+  }
+  artifacts.push(...pdfs);
+  for (const artifact of artifacts) {
+    await writeFile(handle, artifact.filename, artifact.bytes);
+  }
+  const warnings = [
+    embedded ? describeMissingImages(embedded.missingImages) : null,
+    embedded ? describeFilteredImages(embedded.filteredImages) : null,
+    describeSeparatePdfs(pdfs)
+  ].filter(Boolean);
+  return { artifacts, warning: warnings.length > 0 ? warnings.join(' ') : null };
+}
@@ -0,0 +1,42 @@
+import { readArticleMetadata } from '../core/article-metadata.js';
+import { nextImageToken } from './article-pages.js';
+import type { ExtractedArticle } from './types.js';
+
+// Readability often keeps wrapper elements around the opening picture.
+const OPENS_WITH_PICTURE_RE = /^\s*(?:<(?:div|section|header|p|a|span)\b[^>]*>\s*)*<(?:figure|picture|img)\b/i;
+
+// Sites serve the same picture with different query strings for size or cropping.
+function samePicture(a: string, b: string): boolean {
+  try {
+    const first = new URL(a);
+    const second = new URL(b);
+    return first.host === second.host && first.pathname === second.pathname;
+  } catch {
+    return a === b;
+  }
+}
+
+// Replaces the raw sources with the parsed metadata, and puts the lead image above the body
+// when the body does not show it already or open with a picture of its own (often the same one
+// from another resize host). A saved selection keeps to what was selected.
+export function applyArticleMetadata<T extends ExtractedArticle>(article: T, { leadImage: addLeadImage = true } = {}): T {
+  const { metadataSources, ...rest } = article;
+  if (!metadataSources) {
+    return article;
+  }
+  const metadata = readArticleMetadata(metadataSources, article.url);
+  const result = { ...rest, ...metadata } as T;
+  const images = article.images || [];
+  const leadImage = metadata.leadImage;
+  if (
+    addLeadImage &&
+    leadImage &&
+    !images.some((image) => samePicture(image.src, leadImage)) &&
+    !OPENS_WITH_PICTURE_RE.test(article.content || '')
+  ) {
+    const token = nextImageToken(images);
+    result.content = `<figure class="lead-image"><img src="${token}" alt=""/></figure>\n${article.content || ''}`;
+    result.images = [{ token, src: leadImage }, ...images];
+  }
+  return result;
+}
@@ -0,0 +1,48 @@
+import type { ExtractedArticle, ImageToken } from './types.js';
+
+// Matches the placeholder src the content script gives each image.
+const IMAGE_TOKEN_RE = /tabstoepub-image:(\d+)(?!\d)/g;
+
+export const MAX_ARTICLE_PAGES = 10;
+
+export function nextImageToken(images: ImageToken[]): string {
+  const used = images.map((image) => Number(image.token.match(/(\d+)$/)?.[1] || 0));
+  return `tabstoepub-image:${Math.max(0, ...used) + 1}`;
+}
+
+// Drops the fragment so "#comments" links do not count as another page.
+export function pageKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+// Every page numbers its images from 1, so tokens are renumbered across the joined chapter.
+export function joinArticlePages<T extends ExtractedArticle>(pages: T[]): T {
+  if (pages.length <= 1) {
+    return pages[0];
+  }
+  let next = 0;
+  const contents: string[] = [];
+  const images: ImageToken[] = [];
+  for (const page of pages) {
+    const renumbered = new Map<string, string>();
+    const content = (page.content || '').replace(IMAGE_TOKEN_RE, (token) => {
+      if (!renumbered.has(token)) {
+        next += 1;
+        renumbered.set(token, `tabstoepub-image:${next}`);
+      }
+      return renumbered.get(token) as string;
+    });
+    contents.push(content);
+    for (const image of page.images || []) {
+      const token = renumbered.get(image.token);
+      if (token) images.push({ ...image, token });
+    }
+  }
+  return { ...pages[0], content: contents.join('\n'), images };
+}
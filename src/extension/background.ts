@@ -1,90 +1,50 @@
-import { buildEpub } from '../core/epub.js';
-import { buildFilenameForArticles } from './filename.js';
-import { embedImages } from './image-assets.js';
+import { DEFAULT_STYLE_PRESET, buildStylesheet, isStylePresetId, lintKindleCss } from '../core/styles.js';
+import { LINK_NOTES_MODES } from '../core/endnotes.js';
+import { megabytesToBytes } from '../core/volumes.js';
+import { describeMissingImages, embedImages } from './image-assets.js';
+import { buildEpubVolumes } from './epub-volumes.js';
+import { DEFAULT_MIN_IMAGE_SIZE, MAX_MIN_IMAGE_SIZE, describeFilteredImages } from './image-filter.js';
+import { DEFAULT_MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, MIN_IMAGE_DIMENSION } from './image-transcode.js';
 import {
+  DEFAULT_MAX_TOTAL_ATTACHMENT_BYTES,
   isKindleEmailValid,
   normalizeKindleEmail,
   requireKindleEmail
 } from './kindle-email.js';
 import { clearHandle, loadHandle, writeFile } from './directory-handle.js';
-import { applyTooLargeEmailPrefix, emailArtifactsToKindleCollectTooLarge } from './email-artifacts.js';
-import { discoverPdfSourcesFromTabDom } from './pdf-dom-discovery.js';
-import { buildPdfFilename, detectPdfTab, ensureUniqueFilename } from './pdf.js';
-import { mapWithConcurrency } from './async-limit.js';
-import { parseContentType } from './http.js';
+import { getSettings, imageTranscodeOptions, setSettings } from './settings.js';
+import { normalizeExtractionRule, normalizeExtractionRules, pickRulePreviewTab } from './extraction-rules.js';
+import { emailValidArtifactsToKindle } from './email-artifacts.js';
+import { appendToBookInFolder } from './append-book.js';
+import { buildPdfArtifacts, splitTabsByPdf } from './pdf-artifacts.js';
+import { ensureUniqueFilename } from './pdf.js';
+import { validateFilenameTemplate } from './filename.js';
 import { selectTabsByIds as selectTabsByIdsFromList } from './tab-selection.js';
+import { extractArticles, fetchImageInTab } from './tab-extraction.js';
 import type {
-  ExtractMessage,
-  ExtractResponse,
-  ExtractedArticleWithTab,
-  Settings,
+  BuiltEpub,
+  ExtractionRule,
+  FilteredImage,
+  MissingImage,
+  OutputArtifact,
   TestMessage,
   TestResponse,
   TestSaveResponse,
   UiBuildEpubResponse,
   UiMessage,
-  UiResponse
+  UiResponse,
+  UiRulePreviewResponse
 } from './types.js';
 
 const MENU_PARENT = 'tabstoepub-root';
 const MENU_SAVE = 'tabstoepub-save';
 const MENU_SAVE_CLOSE = 'tabstoepub-save-close';
 const MENU_EMAIL_KINDLE = 'tabstoepub-email-kindle';
-const SETTINGS_KEY = 'tabstoepub-settings';
-
-const DEFAULT_SETTINGS: Settings = {
-  testMode: false,
-  kindleEmail: null,
-  useDefaultDownloads: false,
-  emailToKindle: false
-};
+const MENU_SAVE_SELECTION = 'tabstoepub-save-selection';
 
 const pendingDownloads = new Map<number, string>();
 
 const EPUB_MIME_TYPE = 'application/epub+zip';
-const PDF_MIME_TYPE = 'application/pdf';
-const TAB_EXTRACTION_CONCURRENCY = 4;
-const PDF_CLASSIFICATION_CONCURRENCY = 3;
-const PDF_CANDIDATE_VERIFY_CONCURRENCY = 3;
-const PDF_FETCH_CONCURRENCY = 3;
-const PDF_DOM_WRAPPER_MIN_SCORE = 88;
-
-interface OutputArtifact {
-  filename: string;
-  mimeType: string;
-  bytes: Uint8Array;
-}
-
-interface PdfTabCandidate {
-  tab: chrome.tabs.Tab;
-  sourceUrl: string;
-}
-
-function storageGet<T>(key: string): Promise<T | undefined> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get(key, (result) => {
-      resolve(result[key] as T | undefined);
-    });
-  });
-}
-
-function storageSet(value: Record<string, unknown>): Promise<void> {
-  return new Promise((resolve) => {
-    chrome.storage.local.set(value, () => resolve());
-  });
-}
-
-async function getSettings(): Promise<Settings> {
-  const stored = await storageGet<Settings>(SETTINGS_KEY);
-  return { ...DEFAULT_SETTINGS, ...(stored || {}) };
-}
-
-async function setSettings(next: Partial<Settings>): Promise<Settings> {
-  const current = await getSettings();
-  const updated = { ...current, ...next };
-  await storageSet({ [SETTINGS_KEY]: updated });
-  return updated;
-}
 
 function tabsQuery(query: chrome.tabs.QueryInfo): Promise<chrome.tabs.Tab[]> {
   return new Promise((resolve, reject) => {
@@ -99,38 +59,12 @@ function tabsQuery(query: chrome.tabs.QueryInfo): Promise<chrome.tabs.Tab[]> {
   });
 }
 
-function tabsSendMessage(tabId: number, message: ExtractMessage): Promise<ExtractResponse> {
-  return new Promise((resolve, reject) => {
-    chrome.tabs.sendMessage(tabId, message, (response) => {
-      const err = chrome.runtime.lastError;
-      if (err) {
-        reject(err);
-        return;
-      }
-      resolve(response as ExtractResponse);
-    });
-  });
-}
-
 function tabsRemove(tabIds: number[]): Promise<void> {
   return new Promise((resolve) => {
     chrome.tabs.remove(tabIds, () => resolve());
   });
 }
 
-function executeScript(tabId: number, files: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    chrome.scripting.executeScript({ target: { tabId }, files }, () => {
-      const err = chrome.runtime.lastError;
-      if (err) {
-        reject(err);
-        return;
-      }
-      resolve();
-    });
-  });
-}
-
 function downloadsDownload(options: chrome.downloads.DownloadOptions): Promise<number> {
   return new Promise((resolve, reject) => {
     chrome.downloads.download(options, (downloadId) => {
@@ -184,198 +118,6 @@ async function selectTabsByIds(tabIds: number[]): Promise<chrome.tabs.Tab[]> {
   return selectTabsByIdsFromList(await tabsQuery({ currentWindow: true }), requested);
 }
 
-async function ensureContentScript(tabId: number): Promise<void> {
-  await executeScript(tabId, [
-    'extension/vendor/readability.js',
-    'extension/extract-heuristics.js',
-    'extension/extractor-readability.js',
-    'extension/content-extract.js'
-  ]);
-}
-
-async function extractFromTab(tab: chrome.tabs.Tab): Promise<ExtractedArticleWithTab> {
-  if (typeof tab.id !== 'number') {
-    throw new Error('Missing tab.');
-  }
-  if (tab.url && (tab.url.startsWith('chrome') || tab.url.startsWith('chrome-extension'))) {
-    throw new Error(`Cannot access ${tab.url}`);
-  }
-  await ensureContentScript(tab.id);
-  const response = await tabsSendMessage(tab.id, { type: 'EXTRACT' });
-  if (!response || response.ok === false) {
-    const errorMessage = response && 'error' in response && response.error ? response.error : 'Extraction failed';
-    throw new Error(errorMessage);
-  }
-  return {
-    ...response.article,
-    tabId: tab.id,
-    tabTitle: tab.title || response.article.title || 'Untitled'
-  };
-}
-
-async function extractArticles(
-  tabs: chrome.tabs.Tab[]
-): Promise<{ articles: ExtractedArticleWithTab[]; failures: Array<{ tab: chrome.tabs.Tab; error: string }> }> {
-  const results = await mapWithConcurrency(tabs, TAB_EXTRACTION_CONCURRENCY, async (tab) => {
-    try {
-      return { tab, article: await extractFromTab(tab), error: null as string | null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      return { tab, article: null as ExtractedArticleWithTab | null, error: errorMessage };
-    }
-  });
-
-  const articles: ExtractedArticleWithTab[] = [];
-  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
-  for (const result of results) {
-    if (result.article) {
-      articles.push(result.article);
-      continue;
-    }
-    if (result.error) {
-      failures.push({ tab: result.tab, error: result.error });
-    }
-  }
-
-  return { articles, failures };
-}
-
-function hasPdfMagicBytes(bytes: Uint8Array): boolean {
-  return bytes.length >= 5 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46 && bytes[4] === 0x2d;
-}
-
-async function fetchPdfBytes(url: string): Promise<Uint8Array> {
-  const response = await fetch(url, { credentials: 'include' });
-  if (!response.ok) {
-    throw new Error(`PDF fetch failed (${response.status})`);
-  }
-  const contentType = parseContentType(response.headers.get('content-type'));
-  const buffer = new Uint8Array(await response.arrayBuffer());
-  if (contentType && contentType !== PDF_MIME_TYPE && !hasPdfMagicBytes(buffer)) {
-    throw new Error(`Resource is not a PDF (${contentType})`);
-  }
-  if (!contentType && !hasPdfMagicBytes(buffer)) {
-    throw new Error('Resource is not a PDF');
-  }
-  return buffer;
-}
-
-async function splitTabsByPdf(tabs: chrome.tabs.Tab[]): Promise<{
-  articleTabs: chrome.tabs.Tab[];
-  pdfTabs: PdfTabCandidate[];
-  failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
-}> {
-  const resolvePdfSourceFromDomCandidates = async (tab: chrome.tabs.Tab): Promise<string | null> => {
-    const domCandidates = await discoverPdfSourcesFromTabDom(tab);
-    const limited = domCandidates
-      .filter((candidate) => candidate.score >= PDF_DOM_WRAPPER_MIN_SCORE)
-      .map((candidate) => candidate.url)
-      .slice(0, 6);
-    if (limited.length === 0) {
-      return null;
-    }
-
-    const checked = await mapWithConcurrency(limited, PDF_CANDIDATE_VERIFY_CONCURRENCY, async (candidateUrl) => {
-      const candidateDetection = await detectPdfTab(
-        { url: candidateUrl },
-        fetch,
-        { verifyUrlPath: true }
-      );
-      return candidateDetection.isPdf && candidateDetection.sourceUrl ? candidateDetection.sourceUrl : null;
-    });
-    return checked.find((sourceUrl): sourceUrl is string => Boolean(sourceUrl)) ?? null;
-  };
-
-  const classifications = await mapWithConcurrency(tabs, PDF_CLASSIFICATION_CONCURRENCY, async (tab) => {
-    try {
-      const detection = await detectPdfTab({
-        url: tab.url,
-        pendingUrl: tab.pendingUrl,
-        title: tab.title
-      });
-      if (detection.isPdf) {
-        if (!detection.sourceUrl) {
-          return { kind: 'failure' as const, tab, error: 'PDF tab has no downloadable source URL' };
-        }
-        return { kind: 'pdf' as const, tab, sourceUrl: detection.sourceUrl };
-      }
-
-      const resolvedPdfSource = await resolvePdfSourceFromDomCandidates(tab);
-      if (resolvedPdfSource) {
-        return { kind: 'pdf' as const, tab, sourceUrl: resolvedPdfSource };
-      }
-      return { kind: 'article' as const, tab };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      return { kind: 'failure' as const, tab, error: errorMessage };
-    }
-  });
-
-  const articleTabs: chrome.tabs.Tab[] = [];
-  const pdfTabs: PdfTabCandidate[] = [];
-  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
-  for (const result of classifications) {
-    if (result.kind === 'pdf') {
-      pdfTabs.push({ tab: result.tab, sourceUrl: result.sourceUrl });
-      continue;
-    }
-    if (result.kind === 'article') {
-      articleTabs.push(result.tab);
-      continue;
-    }
-    failures.push({ tab: result.tab, error: result.error });
-  }
-
-  return { articleTabs, pdfTabs, failures };
-}
-
-async function buildPdfArtifacts(
-  pdfTabs: PdfTabCandidate[],
-  now: Date,
-  usedFilenames: Set<string>
-): Promise<{
-  artifacts: OutputArtifact[];
-  failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
-}> {
-  const fetched = await mapWithConcurrency(pdfTabs, PDF_FETCH_CONCURRENCY, async (candidate) => {
-    try {
-      const bytes = await fetchPdfBytes(candidate.sourceUrl);
-      return { candidate, bytes, error: null as string | null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      return { candidate, bytes: null as Uint8Array | null, error: errorMessage };
-    }
-  });
-
-  const artifacts: OutputArtifact[] = [];
-  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
-  for (const result of fetched) {
-    if (!result.bytes) {
-      if (result.error) {
-        failures.push({ tab: result.candidate.tab, error: result.error });
-      }
-      continue;
-    }
-    const baseFilename = buildPdfFilename(
-      {
-        title: result.candidate.tab.title,
-        url: result.candidate.tab.url,
-        pendingUrl: result.candidate.tab.pendingUrl
-      },
-      result.candidate.sourceUrl,
-      now
-    );
-    const filename = ensureUniqueFilename(baseFilename, usedFilenames);
-    artifacts.push({
-      filename,
-      mimeType: PDF_MIME_TYPE,
-      bytes: result.bytes
-    });
-  }
-
-  return { artifacts, failures };
-}
-
 async function downloadArtifact(artifact: OutputArtifact): Promise<number> {
   // Try writing directly via stored directory handle
   try {
@@ -430,41 +172,50 @@ chrome.downloads.onChanged.addListener((delta: chrome.downloads.DownloadDelta) =
   }
 });
 
-type BuildTabsResult =
-  | {
-      bytes: Uint8Array;
-      filename: string;
-      failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
-      articleCount: number;
-      assetsCount: number;
-    }
-  | {
-      bytes: null;
-      filename: null;
-      failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
-      articleCount: 0;
-      assetsCount: 0;
-    };
-
-async function buildEpubFromTabs(tabs: chrome.tabs.Tab[], now: Date = new Date()): Promise<BuildTabsResult> {
-  const { articles, failures } = await extractArticles(tabs);
+interface BuildTabsResult {
+  books: BuiltEpub[];
+  failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
+  missingImages: MissingImage[];
+  filteredImages: FilteredImage[];
+  articleCount: number;
+  assetsCount: number;
+}
+
+async function buildEpubFromTabs(
+  tabs: chrome.tabs.Tab[],
+  now: Date = new Date(),
+  maxBytes?: number,
+  selection = false
+): Promise<BuildTabsResult> {
+  const settings = await getSettings();
+  const transcode = imageTranscodeOptions(settings);
+  const { articles, failures } = await extractArticles(tabs, {
+    targetWidth: transcode.maxDimension,
+    rules: settings.extractionRules,
+    selection
+  });
   if (articles.length === 0) {
-    return { bytes: null, filename: null, failures, articleCount: 0, assetsCount: 0 };
+    return { books: [], failures, missingImages: [], filteredImages: [], articleCount: 0, assetsCount: 0 };
   }
-  const embedded = await embedImages(articles);
-  const title = articles.length === 1 ? articles[0].title : undefined;
-  const outputFilename = buildFilenameForArticles(embedded.articles, now);
-  const { bytes, filename } = buildEpub(embedded.articles, {
-    title,
-    assets: embedded.assets,
-    filename: outputFilename
+  const embedded = await embedImages(articles, transcode, settings.minImageSize, fetchImageInTab);
+  const books = await buildEpubVolumes(embedded, {
+    now,
+    build: {
+      stylesheet: buildStylesheet(settings.stylePreset, settings.customCss),
+      linkNotes: settings.linkNotes
+    },
+    volumeLimits: { maxChapters: settings.volumeMaxChapters, maxBytes: settings.volumeMaxBytes },
+    transcode,
+    maxBytes,
+    filenameTemplate: settings.filenameTemplate
   });
   return {
-    bytes,
-    filename,
+    books,
     failures,
+    missingImages: embedded.missingImages,
+    filteredImages: embedded.filteredImages,
     articleCount: embedded.articles.length,
-    assetsCount: embedded.assets.length
+    assetsCount: books.reduce((total, book) => total + book.assetsCount, 0)
   };
 }
 
@@ -473,6 +224,9 @@ interface BuildOutputsResult {
   failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
   articleCount: number;
   assetsCount: number;
+  sizeWarning: string | null;
+  missingImagesWarning: string | null;
+  filteredImagesWarning: string | null;
 }
 
 interface SaveWarningResult {
@@ -480,25 +234,37 @@ interface SaveWarningResult {
   tooLargeForEmail: string[];
 }
 
-async function buildOutputArtifactsFromTabs(tabs: chrome.tabs.Tab[], now: Date = new Date()): Promise<BuildOutputsResult> {
+// With emailToKindle the EPUB is built to fit the Kindle email budget.
+async function buildOutputArtifactsFromTabs(
+  tabs: chrome.tabs.Tab[],
+  { emailToKindle = false, now = new Date(), selection = false }: { emailToKindle?: boolean; now?: Date; selection?: boolean } = {}
+): Promise<BuildOutputsResult> {
   const split = await splitTabsByPdf(tabs);
   const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [...split.failures];
   const artifacts: OutputArtifact[] = [];
   const usedFilenames = new Set<string>();
   let articleCount = 0;
   let assetsCount = 0;
+  let sizeWarning: string | null = null;
+  let missingImagesWarning: string | null = null;
+  let filteredImagesWarning: string | null = null;
 
   if (split.articleTabs.length > 0) {
-    const epubResult = await buildEpubFromTabs(split.articleTabs, now);
+    const maxBytes = emailToKindle ? DEFAULT_MAX_TOTAL_ATTACHMENT_BYTES : undefined;
+    const epubResult = await buildEpubFromTabs(split.articleTabs, now, maxBytes, selection);
     failures.push(...epubResult.failures);
     articleCount = epubResult.articleCount;
     assetsCount = epubResult.assetsCount;
-    if (epubResult.bytes && epubResult.filename) {
-      const epubFilename = ensureUniqueFilename(epubResult.filename, usedFilenames);
+    const sizeWarnings = epubResult.books.map((book) => book.sizeWarning).filter(Boolean);
+    sizeWarning = sizeWarnings.length > 0 ? sizeWarnings.join(' ') : null;
+    missingImagesWarning = describeMissingImages(epubResult.missingImages);
+    filteredImagesWarning = describeFilteredImages(epubResult.filteredImages);
+    // Volumes become separate artifacts, so each one is emailed on its own.
+    for (const book of epubResult.books) {
       artifacts.push({
-        filename: epubFilename,
+        filename: ensureUniqueFilename(book.filename, usedFilenames),
         mimeType: EPUB_MIME_TYPE,
-        bytes: epubResult.bytes
+        bytes: book.bytes
       });
     }
   }
@@ -513,7 +279,10 @@ async function buildOutputArtifactsFromTabs(tabs: chrome.tabs.Tab[], now: Date =
     artifacts,
     failures,
     articleCount,
-    assetsCount
+    assetsCount,
+    sizeWarning,
+    missingImagesWarning,
+    filteredImagesWarning
   };
 }
 
@@ -528,15 +297,7 @@ async function maybeEmailArtifacts(artifacts: OutputArtifact[], emailToKindle: b
     if (settings.testMode) {
       return { warning: null, tooLargeForEmail: [] };
     }
-    const tooLargeOriginal = await emailArtifactsToKindleCollectTooLarge(artifacts, kindleEmail);
-    const tooLargeForEmail = applyTooLargeEmailPrefix(artifacts, tooLargeOriginal);
-    if (tooLargeForEmail.length > 0) {
-      return {
-        warning: 'Some files are too large for Kindle email and were saved with "TOO LARGE FOR EMAIL" prefixes.',
-        tooLargeForEmail
-      };
-    }
-    return { warning: null, tooLargeForEmail: [] };
+    return await emailValidArtifactsToKindle(artifacts, kindleEmail);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.error('Email delivery failed:', message);
@@ -544,16 +305,30 @@ async function maybeEmailArtifacts(artifacts: OutputArtifact[], emailToKindle: b
   }
 }
 
+function withBuildWarnings(result: SaveWarningResult, ...buildWarnings: Array<string | null>): SaveWarningResult {
+  const warnings = [...buildWarnings, result.warning].filter(Boolean);
+  return warnings.length > 0 ? { ...result, warning: warnings.join(' ') } : result;
+}
+
 async function handleSaveTabs(
   tabs: chrome.tabs.Tab[],
-  { closeTabs = false, emailToKindle = false }: { closeTabs?: boolean; emailToKindle?: boolean } = {}
+  {
+    closeTabs = false,
+    emailToKindle = false,
+    selection = false
+  }: { closeTabs?: boolean; emailToKindle?: boolean; selection?: boolean } = {}
 ): Promise<SaveWarningResult> {
-  const result = await buildOutputArtifactsFromTabs(tabs);
+  const result = await buildOutputArtifactsFromTabs(tabs, { emailToKindle, selection });
   if (result.artifacts.length === 0) {
     console.warn('No output files generated', result.failures);
     return { warning: 'No output files generated.', tooLargeForEmail: [] };
   }
-  const emailResult = await maybeEmailArtifacts(result.artifacts, emailToKindle);
+  const emailResult = withBuildWarnings(
+    await maybeEmailArtifacts(result.artifacts, emailToKindle),
+    result.sizeWarning,
+    result.missingImagesWarning,
+    result.filteredImagesWarning
+  );
 
   const saveErrors: string[] = [];
   for (const artifact of result.artifacts) {
@@ -578,6 +353,66 @@ async function handleSaveTabs(
   return emailResult;
 }
 
+// Extracts a matching open tab with just this rule, without building a book.
+async function previewExtractionRule(rule: ExtractionRule): Promise<UiRulePreviewResponse['preview']> {
+  const tab = pickRulePreviewTab(await tabsQuery({}), rule);
+  if (!tab) {
+    throw new Error(`Open a page on ${rule.domain} to test this rule.`);
+  }
+  const settings = await getSettings();
+  const { articles, failures } = await extractArticles([tab], { targetWidth: settings.maxImageDimension, rules: [rule] });
+  const article = articles[0];
+  if (!article) {
+    throw new Error(failures[0]?.error || 'Extraction failed');
+  }
+  // The preview loads images straight from the page instead of embedding them.
+  let html = article.content || '';
+  for (const image of article.images || []) {
+    html = html.replaceAll(`src="${image.token}"`, `src="${image.src.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`);
+  }
+  return { url: tab.url || '', title: article.title || tab.title || 'Untitled', byline: article.byline || null, html };
+}
+
+async function handleAppendTabs(
+  tabs: chrome.tabs.Tab[],
+  filename: string,
+  { closeTabs = false, emailToKindle = false }: { closeTabs?: boolean; emailToKindle?: boolean } = {}
+): Promise<SaveWarningResult> {
+  const handle = await loadHandle();
+  if (!handle || (await handle.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+    throw new Error('Choose an output folder before appending to a book.');
+  }
+  const settings = await getSettings();
+  const transcode = imageTranscodeOptions(settings);
+  const now = new Date();
+  const split = await splitTabsByPdf(tabs);
+  const { articles, failures } = await extractArticles(split.articleTabs, {
+    targetWidth: transcode.maxDimension,
+    rules: settings.extractionRules
+  });
+  const pdfResult = await buildPdfArtifacts(split.pdfTabs, now, new Set([filename]));
+  if (articles.length === 0 && pdfResult.artifacts.length === 0) {
+    console.warn('No articles extracted', [...split.failures, ...failures, ...pdfResult.failures]);
+    return { warning: 'No articles extracted.', tooLargeForEmail: [] };
+  }
+  const embedded = articles.length > 0 ? await embedImages(articles, transcode, settings.minImageSize, fetchImageInTab) : null;
+  // Written before emailing: the email step may rename oversized artifacts.
+  const appended = await appendToBookInFolder(handle, filename, embedded, pdfResult.artifacts, {
+    now,
+    transcode,
+    linkNotes: settings.linkNotes
+  });
+  const emailResult = withBuildWarnings(await maybeEmailArtifacts(appended.artifacts, emailToKindle), appended.warning);
+
+  if (closeTabs) {
+    const ids = tabs.map((tab) => tab.id).filter((id): id is number => typeof id === 'number');
+    if (ids.length > 0) {
+      await tabsRemove(ids);
+    }
+  }
+  return emailResult;
+}
+
 async function registerContextMenus(): Promise<void> {
   const menuContexts: chrome.contextMenus.ContextType[] = ['page', 'action'];
   const settings = await getSettings();
@@ -607,6 +442,11 @@ async function registerContextMenus(): Promise<void> {
       checked: settings.emailToKindle,
       contexts: menuContexts
     });
+    chrome.contextMenus.create({
+      id: MENU_SAVE_SELECTION,
+      title: 'Save selection to EPUB',
+      contexts: ['selection']
+    });
   });
 }
 
@@ -630,6 +470,14 @@ chrome.contextMenus.onClicked.addListener((info, tab) => {
         return;
       }
       const settings = await getSettings();
+      if (info.menuItemId === MENU_SAVE_SELECTION) {
+        // The selection belongs to the clicked tab, whatever else is highlighted.
+        const saveResult = await handleSaveTabs(tab ? [tab] : [], { emailToKindle: settings.emailToKindle, selection: true });
+        if (saveResult.warning) {
+          console.warn(saveResult.warning);
+        }
+        return;
+      }
       const tabs = await getTargetTabs(tab);
       switch (info.menuItemId) {
         case MENU_SAVE:
@@ -682,12 +530,15 @@ async function requireTestMode(): Promise<void> {
   }
 }
 
-function serializeTestResult(result: BuildTabsResult & { bytes: Uint8Array; filename: string }): TestSaveResponse {
+function serializeTestResult(result: BuildTabsResult): TestSaveResponse {
+  const [book] = result.books;
   return {
     ok: true,
-    bytesBase64: base64FromBytes(result.bytes),
-    filename: result.filename,
+    bytesBase64: base64FromBytes(book.bytes),
+    filename: book.filename,
     failures: result.failures,
+    missingImages: result.missingImages,
+    filteredImages: result.filteredImages,
     articleCount: result.articleCount,
     assetsCount: result.assetsCount
   };
@@ -720,7 +571,23 @@ chrome.runtime.onMessage.addListener(
           return { ok: true };
         }
         case 'TEST_RESET_STATE': {
-          await setSettings({ testMode: true, kindleEmail: null, useDefaultDownloads: false, emailToKindle: false });
+          await setSettings({
+            testMode: true,
+            kindleEmail: null,
+            useDefaultDownloads: false,
+            emailToKindle: false,
+            stylePreset: DEFAULT_STYLE_PRESET,
+            customCss: null,
+            linkNotes: 'off',
+            maxImageDimension: DEFAULT_MAX_IMAGE_DIMENSION,
+            grayscaleImages: false,
+            minImageSize: DEFAULT_MIN_IMAGE_SIZE,
+            rasterizeSvg: true,
+            volumeMaxChapters: 0,
+            volumeMaxBytes: 0,
+            extractionRules: [],
+            filenameTemplate: ''
+          });
           return { ok: true };
         }
         case 'TEST_LIST_TABS': {
@@ -739,20 +606,20 @@ chrome.runtime.onMessage.addListener(
         case 'TEST_SAVE_ACTIVE_TAB': {
           await requireTestMode();
           const tabs = await tabsQuery({ active: true, currentWindow: true });
-          const result = await buildEpubFromTabs(tabs);
-          if (!result.bytes || !result.filename) {
+          const result = await buildEpubFromTabs(tabs, new Date(), undefined, Boolean(message.selection));
+          if (result.books.length === 0) {
             return { ok: false, error: 'No articles extracted', failures: result.failures };
           }
-          return serializeTestResult({ ...result, bytes: result.bytes, filename: result.filename });
+          return serializeTestResult(result);
         }
         case 'TEST_SAVE_TAB_IDS': {
           await requireTestMode();
           const selected = await selectTabsByIds(Array.isArray(message.tabIds) ? message.tabIds : []);
           const result = await buildEpubFromTabs(selected);
-          if (!result.bytes || !result.filename) {
+          if (result.books.length === 0) {
             return { ok: false, error: 'No articles extracted', failures: result.failures };
           }
-          return serializeTestResult({ ...result, bytes: result.bytes, filename: result.filename });
+          return serializeTestResult(result);
         }
         default:
           return { ok: false, error: 'Unknown test command' };
@@ -794,6 +661,24 @@ chrome.runtime.onMessage.addListener(
             ? { ok: true, ...(saveResult.warning ? { warning: saveResult.warning } : {}), ...(saveResult.tooLargeForEmail.length > 0 ? { tooLargeForEmail: saveResult.tooLargeForEmail } : {}) }
             : { ok: true };
         }
+        case 'UI_APPEND_EPUB': {
+          const selected = await selectTabsByIds(Array.isArray(message.tabIds) ? message.tabIds : []);
+          if (selected.length === 0) {
+            return { ok: false, error: 'No tabs selected' };
+          }
+          if (!message.filename) {
+            return { ok: false, error: 'No book selected' };
+          }
+          const appendResult = await handleAppendTabs(selected, message.filename, {
+            closeTabs: Boolean(message.closeTabs),
+            emailToKindle: Boolean(message.emailToKindle)
+          });
+          return {
+            ok: true,
+            ...(appendResult.warning ? { warning: appendResult.warning } : {}),
+            ...(appendResult.tooLargeForEmail.length > 0 ? { tooLargeForEmail: appendResult.tooLargeForEmail } : {})
+          };
+        }
         case 'UI_CLEAR_DIRECTORY': {
           await clearHandle();
           await setSettings({ useDefaultDownloads: false });
@@ -812,12 +697,18 @@ chrome.runtime.onMessage.addListener(
           if (selected.length === 0) {
             return { ok: false, error: 'No tabs selected' };
           }
-          const result = await buildOutputArtifactsFromTabs(selected);
+          const emailToKindle = Boolean(message.emailToKindle);
+          const result = await buildOutputArtifactsFromTabs(selected, { emailToKindle });
           if (result.artifacts.length === 0) {
             return { ok: false, error: 'No output files generated' };
           }
 
-          const emailResult = await maybeEmailArtifacts(result.artifacts, Boolean(message.emailToKindle));
+          const emailResult = withBuildWarnings(
+            await maybeEmailArtifacts(result.artifacts, emailToKindle),
+            result.sizeWarning,
+            result.missingImagesWarning,
+            result.filteredImagesWarning
+          );
 
           if (message.closeTabs) {
             const ids = selected.map((tab) => tab.id).filter((id): id is number => typeof id === 'number');
@@ -860,6 +751,68 @@ chrome.runtime.onMessage.addListener(
           await setSettings({ kindleEmail });
           return { ok: true };
         }
+        case 'UI_SET_STYLE': {
+          if (!isStylePresetId(message.preset)) {
+            return { ok: false, error: 'Unknown reading style' };
+          }
+          const customCss = typeof message.customCss === 'string' && message.customCss.trim() ? message.customCss : null;
+          await setSettings({ stylePreset: message.preset, customCss });
+          const lint = lintKindleCss(customCss || '');
+          if (lint.length === 0) {
+            return { ok: true };
+          }
+          const details = lint.map((item) => `line ${item.line}: ${item.message}`).join('; ');
+          return { ok: true, warning: `Saved, but some CSS may not work on Kindle (${details}).` };
+        }
+        case 'UI_SET_LINK_NOTES': {
+          if (!LINK_NOTES_MODES.includes(message.mode)) {
+            return { ok: false, error: 'Unknown link notes mode' };
+          }
+          await setSettings({ linkNotes: message.mode });
+          return { ok: true };
+        }
+        case 'UI_SET_IMAGE_OPTIONS': {
+          const maxDimension = Math.round(Number(message.maxDimension));
+          if (!Number.isFinite(maxDimension) || maxDimension < MIN_IMAGE_DIMENSION || maxDimension > MAX_IMAGE_DIMENSION) {
+            return { ok: false, error: `Max image size must be between ${MIN_IMAGE_DIMENSION} and ${MAX_IMAGE_DIMENSION} pixels` };
+          }
+          const minSize = Math.round(Number(message.minSize));
+          if (!Number.isFinite(minSize) || minSize < 0 || minSize > MAX_MIN_IMAGE_SIZE) {
+            return { ok: false, error: `Min image size must be between 0 and ${MAX_MIN_IMAGE_SIZE} pixels` };
+          }
+          await setSettings({
+            maxImageDimension: maxDimension,
+            grayscaleImages: Boolean(message.grayscale),
+            minImageSize: minSize,
+            rasterizeSvg: Boolean(message.rasterizeSvg)
+          });
+          return { ok: true };
+        }
+        case 'UI_SET_VOLUME_LIMITS': {
+          const maxChapters = Math.floor(Number(message.maxChapters) || 0);
+          const maxMegabytes = Number(message.maxMegabytes) || 0;
+          if (maxChapters < 0 || maxMegabytes < 0) {
+            return { ok: false, error: 'Volume limits cannot be negative' };
+          }
+          await setSettings({ volumeMaxChapters: maxChapters, volumeMaxBytes: megabytesToBytes(maxMegabytes) });
+          return { ok: true };
+        }
+        case 'UI_SET_EXTRACTION_RULES': {
+          await setSettings({ extractionRules: normalizeExtractionRules(message.rules) });
+          return { ok: true };
+        }
+        case 'UI_SET_FILENAME_TEMPLATE': {
+          const template = String(message.template || '').trim();
+          const error = validateFilenameTemplate(template);
+          if (error) {
+            return { ok: false, error };
+          }
+          await setSettings({ filenameTemplate: template });
+          return { ok: true };
+        }
+        case 'UI_PREVIEW_EXTRACTION_RULE': {
+          return { ok: true, preview: await previewExtractionRule(normalizeExtractionRule(message.rule || {})) };
+        }
         case 'UI_GET_SETTINGS': {
           const settings = await getSettings();
           return { ok: true, settings };
@@ -1,6 +1,8 @@
 interface ImageToken {
   token: string;
   src: string;
+  width?: number;
+  height?: number;
 }
 
 interface ExtractedArticle {
@@ -12,14 +14,32 @@ interface ExtractedArticle {
   url?: string;
   lang?: string;
   images?: ImageToken[];
+  metadataSources?: {
+    jsonLd: string[];
+    meta: Array<{ name: string; content: string }>;
+    canonical: string | null;
+  };
 }
 
 interface ExtractMessage {
   type: 'EXTRACT';
+  targetWidth?: number;
+  rule?: TabToEpubExtractionRule | null;
+  page?: { url: string; html: string };
+  selection?: boolean;
 }
 
 type ExtractResponse =
-  | { ok: true; article: ExtractedArticle }
+  | { ok: true; article: ExtractedArticle; nextPageUrl?: string | null }
+  | { ok: false; error: string };
+
+interface FetchImageMessage {
+  type: 'FETCH_IMAGE';
+  url: string;
+}
+
+type FetchImageResponse =
+  | { ok: true; base64: string; contentType: string }
   | { ok: false; error: string };
 
 (() => {
@@ -61,6 +81,29 @@ type ExtractResponse =
     }
   ).TabToEpubBoilerplate;
 
+  type PageLink = { href: string; rel: string; text: string; inPager: boolean };
+  type PaginationHelpers = {
+    findNextPageUrl: (pageUrl: string, links: PageLink[]) => string | null;
+  };
+
+  const pagination = (
+    globalThis as typeof globalThis & {
+      TabToEpubPagination?: PaginationHelpers;
+    }
+  ).TabToEpubPagination as PaginationHelpers;
+
+  type SrcsetCandidate = { url: string; width: number | null; density: number };
+  type SrcsetHelpers = {
+    parseSrcset: (value: string) => SrcsetCandidate[];
+    pickSrcsetCandidate: (candidates: SrcsetCandidate[], targetWidth: number) => string | null;
+  };
+
+  const srcsetHelpers = (
+    globalThis as typeof globalThis & {
+      TabToEpubSrcset?: SrcsetHelpers;
+    }
+  ).TabToEpubSrcset as SrcsetHelpers;
+
   const VOID_ELEMENTS = new Set([
     'area',
     'base',
@@ -197,93 +240,384 @@ type ExtractResponse =
     return doc.body?.innerHTML ?? '';
   }
 
-  function collectImages(html: string): { html: string; images: ImageToken[] } {
+  const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-lazy', 'data-url'];
+  const LAZY_SRCSET_ATTRIBUTES = ['srcset', 'data-srcset', 'data-lazy-srcset'];
+  const PLACEHOLDER_SRC_RE = /(^|[/_.-])(blank|spacer|placeholder|pixel|transparent|lazy|loading|grey|gray)[^/]*\.(gif|png|svg)(\?|$)/i;
+
+  function httpUrl(value: string | null | undefined, baseUrl: string): string | null {
+    if (!value) return null;
+    try {
+      const url = new URL(value, baseUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+    } catch {
+      return null;
+    }
+  }
+
+  function isPlaceholderSrc(node: Element, src: string): boolean {
+    return (
+      !src ||
+      src.startsWith('data:') ||
+      PLACEHOLDER_SRC_RE.test(src) ||
+      node.getAttribute('width') === '1' ||
+      node.getAttribute('height') === '1'
+    );
+  }
+
+  // Lazy loaders park the real image in data-* attributes, srcset or <picture><source>, leaving
+  // src as a tiny placeholder. Picks the best candidate for targetWidth and makes it the src.
+  function resolveImageSource(node: Element, baseUrl: string, targetWidth: number): void {
+    const srcsets: string[] = [];
+    const picture = node.parentElement?.tagName.toLowerCase() === 'picture' ? node.parentElement : null;
+    picture?.querySelectorAll('source').forEach((source) => {
+      LAZY_SRCSET_ATTRIBUTES.forEach((attr) => srcsets.push(source.getAttribute(attr) || ''));
+    });
+    LAZY_SRCSET_ATTRIBUTES.forEach((attr) => srcsets.push(node.getAttribute(attr) || ''));
+
+    const src = (node.getAttribute('src') || '').trim();
+    const lazySrc = LAZY_SRC_ATTRIBUTES.map((attr) => (node.getAttribute(attr) || '').trim()).find(
+      (value) => value && !value.startsWith('data:')
+    );
+    const fromSrcset = srcsetHelpers.pickSrcsetCandidate(srcsets.flatMap(srcsetHelpers.parseSrcset), targetWidth);
+    // A candidate that does not resolve to a web URL loses to a real, non-placeholder src.
+    const ownSrc = isPlaceholderSrc(node, src) ? null : httpUrl(src, baseUrl);
+    const resolved = httpUrl(fromSrcset, baseUrl) || httpUrl(lazySrc, baseUrl) || ownSrc;
+
+    if (resolved && resolved !== ownSrc) {
+      node.setAttribute('src', resolved);
+      node.removeAttribute('width');
+      node.removeAttribute('height');
+    }
+    [...LAZY_SRC_ATTRIBUTES, ...LAZY_SRCSET_ATTRIBUTES, 'sizes'].forEach((attr) => node.removeAttribute(attr));
+    if (picture) {
+      picture.replaceWith(node);
+    }
+  }
+
+  function collectImages(html: string, baseUrl: string, targetWidth: number): { html: string; images: ImageToken[] } {
     const doc = new DOMParser().parseFromString(html, 'text/html');
     const images: ImageToken[] = [];
     let index = 0;
 
-    doc.querySelectorAll('img[src]').forEach((node) => {
+    doc.querySelectorAll('img').forEach((node) => {
+      resolveImageSource(node, baseUrl, targetWidth);
       const src = (node.getAttribute('src') || '').trim();
       if (!src) {
         return;
       }
-      node.removeAttribute('srcset');
       if (src.startsWith('data:') || src.startsWith('blob:') || src.startsWith('chrome:')) {
         return;
       }
       index += 1;
       const token = `tabstoepub-image:${index}`;
-      images.push({ token, src });
+      const width = Number.parseInt(node.getAttribute('width') || '', 10);
+      const height = Number.parseInt(node.getAttribute('height') || '', 10);
+      images.push(width > 0 && height > 0 ? { token, src, width, height } : { token, src });
       node.setAttribute('src', token);
     });
+    doc.querySelectorAll('picture > source').forEach((node) => node.remove());
 
     return { html: serializeXhtml(doc.body), images };
   }
 
-  type ExtractorResult = {
-    title?: string;
-    byline?: string | null;
-    content?: string;
-    excerpt?: string;
-    siteName?: string;
-    length?: number;
-  } | null;
-
-  function runExtractor(doc: Document): ExtractorResult {
-    if (!globalThis.TabToEpubExtractor || typeof globalThis.TabToEpubExtractor.extract !== 'function') {
+  // User selectors are not validated by the background, so a typo skips that selector only.
+  function queryAll(root: ParentNode, selector: string): Element[] {
+    try {
+      return Array.from(root.querySelectorAll(selector));
+    } catch {
+      return [];
+    }
+  }
+
+  function normalizedText(node: Node): string {
+    return (node.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  function queryText(root: ParentNode, selector: string): string {
+    const node = selector ? queryAll(root, selector)[0] : undefined;
+    return node ? normalizedText(node) : '';
+  }
+
+  // Before extraction: drop excluded nodes and, with a content root, hand the extractor only
+  // that root plus any included nodes outside it.
+  function applyRuleBeforeExtraction(doc: Document, rule: TabToEpubExtractionRule): Document {
+    const prepared = doc.cloneNode(true) as Document;
+    rule.excludeSelectors.forEach((selector) => queryAll(prepared, selector).forEach((node) => node.remove()));
+    const root = rule.contentSelector ? queryAll(prepared, rule.contentSelector)[0] : undefined;
+    if (root && prepared.body) {
+      const included = rule.includeSelectors
+        .flatMap((selector) => queryAll(prepared, selector))
+        .filter((node) => !root.contains(node) && !node.contains(root));
+      prepared.body.replaceChildren(root, ...included);
+    }
+    return prepared;
+  }
+
+  // After extraction: remove excluded nodes the extractor kept, restore included nodes it
+  // dropped, and take the title and byline from their selectors.
+  function applyRuleAfterExtraction(
+    article: TabToEpubExtractedArticle,
+    prepared: Document,
+    rule: TabToEpubExtractionRule
+  ): TabToEpubExtractedArticle {
+    const doc = new DOMParser().parseFromString(article.content || '', 'text/html');
+    rule.excludeSelectors.forEach((selector) => queryAll(doc, selector).forEach((node) => node.remove()));
+    const kept = normalizedText(doc.body);
+    rule.includeSelectors
+      .flatMap((selector) => queryAll(prepared, selector))
+      .filter((node) => normalizedText(node) && !kept.includes(normalizedText(node)))
+      .forEach((node) => doc.body.append(doc.importNode(node, true)));
+    return {
+      ...article,
+      title: queryText(prepared, rule.titleSelector) || article.title,
+      byline: queryText(prepared, rule.bylineSelector) || article.byline,
+      content: doc.body.innerHTML
+    };
+  }
+
+  function runExtractor(doc: Document, pageUrl: string): TabToEpubExtractedArticle | null {
+    if (!globalThis.TabToEpubExtractors) {
       return null;
     }
     try {
-      return globalThis.TabToEpubExtractor.extract(doc);
+      return globalThis.TabToEpubExtractors.extract(doc, new URL(pageUrl))?.article ?? null;
     } catch {
       return null;
     }
   }
 
-  function extractArticle(): ExtractedArticle {
-    const article = runExtractor(document);
+  function extractArticle(
+    doc: Document,
+    pageUrl: string,
+    targetWidth: number,
+    rule: TabToEpubExtractionRule | null
+  ): ExtractedArticle {
+    const source = rule ? applyRuleBeforeExtraction(doc, rule) : doc;
+    const extracted = runExtractor(source, pageUrl);
+    const article = extracted && rule ? applyRuleAfterExtraction(extracted, source, rule) : extracted;
 
     if (!article) {
-      const fallbackContent = document.body ? document.body.innerHTML : '';
-      const sanitized = sanitizeContent(fallbackContent, document.baseURI);
-      const collected = collectImages(sanitized);
+      const fallbackContent = source.body ? source.body.innerHTML : '';
+      const sanitized = sanitizeContent(fallbackContent, doc.baseURI);
+      const collected = collectImages(sanitized, doc.baseURI, targetWidth);
       return {
-        title: document.title || 'Untitled',
-        byline: null,
+        title: (rule && queryText(source, rule.titleSelector)) || doc.title || 'Untitled',
+        byline: (rule && queryText(source, rule.bylineSelector)) || null,
         content: collected.html,
         images: collected.images,
         excerpt: '',
-        siteName: location.hostname,
-        url: location.href,
-        lang: document.documentElement.lang || 'en'
+        siteName: new URL(pageUrl).hostname,
+        url: pageUrl,
+        lang: doc.documentElement.lang || 'en',
+        metadataSources: collectMetadataSources(doc)
       };
     }
 
-    const sanitized = sanitizeContent(article.content || '', document.baseURI);
-    const collected = collectImages(sanitized);
+    const sanitized = sanitizeContent(article.content || '', doc.baseURI);
+    const collected = collectImages(sanitized, doc.baseURI, targetWidth);
 
     return {
       ...article,
-      title: article.title || document.title || 'Untitled',
+      title: article.title || doc.title || 'Untitled',
       content: collected.html,
       images: collected.images,
-      url: location.href,
-      lang: document.documentElement.lang || 'en'
+      url: pageUrl,
+      lang: doc.documentElement.lang || 'en',
+      metadataSources: collectMetadataSources(doc)
     };
   }
 
+  const SELECTION_BLOCK_SELECTOR = 'p, div, section, article, h1, h2, h3, h4, h5, h6, ul, ol, li, pre, blockquote, table, figure';
+
+  // A range inside one paragraph clones to bare text, so it gets the paragraph (or <pre>) back.
+  function cloneSelectedRange(range: Range): Node {
+    const fragment = range.cloneContents();
+    const ancestor = range.commonAncestorContainer;
+    const parent = ancestor.nodeType === Node.ELEMENT_NODE ? (ancestor as Element) : ancestor.parentElement;
+    const wrapperTag = parent?.closest('pre') ? 'pre' : fragment.querySelector(SELECTION_BLOCK_SELECTOR) ? null : 'p';
+    if (!wrapperTag) {
+      return fragment;
+    }
+    const wrapper = document.createElement(wrapperTag);
+    wrapper.append(fragment);
+    return wrapper;
+  }
+
+  // Only the highlighted passage goes through sanitizing; the page title and URL name the chapter.
+  function extractSelection(doc: Document, pageUrl: string, targetWidth: number): ExtractedArticle {
+    const selection = doc.getSelection();
+    const container = doc.createElement('div');
+    for (let index = 0; selection && index < selection.rangeCount; index += 1) {
+      container.append(cloneSelectedRange(selection.getRangeAt(index)));
+    }
+    if (!normalizedText(container) && !container.querySelector('img, picture, svg')) {
+      throw new Error('Nothing is selected on this page.');
+    }
+    const collected = collectImages(sanitizeContent(container.innerHTML, doc.baseURI), doc.baseURI, targetWidth);
+    return {
+      title: doc.title || 'Untitled',
+      byline: null,
+      content: collected.html,
+      images: collected.images,
+      excerpt: '',
+      siteName: new URL(pageUrl).hostname,
+      url: pageUrl,
+      lang: doc.documentElement.lang || 'en',
+      metadataSources: collectMetadataSources(doc)
+    };
+  }
+
+  const MAX_METADATA_TAGS = 300;
+  const MAX_JSON_LD_LENGTH = 200_000;
+
+  // Raw material for the background's JSON-LD, OpenGraph, Twitter card and citation_* parsing.
+  function collectMetadataSources(doc: Document): NonNullable<ExtractedArticle['metadataSources']> {
+    const jsonLd = Array.from(doc.querySelectorAll('script[type="application/ld+json" i]'))
+      .map((node) => node.textContent || '')
+      .filter((text) => text.trim() && text.length <= MAX_JSON_LD_LENGTH);
+    const meta = Array.from(doc.querySelectorAll('meta[content]'))
+      .map((node) => ({
+        name: node.getAttribute('property') || node.getAttribute('name') || '',
+        content: node.getAttribute('content') || ''
+      }))
+      .filter((entry) => entry.name && entry.content)
+      .slice(0, MAX_METADATA_TAGS);
+    const canonical = resolveUrl(doc.querySelector('link[rel~="canonical" i][href]')?.getAttribute('href') || null, doc.baseURI);
+    return { jsonLd, meta, canonical: canonical ? canonical.href : null };
+  }
+
+  const PAGINATION_SELECTOR =
+    '.pagination, .pager, .page-numbers, .pages, .paging, nav[aria-label*="pagination" i], [class*="pagination"]';
+  function resolveUrl(href: string | null, baseUrl: string): URL | null {
+    try {
+      return href ? new URL(href, baseUrl) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // rel="next" links first, then every anchor; the pagination script decides which one continues.
+  function collectPageLinks(doc: Document): PageLink[] {
+    const links: PageLink[] = [];
+    const nodes = [
+      ...Array.from(doc.querySelectorAll('link[rel~="next" i][href], a[rel~="next" i][href]')),
+      ...Array.from(doc.querySelectorAll('a[href]'))
+    ];
+    for (const node of nodes) {
+      const url = resolveUrl(node.getAttribute('href'), doc.baseURI);
+      if (!url) continue;
+      links.push({
+        href: url.href,
+        rel: node.getAttribute('rel') || '',
+        text: normalizedText(node) || (node.getAttribute('aria-label') || '').trim(),
+        inPager: Boolean(node.closest(PAGINATION_SELECTOR))
+      });
+    }
+    return links;
+  }
+
+  // Later pages arrive as HTML fetched by the background; a <base> keeps their relative URLs
+  // resolving against the page they came from.
+  function parsePage(page: { url: string; html: string }): Document {
+    const doc = new DOMParser().parseFromString(page.html, 'text/html');
+    if (!doc.querySelector('base[href]')) {
+      const base = doc.createElement('base');
+      base.href = page.url;
+      doc.head.prepend(base);
+    }
+    return doc;
+  }
+
+  function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+      reader.onerror = () => reject(reader.error || new Error('Could not read image'));
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  // Copies an image the page has already decoded. Throws for cross-origin images drawn
+  // without CORS, since the canvas is tainted then.
+  function captureRenderedImage(url: string): Promise<Blob> {
+    const img = Array.from(document.images).find(
+      (node) =>
+        node.complete &&
+        node.naturalWidth > 0 &&
+        [node.currentSrc, node.src, ...LAZY_SRC_ATTRIBUTES.map((attr) => node.getAttribute(attr) || '')].some(
+          (candidate) => candidate && new URL(candidate, document.baseURI).href === url
+        )
+    );
+    if (!img) {
+      return Promise.reject(new Error('Image is not rendered in the page'));
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')?.drawImage(img, 0, 0);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not capture image'))), 'image/png');
+    });
+  }
+
+  // Runs with the page's cookies and Referer, which hotlink protection and paywalls expect.
+  async function fetchImageInPage(url: string): Promise<FetchImageResponse> {
+    let blob: Blob | null = null;
+    try {
+      const response = await fetch(url, { credentials: 'include' });
+      if (response.ok && (response.headers.get('content-type') || '').startsWith('image/')) {
+        blob = await response.blob();
+      }
+    } catch {
+      // Fall through to the rendered image.
+    }
+    try {
+      blob = blob || (await captureRenderedImage(url));
+      return { ok: true, base64: await blobToBase64(blob), contentType: blob.type };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'Image fetch failed' };
+    }
+  }
+
   function isExtractMessage(message: unknown): message is ExtractMessage {
     return Boolean(message) && typeof message === 'object' && (message as ExtractMessage).type === 'EXTRACT';
   }
 
+  function isFetchImageMessage(message: unknown): message is FetchImageMessage {
+    return (
+      Boolean(message) &&
+      typeof message === 'object' &&
+      (message as FetchImageMessage).type === 'FETCH_IMAGE' &&
+      typeof (message as FetchImageMessage).url === 'string'
+    );
+  }
+
   chrome.runtime.onMessage.addListener((message: unknown, _sender, sendResponse) => {
+    if (isFetchImageMessage(message)) {
+      void fetchImageInPage(message.url).then(sendResponse);
+      return true;
+    }
     if (!isExtractMessage(message)) {
       return;
     }
 
     try {
-      const article = extractArticle();
-      const response: ExtractResponse = { ok: true, article };
+      if (message.selection) {
+        const targetWidth = typeof message.targetWidth === 'number' ? message.targetWidth : 0;
+        const response: ExtractResponse = { ok: true, article: extractSelection(document, location.href, targetWidth) };
+        sendResponse(response);
+        return true;
+      }
+      const page = message.page && typeof message.page.html === 'string' ? message.page : null;
+      const doc = page ? parsePage(page) : document;
+      const pageUrl = page ? page.url : location.href;
+      const article = extractArticle(
+        doc,
+        pageUrl,
+        typeof message.targetWidth === 'number' ? message.targetWidth : 0,
+        message.rule && typeof message.rule.domain === 'string' ? message.rule : null
+      );
+      const response: ExtractResponse = { ok: true, article, nextPageUrl: pagination.findNextPageUrl(pageUrl, collectPageLinks(doc)) };
       sendResponse(response);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Extraction failed';
@@ -69,3 +69,19 @@ export async function writeFile(
   await writable.write(bytes as unknown as BufferSource);
   await writable.close();
 }
+
+export async function readFile(handle: FileSystemDirectoryHandle, filename: string): Promise<Uint8Array> {
+  const fileHandle = await handle.getFileHandle(filename);
+  const file = await fileHandle.getFile();
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+export async function listEpubFiles(handle: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of handle.values()) {
+    if (entry.kind === 'file' && entry.name.toLowerCase().endsWith('.epub')) {
+      names.push(entry.name);
+    }
+  }
+  return names.sort((a, b) => a.localeCompare(b));
+}
@@ -1,3 +1,4 @@
+import { validateEpub } from '../core/epub-validator.js';
 import { emailAttachmentsToKindle, splitAttachmentsForKindle } from './kindle-email.js';
 import { ensureUniqueFilename } from './pdf.js';
 
@@ -88,3 +89,42 @@ export function applyTooLargeEmailPrefix(artifacts: EmailArtifact[], tooLargeOri
   artifacts.splice(0, artifacts.length, ...updated);
   return renamed;
 }
+
+// Kindle drops malformed books without telling anyone, so invalid EPUBs are saved but not emailed.
+function filterInvalidEpubs(artifacts: EmailArtifact[]): { sendable: EmailArtifact[]; warning: string | null } {
+  const rejected: string[] = [];
+  const sendable = artifacts.filter((artifact) => {
+    if (artifact.mimeType !== EPUB_MIME_TYPE) {
+      return true;
+    }
+    const result = validateEpub(artifact.bytes);
+    if (!result.valid) {
+      console.warn('EPUB validation failed:', artifact.filename, result.errors);
+      const first = result.errors[0];
+      rejected.push(`${artifact.filename} (${first.path ? `${first.path}: ` : ''}${first.message})`);
+    }
+    return result.valid;
+  });
+  return {
+    sendable,
+    warning: rejected.length > 0 ? `Not emailed because the EPUB failed validation: ${rejected.join('; ')}` : null
+  };
+}
+
+// Emails the valid artifacts and renames the ones Gmail refused in the caller's array, so
+// they are saved under the "TOO LARGE FOR EMAIL" name the warning mentions.
+export async function emailValidArtifactsToKindle(
+  artifacts: EmailArtifact[],
+  kindleEmail: string,
+  sendKindleAttachments: SendKindleAttachmentsFn = emailAttachmentsToKindle
+): Promise<{ warning: string | null; tooLargeForEmail: string[] }> {
+  const { sendable, warning } = filterInvalidEpubs(artifacts);
+  const tooLargeOriginal =
+    sendable.length > 0 ? await emailArtifactsToKindleCollectTooLarge(sendable, kindleEmail, sendKindleAttachments) : [];
+  const tooLargeForEmail = applyTooLargeEmailPrefix(artifacts, tooLargeOriginal);
+  if (tooLargeForEmail.length === 0) {
+    return { warning, tooLargeForEmail };
+  }
+  const tooLargeWarning = 'Some files are too large for Kindle email and were saved with "TOO LARGE FOR EMAIL" prefixes.';
+  return { warning: warning ? `${tooLargeWarning} ${warning}` : tooLargeWarning, tooLargeForEmail };
+}
@@ -0,0 +1,100 @@
+import { generateCover } from '../core/cover.js';
+import { buildEpub, defaultTitle } from '../core/epub.js';
+import { formatTimestamp } from '../core/strings.js';
+import { planVolumes, volumeTitle } from '../core/volumes.js';
+import type { BuildEpubOptions, EpubAsset, EpubCover } from '../core/types.js';
+import type { VolumeLimits } from '../core/volumes.js';
+import { buildFilenameForArticles, buildVolumeFilename } from './filename.js';
+import { rasterizeCover } from './image-transcode.js';
+import { ensureUniqueFilename } from './pdf.js';
+import { buildEpubWithinBudget, describeSizeBudgetReport } from './size-budget.js';
+import type { BuiltEpub, EmbeddedResult, ExtractedArticleWithTab, ImageTranscodeOptions } from './types.js';
+
+export interface EpubVolumeOptions {
+  now: Date;
+  build: Pick<BuildEpubOptions, 'stylesheet' | 'linkNotes'>;
+  volumeLimits: VolumeLimits;
+  transcode: ImageTranscodeOptions;
+  // Email budget per volume; images are reduced to fit it when set.
+  maxBytes?: number;
+  filenameTemplate?: string;
+}
+
+function assetHref(asset: EpubAsset): string {
+  return asset.href || asset.path.replace(/^OEBPS\//, '');
+}
+
+function assetsFor(articles: ExtractedArticleWithTab[], assets: EpubAsset[]): EpubAsset[] {
+  return assets.filter((asset) => articles.some((article) => (article.content || '').includes(`"${assetHref(asset)}"`)));
+}
+
+function estimateArticleBytes(article: ExtractedArticleWithTab, assets: EpubAsset[]): number {
+  return (article.content || '').length + assetsFor([article], assets).reduce((total, asset) => total + asset.data.length, 0);
+}
+
+function coverFor(title: string, articles: ExtractedArticleWithTab[], options: EpubVolumeOptions): Promise<EpubCover> {
+  return rasterizeCover(generateCover(title, articles, options.now), options.transcode);
+}
+
+async function buildOne(
+  articles: ExtractedArticleWithTab[],
+  assets: EpubAsset[],
+  buildOptions: BuildEpubOptions,
+  options: EpubVolumeOptions
+): Promise<BuiltEpub> {
+  if (!options.maxBytes) {
+    const { bytes, filename } = buildEpub(articles, { ...buildOptions, assets });
+    return { bytes, filename, assetsCount: assets.length, sizeWarning: null };
+  }
+  const budgeted = await buildEpubWithinBudget(articles, assets, buildOptions, {
+    maxBytes: options.maxBytes,
+    transcode: options.transcode
+  });
+  return {
+    bytes: budgeted.bytes,
+    filename: budgeted.filename,
+    assetsCount: assets.length - budgeted.report.droppedImages.length,
+    sizeWarning: describeSizeBudgetReport(budgeted.report)
+  };
+}
+
+// Splits the embedded articles into "Part i of N" volumes when they exceed the volume
+// limits; each volume carries only the images it shows and the shared series id.
+export async function buildEpubVolumes(embedded: EmbeddedResult, options: EpubVolumeOptions): Promise<BuiltEpub[]> {
+  const { articles, assets } = embedded;
+  const filename = buildFilenameForArticles(articles, options.now, options.filenameTemplate);
+  const plan = planVolumes(
+    articles.map((article) => estimateArticleBytes(article, assets)),
+    options.volumeLimits
+  );
+
+  if (plan.length <= 1) {
+    const title = defaultTitle(articles, options.now);
+    const cover = await coverFor(title, articles, options);
+    return [await buildOne(articles, assets, { ...options.build, title, filename, cover }, options)];
+  }
+
+  const seriesTitle = `Saved Tabs ${formatTimestamp(options.now)}`;
+  const seriesId = `urn:uuid:${globalThis.crypto.randomUUID()}`;
+  const used = new Set<string>();
+  const volumes: BuiltEpub[] = [];
+  for (const [index, indices] of plan.entries()) {
+    const position = index + 1;
+    const volumeArticles = indices.map((articleIndex) => articles[articleIndex]);
+    const title = volumeTitle(seriesTitle, position, plan.length);
+    const volume = await buildOne(
+      volumeArticles,
+      assetsFor(volumeArticles, assets),
+      {
+        ...options.build,
+        title,
+        cover: await coverFor(title, volumeArticles, options),
+        filename: ensureUniqueFilename(buildVolumeFilename(filename, position, plan.length), used),
+        series: { identifier: seriesId, title: seriesTitle, position }
+      },
+      options
+    );
+    volumes.push(volume);
+  }
+  return volumes;
+}
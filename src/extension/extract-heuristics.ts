@@ -19,6 +19,9 @@
   const BOILERPLATE_TEXT_RE =
     /^(advertisement(\s*skip\s*advertisement)?|skip\s*advertisement|related content|sponsored(\s*content)?|paid post|recommended for you)$/i;
   const IMAGE_LABEL_RE = /^image$/i;
+  const CAPTION_CLASS_RE =
+    /(^|[\s_-])(caption|captiontext|figcaption|wp-caption-text|credit|credits|image-credit|photo-credit|media-caption)([\s_-]|$)/i;
+  const MAX_CAPTION_LENGTH = 400;
 
   function isBoilerplateNode(node: Element): boolean {
     const tag = node.tagName.toLowerCase();
@@ -120,12 +123,84 @@
     return node;
   }
 
+  function isCaptionLike(node: Element | null): node is Element {
+    if (!node || node.querySelector('img, picture')) {
+      return false;
+    }
+    const text = normalizeText(node.textContent || '');
+    if (!text || text.length > MAX_CAPTION_LENGTH) {
+      return false;
+    }
+    const tag = node.tagName.toLowerCase();
+    return tag === 'figcaption' || CAPTION_CLASS_RE.test(node.getAttribute('class') || '') || CAPTION_CLASS_RE.test(node.id || '');
+  }
+
+  function toFigcaption(doc: Document, node: Element): Element {
+    if (node.tagName.toLowerCase() === 'figcaption') {
+      return node;
+    }
+    const caption = doc.createElement('figcaption');
+    while (node.firstChild) {
+      caption.appendChild(node.firstChild);
+    }
+    node.remove();
+    return caption;
+  }
+
+  // The wrapper that holds nothing but the image (a link, paragraph or div around it).
+  function imageBlock(img: Element): Element {
+    let block: Element = img;
+    for (let depth = 0; depth < 3; depth += 1) {
+      const parent: Element | null = block.parentElement;
+      if (!parent || ['body', 'article', 'main', 'section', 'figure'].includes(parent.tagName.toLowerCase())) {
+        break;
+      }
+      if (normalizeText(parent.textContent || '') || parent.querySelectorAll('img').length > 1) {
+        break;
+      }
+      block = parent;
+    }
+    return block;
+  }
+
+  // Keeps images and their captions together: figures get a figcaption from a caption-like
+  // child or sibling, and bare images followed by a caption are wrapped in a new figure.
+  function normalizeFigures(doc: Document): void {
+    doc.querySelectorAll('figure').forEach((figure) => {
+      if (figure.querySelector('figcaption')) return;
+      const inner = Array.from(figure.querySelectorAll('*')).find((node) => isCaptionLike(node));
+      const sibling = figure.nextElementSibling;
+      const source = inner || (isCaptionLike(sibling) ? sibling : null);
+      if (source) {
+        figure.appendChild(toFigcaption(doc, source));
+      }
+    });
+
+    doc.querySelectorAll('img').forEach((img) => {
+      if (img.closest('figure')) return;
+      const block = imageBlock(img);
+      let caption = block.nextElementSibling;
+      // WordPress-style wrappers put the caption next to the image's wrapper.
+      if (!isCaptionLike(caption) && block.parentElement && !block.nextElementSibling && !block.previousElementSibling) {
+        caption = block.parentElement.nextElementSibling;
+      }
+      if (!isCaptionLike(caption)) return;
+      const figure = doc.createElement('figure');
+      block.replaceWith(figure);
+      figure.appendChild(block);
+      figure.appendChild(toFigcaption(doc, caption));
+    });
+  }
+
   function pruneDocument(doc: Document): void {
     const root = doc.body;
     if (!root) return;
+    normalizeFigures(doc);
     const toRemove = new Set<Element>();
     root.querySelectorAll('*').forEach((node) => {
-      if (isBoilerplateNode(node) || isLinkHeavy(node)) {
+      // Captions and credits are kept even when they are short or link to the photographer.
+      const inFigure = Boolean(node.closest('figcaption') || node.closest('figure')?.querySelector('img'));
+      if (!inFigure && (isBoilerplateNode(node) || isLinkHeavy(node))) {
         toRemove.add(node);
         return;
       }
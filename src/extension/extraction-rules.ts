@@ -0,0 +1,99 @@
+import type { ExtractionRule } from './types.js';
+
+export const MAX_EXTRACTION_RULES = 100;
+
+// Accepts "example.com", "*.example.com" or a pasted URL; subdomains always match.
+export function normalizeRuleDomain(input: string): string {
+  let domain = input.trim().toLowerCase();
+  domain = domain.replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/[/?#].*$/, '').replace(/:\d+$/, '');
+  domain = domain.replace(/^\*\./, '').replace(/^www\./, '').replace(/\.$/, '');
+  return domain;
+}
+
+function isValidDomain(domain: string): boolean {
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain) && !domain.startsWith('-');
+}
+
+function selectorList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : [];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+function selector(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function normalizeExtractionRule(raw: Partial<ExtractionRule>): ExtractionRule {
+  const domain = normalizeRuleDomain(typeof raw.domain === 'string' ? raw.domain : '');
+  if (!domain) {
+    throw new Error('Every rule needs a domain');
+  }
+  if (!isValidDomain(domain)) {
+    throw new Error(`"${domain}" is not a valid domain`);
+  }
+  const rule: ExtractionRule = {
+    domain,
+    contentSelector: selector(raw.contentSelector),
+    includeSelectors: selectorList(raw.includeSelectors),
+    excludeSelectors: selectorList(raw.excludeSelectors),
+    titleSelector: selector(raw.titleSelector),
+    bylineSelector: selector(raw.bylineSelector)
+  };
+  const hasSelectors =
+    rule.contentSelector ||
+    rule.titleSelector ||
+    rule.bylineSelector ||
+    rule.includeSelectors.length > 0 ||
+    rule.excludeSelectors.length > 0;
+  if (!hasSelectors) {
+    throw new Error(`The rule for ${domain} has no selectors`);
+  }
+  return rule;
+}
+
+export function normalizeExtractionRules(rules: unknown): ExtractionRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('Rules must be a list');
+  }
+  if (rules.length > MAX_EXTRACTION_RULES) {
+    throw new Error(`At most ${MAX_EXTRACTION_RULES} rules are supported`);
+  }
+  const seen = new Set<string>();
+  return rules.map((raw) => {
+    const rule = normalizeExtractionRule((raw || {}) as Partial<ExtractionRule>);
+    if (seen.has(rule.domain)) {
+      throw new Error(`There is more than one rule for ${rule.domain}`);
+    }
+    seen.add(rule.domain);
+    return rule;
+  });
+}
+
+function hostnameOf(url: string | undefined): string | null {
+  try {
+    return url ? new URL(url).hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+// The most specific domain wins, so a rule for blog.example.com beats one for example.com.
+export function findExtractionRule(rules: ExtractionRule[], url: string | undefined): ExtractionRule | null {
+  const host = hostnameOf(url);
+  if (!host) {
+    return null;
+  }
+  let best: ExtractionRule | null = null;
+  for (const rule of rules) {
+    if ((host === rule.domain || host.endsWith(`.${rule.domain}`)) && (!best || rule.domain.length > best.domain.length)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+// The tab a rule preview runs on: an active tab on the rule's domain, otherwise the first one open.
+export function pickRulePreviewTab(tabs: chrome.tabs.Tab[], rule: ExtractionRule): chrome.tabs.Tab | null {
+  const matching = tabs.filter((tab) => typeof tab.id === 'number' && findExtractionRule([rule], tab.url));
+  return matching.find((tab) => tab.active) || matching[0] || null;
+}
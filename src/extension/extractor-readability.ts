@@ -10,12 +10,9 @@ type ReadabilityArticle = {
 type ReadabilityConstructor = new (doc: Document) => { parse(): ReadabilityArticle };
 
 (function () {
-  if (globalThis.TabToEpubExtractor) {
-    return;
-  }
-
+  const registry = globalThis.TabToEpubExtractors;
   const ReadabilityCtor = (globalThis as { Readability?: ReadabilityConstructor }).Readability;
-  if (!ReadabilityCtor) {
+  if (!registry || !ReadabilityCtor) {
     return;
   }
 
@@ -66,8 +63,10 @@ type ReadabilityConstructor = new (doc: Document) => { parse(): ReadabilityArtic
     return reader.parse();
   }
 
-  globalThis.TabToEpubExtractor = {
+  registry.register({
     id: 'readability',
+    priority: 0,
+    matches: () => true,
     extract: (doc: Document) => extractWithReadability(doc)
-  };
+  });
 })();
@@ -0,0 +1,44 @@
+(() => {
+  if (globalThis.TabToEpubExtractors) {
+    return;
+  }
+
+  const extractors: TabToEpubExtractor[] = [];
+
+  function register(extractor: TabToEpubExtractor): void {
+    // Scripts are injected again for every extraction; keep one entry per id.
+    const existing = extractors.findIndex((entry) => entry.id === extractor.id);
+    if (existing !== -1) {
+      extractors.splice(existing, 1);
+    }
+    extractors.push(extractor);
+    extractors.sort((a, b) => b.priority - a.priority);
+  }
+
+  function hasContent(article: TabToEpubExtractedArticle | null): article is TabToEpubExtractedArticle {
+    return Boolean(article && article.content && article.content.replace(/<[^>]*>/g, '').trim());
+  }
+
+  function extract(doc: Document, url: URL): { extractorId: string; article: TabToEpubExtractedArticle } | null {
+    for (const extractor of extractors) {
+      let matches = false;
+      try {
+        matches = extractor.matches(url, doc);
+      } catch {
+        matches = false;
+      }
+      if (!matches) continue;
+      try {
+        const article = extractor.extract(doc);
+        if (hasContent(article)) {
+          return { extractorId: extractor.id, article };
+        }
+      } catch (err) {
+        console.warn(`Extractor ${extractor.id} failed:`, err instanceof Error ? err.message : String(err));
+      }
+    }
+    return null;
+  }
+
+  globalThis.TabToEpubExtractors = { register, extract };
+})();
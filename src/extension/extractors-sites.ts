@@ -0,0 +1,122 @@
+(function () {
+  const registry = globalThis.TabToEpubExtractors;
+  if (!registry) {
+    return;
+  }
+
+  // Priority above Readability's 0 so a matching adapter gets the first try.
+  const SITE_PRIORITY = 10;
+
+  type SiteRule = {
+    id: string;
+    matches: (url: URL, doc: Document) => boolean;
+    content: string;
+    title?: string;
+    byline?: string;
+    remove?: string[];
+    siteName?: string;
+    prepare?: (root: Element) => void;
+  };
+
+  function text(doc: Document, selector: string | undefined): string {
+    if (!selector) return '';
+    return (doc.querySelector(selector)?.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  function meta(doc: Document, property: string): string {
+    const node = doc.querySelector(`meta[property="${property}"], meta[name="${property}"]`);
+    return (node?.getAttribute('content') || '').trim();
+  }
+
+  function hostMatches(url: URL, domain: string): boolean {
+    return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+  }
+
+  function extractWithRule(rule: SiteRule, doc: Document): TabToEpubExtractedArticle | null {
+    const source = doc.querySelector(rule.content);
+    if (!source) {
+      return null;
+    }
+    const root = source.cloneNode(true) as Element;
+    (rule.remove || []).forEach((selector) => {
+      root.querySelectorAll(selector).forEach((node) => node.remove());
+    });
+    rule.prepare?.(root);
+    const textContent = (root.textContent || '').trim();
+    return {
+      title: text(doc, rule.title) || meta(doc, 'og:title') || doc.title,
+      byline: text(doc, rule.byline) || meta(doc, 'author') || null,
+      content: root.innerHTML,
+      excerpt: meta(doc, 'description') || meta(doc, 'og:description'),
+      siteName: rule.siteName || meta(doc, 'og:site_name'),
+      length: textContent.length
+    };
+  }
+
+  // MathML does not survive sanitizing; keep the TeX source arXiv puts in alttext.
+  function replaceMath(root: Element): void {
+    root.querySelectorAll('math').forEach((math) => {
+      const span = root.ownerDocument.createElement('span');
+      span.className = 'math';
+      span.textContent = math.getAttribute('alttext') || math.textContent || '';
+      math.replaceWith(span);
+    });
+  }
+
+  const SITE_RULES: SiteRule[] = [
+    {
+      id: 'substack',
+      matches: (url, doc) =>
+        hostMatches(url, 'substack.com') || Boolean(doc.querySelector('link[href*="substackcdn.com"], script[src*="substackcdn.com"]')),
+      content: '.available-content .body.markup',
+      title: 'h1.post-title',
+      byline: '.post-header .profile-hover-card-target, .byline-names',
+      remove: ['.subscription-widget-wrap', '.subscribe-widget', '.share-dialog', '.button-wrapper', '.captioned-button-wrap']
+    },
+    {
+      id: 'medium',
+      matches: (url, doc) => hostMatches(url, 'medium.com') || meta(doc, 'al:android:app_name') === 'Medium',
+      content: 'article',
+      title: 'h1[data-testid="storyTitle"], h1',
+      byline: '[data-testid="authorName"]',
+      remove: ['.speechify-ignore', 'button', '[data-testid="headerClapButton"]', '[aria-label="responses"]'],
+      siteName: 'Medium'
+    },
+    {
+      id: 'wikipedia',
+      matches: (url) => hostMatches(url, 'wikipedia.org'),
+      content: '#mw-content-text .mw-parser-output',
+      title: '#firstHeading',
+      remove: ['.mw-editsection', '.navbox', '.vertical-navbox', '.metadata', '.ambox', '#toc', '.toc', '.noprint', '.sidebar', '.mw-empty-elt'],
+      siteName: 'Wikipedia'
+    },
+    {
+      id: 'github-readme',
+      matches: (url, doc) => url.hostname === 'github.com' && Boolean(doc.querySelector('article.markdown-body')),
+      content: 'article.markdown-body',
+      title: '[itemprop="name"] a, strong[itemprop="name"]',
+      byline: '[itemprop="author"] a, a[rel="author"]',
+      remove: ['a.anchor', '.octicon'],
+      siteName: 'GitHub'
+    },
+    {
+      id: 'arxiv',
+      matches: (url) => hostMatches(url, 'arxiv.org') && url.pathname.startsWith('/html/'),
+      content: 'article.ltx_document',
+      title: '.ltx_title_document',
+      byline: '.ltx_authors .ltx_personname',
+      remove: ['.ltx_page_navbar', '.ltx_page_footer'],
+      siteName: 'arXiv',
+      prepare: replaceMath
+    }
+  ];
+
+  SITE_RULES.forEach((rule) => {
+    registry.register({
+      id: rule.id,
+      priority: SITE_PRIORITY,
+      matches: rule.matches,
+      extract: (doc: Document) => extractWithRule(rule, doc)
+    });
+  });
+})();
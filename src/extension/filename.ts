@@ -1,9 +1,11 @@
+import { articleAuthors } from '../core/book-metadata.js';
 import type { ExtractedArticleWithTab } from './types.js';
 import {
   MAX_FILENAME_LENGTH,
   domainLabelFromUrl,
   formatTimestampForFilename,
-  sanitizeFilenameBase
+  sanitizeFilenameBase,
+  truncateToLength
 } from './filename-utils.js';
 
 function buildBaseName(stamp: string, domains: string[], maxLength: number): string {
@@ -29,11 +31,9 @@ function buildBaseName(stamp: string, domains: string[], maxLength: number): str
   return [stamp, ...selected].join(' ');
 }
 
-export function buildFilenameForArticles(articles: ExtractedArticleWithTab[], now: Date = new Date()): string {
-  const stamp = formatTimestampForFilename(now);
+function domainLabels(articles: ExtractedArticleWithTab[]): string[] {
   const domains: string[] = [];
   const seen = new Set<string>();
-
   for (const article of articles) {
     if (!article.url) continue;
     const label = domainLabelFromUrl(article.url);
@@ -41,8 +41,62 @@ export function buildFilenameForArticles(articles: ExtractedArticleWithTab[], no
     seen.add(label);
     domains.push(label);
   }
+  return domains;
+}
+
+// Article fields come from the first article; {domains} covers all of them.
+export const FILENAME_TEMPLATE_FIELDS = ['timestamp', 'date', 'domains', 'title', 'author', 'published', 'site', 'section'];
+export const MAX_FILENAME_TEMPLATE_LENGTH = 200;
+
+export function validateFilenameTemplate(template: string): string | null {
+  if (template.length > MAX_FILENAME_TEMPLATE_LENGTH) {
+    return `The filename template can be at most ${MAX_FILENAME_TEMPLATE_LENGTH} characters`;
+  }
+  const unknown = [...template.matchAll(/\{([^{}]*)\}/g)].map((match) => match[1]).find((name) => !FILENAME_TEMPLATE_FIELDS.includes(name));
+  return unknown === undefined ? null : `Unknown filename field {${unknown}}`;
+}
+
+function fillFilenameTemplate(template: string, articles: ExtractedArticleWithTab[], now: Date): string {
+  const [first] = articles;
+  const stamp = formatTimestampForFilename(now);
+  const values: Record<string, string> = {
+    timestamp: stamp,
+    date: stamp.slice(0, 10),
+    domains: domainLabels(articles).join(' '),
+    title: first?.title || '',
+    author: first ? articleAuthors(first).join(', ') : '',
+    published: (first?.publishedTime || '').slice(0, 10),
+    site: first?.siteName || (first?.url ? domainLabelFromUrl(first.url) || '' : ''),
+    section: first?.section || ''
+  };
+  // Separators left dangling by empty fields ("Title -  - site") are collapsed.
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match)
+    .replace(/\s+/g, ' ')
+    .replace(/([-_,] )+(?=[-_,])/g, '')
+    .replace(/^[\s\-_,]+|[\s\-_,]+$/g, '');
+}
+
+// An empty template keeps the default "<timestamp> <domains>" name.
+export function buildFilenameForArticles(
+  articles: ExtractedArticleWithTab[],
+  now: Date = new Date(),
+  template = ''
+): string {
+  if (template.trim()) {
+    const filled = sanitizeFilenameBase(fillFilenameTemplate(template, articles, now), 'tabs-to-epub');
+    return `${truncateToLength(filled, MAX_FILENAME_LENGTH)}.epub`;
+  }
+  const stamp = formatTimestampForFilename(now);
+  const domains = domainLabels(articles);
 
   const baseName = buildBaseName(stamp, domains, MAX_FILENAME_LENGTH);
   const sanitized = sanitizeFilenameBase(baseName, 'tabs-to-epub');
   return `${sanitized}.epub`;
 }
+
+export function buildVolumeFilename(filename: string, position: number, count: number): string {
+  const suffix = ` part ${position} of ${count}.epub`;
+  const base = filename.replace(/\.epub$/i, '');
+  return `${truncateToLength(base, MAX_FILENAME_LENGTH - suffix.length)}${suffix}`;
+}
@@ -6,6 +6,7 @@ interface FileSystemHandlePermissionDescriptor {
 interface FileSystemDirectoryHandle {
   queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
   requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  values(): AsyncIterableIterator<FileSystemHandle>;
 }
 
 type WellKnownDirectory = 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos';
@@ -1,7 +1,19 @@
+import { escapeXml } from '../core/strings.js';
+import { sanitizeSvg } from '../core/svg.js';
 import type { EpubAsset } from '../core/types.js';
-import type { EmbeddedResult, ExtractedArticleWithTab, ImageToken } from './types.js';
+import type {
+  EmbeddedResult,
+  ExtractedArticleWithTab,
+  FilteredImage,
+  ImageToken,
+  ImageTranscodeOptions,
+  MissingImage,
+  TabImageFetcher
+} from './types.js';
 import { mapWithConcurrency } from './async-limit.js';
 import { parseContentType } from './http.js';
+import { DEFAULT_MIN_IMAGE_SIZE, filterReasonAfterFetch, filterReasonBeforeFetch } from './image-filter.js';
+import { DEFAULT_MAX_IMAGE_DIMENSION, isKindleImageType, transcodeImage } from './image-transcode.js';
 
 const IMAGE_TYPE_TO_EXT: Record<string, string> = {
   'image/jpeg': 'jpg',
@@ -29,6 +41,11 @@ const IMAGE_EXT_TO_TYPE: Record<string, string> = {
 };
 const IMAGE_FETCH_CONCURRENCY = 4;
 
+const DEFAULT_TRANSCODE_OPTIONS: ImageTranscodeOptions = {
+  maxDimension: DEFAULT_MAX_IMAGE_DIMENSION,
+  grayscale: false
+};
+
 function extensionFromUrl(url: string): string {
   try {
     const { pathname } = new URL(url);
@@ -42,22 +59,113 @@ function extensionFromUrl(url: string): string {
   return '';
 }
 
-async function fetchImageBytes(url: string): Promise<{ buffer: Uint8Array; contentType: string }> {
+interface FetchedImage {
+  buffer: Uint8Array;
+  contentType: string;
+  hash: string;
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data.slice().buffer));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function fetchDirect(url: string): Promise<{ buffer: Uint8Array; contentType: string }> {
   const response = await fetch(url, { credentials: 'include' });
   if (!response.ok) {
     throw new Error(`Image fetch failed (${response.status})`);
   }
   const contentType = parseContentType(response.headers.get('content-type'));
-  const buffer = new Uint8Array(await response.arrayBuffer());
-  return { buffer, contentType };
+  // Hotlink protection often answers with a web page instead of an error status.
+  if (contentType === 'text/html') {
+    throw new Error('Image fetch returned a web page');
+  }
+  return { buffer: new Uint8Array(await response.arrayBuffer()), contentType };
+}
+
+// Falls back to loading the image from inside its tab when the service worker is turned away.
+async function fetchImageBytes(
+  url: string,
+  fetchInTab?: () => Promise<{ buffer: Uint8Array; contentType: string }>
+): Promise<FetchedImage> {
+  let fetched: { buffer: Uint8Array; contentType: string };
+  try {
+    fetched = await fetchDirect(url);
+  } catch (err) {
+    if (!fetchInTab) {
+      throw err;
+    }
+    try {
+      fetched = await fetchInTab();
+    } catch (tabErr) {
+      const message = tabErr instanceof Error ? tabErr.message : String(tabErr);
+      console.warn('Image fetch in tab failed:', url, message);
+      throw err;
+    }
+  }
+  return { ...fetched, hash: await sha256Hex(fetched.buffer) };
+}
+
+async function transcodeOrKeep(
+  buffer: Uint8Array,
+  mediaType: string,
+  options: ImageTranscodeOptions
+): Promise<{ buffer: Uint8Array; mediaType: string }> {
+  try {
+    const result = await transcodeImage(buffer, mediaType, options);
+    return { buffer: result.data, mediaType: result.mediaType };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn('Image transcode failed:', mediaType, message);
+    return { buffer, mediaType };
+  }
+}
+
+const IMG_TAG_RE = /<img\b[^>]*>/gi;
+
+const ANCHOR_TAG_RE = /<(\/?)a\b[^>]*>/gi;
+
+function insideAnchor(content: string, offset: number): boolean {
+  let depth = 0;
+  for (const match of content.slice(0, offset).matchAll(ANCHOR_TAG_RE)) {
+    depth = Math.max(0, depth + (match[1] ? -1 : 1));
+  }
+  return depth > 0;
+}
+
+// Stands in for an image that could not be embedded: its alt text plus a link to the original.
+// Inside a link (WordPress links images to their full size) the text stays plain, since links
+// cannot nest.
+function missingImagePlaceholder(imgTag: string, url: string, linked: boolean): string {
+  const alt = imgTag.match(/\salt="([^"]*)"/)?.[1]?.trim() || '';
+  const label = alt ? `[Image unavailable: ${alt}]` : '[Image unavailable]';
+  if (linked || !/^https?:/i.test(url)) {
+    return `<span class="missing-image">${label}</span>`;
+  }
+  const href = escapeXml(url);
+  return `<span class="missing-image">${label} <a href="${href}">${href}</a></span>`;
+}
+
+export function describeMissingImages(missing: MissingImage[]): string | null {
+  if (missing.length === 0) {
+    return null;
+  }
+  const articles = new Set(missing.map((image) => image.articleTitle)).size;
+  return `${missing.length} image(s) in ${articles} article(s) could not be embedded and were replaced with a link.`;
 }
 
-export async function embedImages(articles: ExtractedArticleWithTab[]): Promise<EmbeddedResult> {
+export async function embedImages(
+  articles: ExtractedArticleWithTab[],
+  transcodeOptions: ImageTranscodeOptions = DEFAULT_TRANSCODE_OPTIONS,
+  minImageSize = DEFAULT_MIN_IMAGE_SIZE,
+  fetchInTab?: TabImageFetcher
+): Promise<EmbeddedResult> {
   const assets: EpubAsset[] = [];
   const plannedImages: Array<{
     articleIndex: number;
     token: string;
     sourceUrl: string;
+    filterReason: string | null;
   }> = [];
   for (let articleIndex = 0; articleIndex < articles.length; articleIndex += 1) {
     const article = articles[articleIndex];
@@ -66,35 +174,57 @@ export async function embedImages(articles: ExtractedArticleWithTab[]): Promise<
       plannedImages.push({
         articleIndex,
         token: image.token,
-        sourceUrl: image.src
+        sourceUrl: image.src,
+        filterReason: filterReasonBeforeFetch(image, minImageSize)
       });
     }
   }
 
-  const fetchCache = new Map<string, Promise<{ buffer: Uint8Array; contentType: string }>>();
-  const fetchCachedImageBytes = (url: string): Promise<{ buffer: Uint8Array; contentType: string }> => {
+  const fetchCache = new Map<string, Promise<FetchedImage>>();
+  const fetchCachedImageBytes = (url: string, tabId: number): Promise<FetchedImage> => {
     const existing = fetchCache.get(url);
     if (existing) {
       return existing;
     }
-    const next = fetchImageBytes(url);
+    const next = fetchImageBytes(url, fetchInTab && (() => fetchInTab(tabId, url)));
     fetchCache.set(url, next);
     return next;
   };
 
+  // Identical bytes (the same logo behind different CDN URLs) are decoded and re-encoded once.
+  const transcodeCache = new Map<string, Promise<{ buffer: Uint8Array; mediaType: string }>>();
+  const transcodeCached = (key: string, buffer: Uint8Array, mediaType: string) => {
+    const existing = transcodeCache.get(key);
+    if (existing) {
+      return existing;
+    }
+    const next = transcodeOrKeep(buffer, mediaType, transcodeOptions);
+    transcodeCache.set(key, next);
+    return next;
+  };
+
   const fetched = await mapWithConcurrency(plannedImages, IMAGE_FETCH_CONCURRENCY, async (plannedImage) => {
     const sourceUrl = plannedImage.sourceUrl;
+    const failed = (error: string, filterReason: string | null = null) => ({
+      ...plannedImage,
+      buffer: null as Uint8Array | null,
+      ext: '',
+      mediaType: '',
+      hash: '',
+      error,
+      filterReason
+    });
+    if (plannedImage.filterReason) {
+      return failed('', plannedImage.filterReason);
+    }
     if (!sourceUrl || !/^https?:/i.test(sourceUrl)) {
-      return {
-        ...plannedImage,
-        buffer: null as Uint8Array | null,
-        ext: '',
-        mediaType: ''
-      };
+      return failed('Unsupported image URL');
     }
 
     try {
-      const { buffer, contentType } = await fetchCachedImageBytes(sourceUrl);
+      const fetchedImage = await fetchCachedImageBytes(sourceUrl, articles[plannedImage.articleIndex].tabId);
+      const { contentType, hash } = fetchedImage;
+      let { buffer } = fetchedImage;
       let ext = IMAGE_TYPE_TO_EXT[contentType] || extensionFromUrl(sourceUrl);
       let mediaType = contentType || IMAGE_EXT_TO_TYPE[ext];
 
@@ -106,40 +236,75 @@ export async function embedImages(articles: ExtractedArticleWithTab[]): Promise<
       }
 
       if (ext && mediaType) {
+        const filterReason = filterReasonAfterFetch(buffer, mediaType, minImageSize);
+        if (filterReason) {
+          return failed('', filterReason);
+        }
+        // Scripts, handlers and external references never reach the book, even if rasterizing fails.
+        if (mediaType === 'image/svg+xml') {
+          buffer = new TextEncoder().encode(sanitizeSvg(new TextDecoder().decode(buffer)));
+        }
+        const key = `${hash}:${mediaType}`;
+        const converted = await transcodeCached(key, buffer, mediaType);
+        // Without canvas support WebP and friends cannot be converted, and Kindle would not show them.
+        if (!isKindleImageType(converted.mediaType)) {
+          return failed(`Unsupported image type (${converted.mediaType})`);
+        }
         return {
           ...plannedImage,
-          buffer,
-          ext,
-          mediaType
+          buffer: converted.buffer,
+          ext: converted.mediaType === mediaType ? ext : IMAGE_TYPE_TO_EXT[converted.mediaType],
+          mediaType: converted.mediaType,
+          hash: key,
+          error: '',
+          filterReason: null
         };
       }
+      return failed(`Not an image (${contentType || 'unknown type'})`);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       console.warn('Image fetch failed:', sourceUrl, message);
+      return failed(message);
     }
-
-    return {
-      ...plannedImage,
-      buffer: null as Uint8Array | null,
-      ext: '',
-      mediaType: ''
-    };
   });
 
   const replacementsByArticle = new Map<number, Map<string, string>>();
+  // Tokens whose <img> is replaced: by a placeholder linking to the URL, or removed when null.
+  const fallbackByArticle = new Map<number, Map<string, string | null>>();
+  const missingImages: MissingImage[] = [];
+  const filteredImages: FilteredImage[] = [];
+  const hrefByHash = new Map<string, string>();
   let imageIndex = 0;
   for (const result of fetched) {
-    let replacement = '';
-    if (result.buffer && result.ext && result.mediaType) {
+    if (!result.buffer) {
+      if (!fallbackByArticle.has(result.articleIndex)) {
+        fallbackByArticle.set(result.articleIndex, new Map<string, string | null>());
+      }
+      if (result.filterReason) {
+        fallbackByArticle.get(result.articleIndex)?.set(result.token, null);
+        filteredImages.push({ url: result.sourceUrl, reason: result.filterReason });
+        continue;
+      }
+      fallbackByArticle.get(result.articleIndex)?.set(result.token, result.sourceUrl);
+      missingImages.push({
+        articleTitle: articles[result.articleIndex].title || articles[result.articleIndex].tabTitle,
+        url: result.sourceUrl,
+        reason: result.error
+      });
+      continue;
+    }
+
+    let replacement = hrefByHash.get(result.hash);
+    if (!replacement) {
       imageIndex += 1;
-      const href = `images/image-${imageIndex}.${result.ext}`;
+      replacement = `images/image-${imageIndex}.${result.ext}`;
       assets.push({
-        path: `OEBPS/${href}`,
-        href,
+        path: `OEBPS/${replacement}`,
+        href: replacement,
         mediaType: result.mediaType,
         data: result.buffer
       });
-      replacement = href;
+      hrefByHash.set(result.hash, replacement);
     }
 
     if (!replacementsByArticle.has(result.articleIndex)) {
@@ -152,11 +317,22 @@ export async function embedImages(articles: ExtractedArticleWithTab[]): Promise<
   for (let articleIndex = 0; articleIndex < articles.length; articleIndex += 1) {
     const article = articles[articleIndex];
     let content = article.content ?? '';
+    const fallbacks = fallbackByArticle.get(articleIndex);
+    if (fallbacks) {
+      const original = content;
+      content = content.replace(IMG_TAG_RE, (tag, offset: number) => {
+        const src = tag.match(/\ssrc="([^"]*)"/)?.[1] || '';
+        const url = fallbacks.get(src);
+        if (url === undefined) return tag;
+        return url === null ? '' : missingImagePlaceholder(tag, url, insideAnchor(original, offset));
+      });
+    }
     const replacements = replacementsByArticle.get(articleIndex);
     if (replacements) {
+      // Matched with its quotes so tabstoepub-image:1 does not also rewrite tabstoepub-image:10.
       for (const [token, replacement] of replacements.entries()) {
-        if (token && content.includes(token)) {
-          content = content.replaceAll(token, replacement);
+        if (token && content.includes(`"${token}"`)) {
+          content = content.replaceAll(`"${token}"`, `"${replacement}"`);
         }
       }
     }
@@ -168,5 +344,5 @@ export async function embedImages(articles: ExtractedArticleWithTab[]): Promise<
     });
   }
 
-  return { articles: updatedArticles, assets };
+  return { articles: updatedArticles, assets, missingImages, filteredImages };
 }
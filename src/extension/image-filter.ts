@@ -0,0 +1,147 @@
+import type { FilteredImage, ImageToken } from './types.js';
+
+export const DEFAULT_MIN_IMAGE_SIZE = 48;
+export const MAX_MIN_IMAGE_SIZE = 400;
+// Below this a file with unknown dimensions is a beacon, not a picture.
+const MIN_IMAGE_BYTES = 100;
+
+const TRACKER_HOSTS = [
+  'doubleclick.net',
+  'google-analytics.com',
+  'googleadservices.com',
+  'googlesyndication.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'pixel.wp.com',
+  'stats.wp.com',
+  'bat.bing.com',
+  'analytics.twitter.com',
+  'px.ads.linkedin.com',
+  'ct.pinterest.com',
+  'mathtag.com',
+  'adsrvr.org',
+  'krxd.net',
+  'chartbeat.net',
+  'parsely.com',
+  'mc.yandex.ru',
+  'hotjar.com',
+  'omtrdc.net',
+  'demdex.net'
+];
+const TRACKER_PATH_RE = /\/(__utm|1x1|pixel|beacon|spacer|blank|track|tracking|transparent)\.(gif|png|php)$/i;
+
+export function isTrackerUrl(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase();
+    if (TRACKER_HOSTS.some((domain) => host === domain || host.endsWith(`.${domain}`))) {
+      return true;
+    }
+    if (/(^|\.)facebook\.com$/.test(host) && pathname === '/tr') {
+      return true;
+    }
+    return TRACKER_PATH_RE.test(pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Spacers and beacons are a pixel or two thick; icons are small in both directions.
+// A minSize of 0 turns size filtering off.
+export function isTooSmall(width: number, height: number, minSize: number): boolean {
+  return minSize > 0 && (Math.min(width, height) <= 2 || Math.max(width, height) < minSize);
+}
+
+function readUint16(data: Uint8Array, offset: number, littleEndian = false): number {
+  return littleEndian ? data[offset] | (data[offset + 1] << 8) : (data[offset] << 8) | data[offset + 1];
+}
+
+function readUint24LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) >>> 0) + ((data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]);
+}
+
+function readJpegSize(data: Uint8Array): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but do not.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: readUint16(data, offset + 7), height: readUint16(data, offset + 5) };
+    }
+    offset += 2 + readUint16(data, offset + 2);
+  }
+  return null;
+}
+
+function readWebpSize(data: Uint8Array): { width: number; height: number } | null {
+  const chunk = String.fromCharCode(...data.subarray(12, 16));
+  if (chunk === 'VP8X' && data.length >= 30) {
+    return { width: readUint24LE(data, 24) + 1, height: readUint24LE(data, 27) + 1 };
+  }
+  if (chunk === 'VP8L' && data.length >= 25) {
+    const bits = data[21] | (data[22] << 8) | (data[23] << 16) | (data[24] << 24);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ' && data.length >= 30) {
+    return { width: readUint16(data, 26, true) & 0x3fff, height: readUint16(data, 28, true) & 0x3fff };
+  }
+  return null;
+}
+
+// Reads the pixel size from the file header without decoding the image.
+export function readImageSize(data: Uint8Array, mediaType: string): { width: number; height: number } | null {
+  if (mediaType === 'image/png' && data.length >= 24 && data[0] === 0x89 && data[1] === 0x50) {
+    return { width: readUint32BE(data, 16), height: readUint32BE(data, 20) };
+  }
+  if (mediaType === 'image/gif' && data.length >= 10 && data[0] === 0x47 && data[1] === 0x49) {
+    return { width: readUint16(data, 6, true), height: readUint16(data, 8, true) };
+  }
+  if (mediaType === 'image/jpeg' && data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data);
+  }
+  if (mediaType === 'image/webp' && data.length >= 16 && String.fromCharCode(...data.subarray(8, 12)) === 'WEBP') {
+    return readWebpSize(data);
+  }
+  return null;
+}
+
+// Checks what is known before fetching: the URL and the width/height declared in the page.
+export function filterReasonBeforeFetch(image: ImageToken, minSize: number): string | null {
+  if (isTrackerUrl(image.src)) {
+    return 'tracker';
+  }
+  if (image.width && image.height && isTooSmall(image.width, image.height, minSize)) {
+    return `declared ${image.width}x${image.height}`;
+  }
+  return null;
+}
+
+export function filterReasonAfterFetch(data: Uint8Array, mediaType: string, minSize: number): string | null {
+  if (minSize <= 0) {
+    return null;
+  }
+  const size = readImageSize(data, mediaType);
+  if (size) {
+    return isTooSmall(size.width, size.height, minSize) ? `${size.width}x${size.height}` : null;
+  }
+  return data.length < MIN_IMAGE_BYTES ? `${data.length} bytes` : null;
+}
+
+export function describeFilteredImages(filtered: FilteredImage[]): string | null {
+  if (filtered.length === 0) {
+    return null;
+  }
+  const trackers = filtered.filter((image) => image.reason === 'tracker').length;
+  const parts = [
+    ...(trackers > 0 ? [`${trackers} tracking pixel(s)`] : []),
+    ...(filtered.length > trackers ? [`${filtered.length - trackers} small image(s) or icon(s)`] : [])
+  ];
+  return `Skipped ${parts.join(' and ')}.`;
+}
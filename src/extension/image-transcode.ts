@@ -0,0 +1,164 @@
+import { readSvgSize } from '../core/svg.js';
+import type { EpubCover } from '../core/types.js';
+import type { ImageTranscodeOptions } from './types.js';
+
+export const DEFAULT_MAX_IMAGE_DIMENSION = 1600;
+export const MIN_IMAGE_DIMENSION = 200;
+export const MAX_IMAGE_DIMENSION = 4096;
+const JPEG_QUALITY = 0.85;
+// Used for SVGs that declare neither a size nor a viewBox.
+const DEFAULT_SVG_SIZE = { width: 800, height: 600 };
+
+// Formats Kindle renders natively; anything else is re-encoded.
+const KINDLE_RASTER_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif']);
+
+// What may be packaged: Kindle's raster formats plus sanitized SVG.
+export function isKindleImageType(mediaType: string): boolean {
+  return KINDLE_RASTER_TYPES.has(mediaType) || mediaType === 'image/svg+xml';
+}
+
+export interface TranscodePlan {
+  width: number;
+  height: number;
+  outputType: 'image/jpeg' | 'image/png';
+}
+
+export function scaleToFit(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!maxDimension || maxDimension <= 0 || longest <= maxDimension) {
+    return { width, height };
+  }
+  const scale = maxDimension / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// Returns null when the image can be embedded as-is.
+export function planTranscode(
+  mediaType: string,
+  width: number,
+  height: number,
+  options: ImageTranscodeOptions,
+  hasAlpha = true
+): TranscodePlan | null {
+  const target = scaleToFit(width, height, options.maxDimension);
+  const resized = target.width !== width || target.height !== height;
+  const recompress = options.quality !== undefined;
+  if (KINDLE_RASTER_TYPES.has(mediaType) && !resized && !options.grayscale && !recompress) {
+    return null;
+  }
+  // Opaque images only need PNG when they already were PNG/GIF and no smaller encoding was asked for.
+  let outputType: TranscodePlan['outputType'] = 'image/png';
+  if (mediaType === 'image/jpeg' || ((!KINDLE_RASTER_TYPES.has(mediaType) || recompress) && !hasAlpha)) {
+    outputType = 'image/jpeg';
+  }
+  return { ...target, outputType };
+}
+
+function canTranscode(): boolean {
+  return typeof createImageBitmap === 'function' && typeof OffscreenCanvas === 'function';
+}
+
+function hasTransparency(pixels: Uint8ClampedArray): boolean {
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+}
+
+function toGrayscale(pixels: Uint8ClampedArray): void {
+  for (let i = 0; i < pixels.length; i += 4) {
+    const luma = Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]);
+    pixels[i] = luma;
+    pixels[i + 1] = luma;
+    pixels[i + 2] = luma;
+  }
+}
+
+async function rasterizeSvg(
+  data: Uint8Array,
+  options: ImageTranscodeOptions,
+  outputType: TranscodePlan['outputType'] = 'image/png'
+): Promise<{ data: Uint8Array; mediaType: string }> {
+  const intrinsic = readSvgSize(new TextDecoder().decode(data)) || DEFAULT_SVG_SIZE;
+  const { width, height } = scaleToFit(Math.round(intrinsic.width), Math.round(intrinsic.height), options.maxDimension);
+  const blobPart: BlobPart = data.slice().buffer;
+  const bitmap = await createImageBitmap(new Blob([blobPart], { type: 'image/svg+xml' }), {
+    resizeWidth: width,
+    resizeHeight: height
+  });
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is unavailable');
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    if (options.grayscale) {
+      const image = context.getImageData(0, 0, width, height);
+      toGrayscale(image.data);
+      context.putImageData(image, 0, 0);
+    }
+    const blob = await canvas.convertToBlob({ type: outputType, quality: options.quality ?? JPEG_QUALITY });
+    return { data: new Uint8Array(await blob.arrayBuffer()), mediaType: outputType };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Decodes with createImageBitmap and re-encodes through an OffscreenCanvas (service worker safe).
+// SVG passes through unless rasterizeSvg is set; without canvas support everything does.
+export async function transcodeImage(
+  data: Uint8Array,
+  mediaType: string,
+  options: ImageTranscodeOptions
+): Promise<{ data: Uint8Array; mediaType: string }> {
+  if (!canTranscode()) {
+    return { data, mediaType };
+  }
+  if (mediaType === 'image/svg+xml') {
+    return options.rasterizeSvg ? rasterizeSvg(data, options) : { data, mediaType };
+  }
+
+  const blobPart: BlobPart = data.slice().buffer;
+  const bitmap = await createImageBitmap(new Blob([blobPart], { type: mediaType }));
+  try {
+    const sized = planTranscode(mediaType, bitmap.width, bitmap.height, options);
+    if (!sized) {
+      return { data, mediaType };
+    }
+
+    const canvas = new OffscreenCanvas(sized.width, sized.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is unavailable');
+    }
+    context.drawImage(bitmap, 0, 0, sized.width, sized.height);
+    const image = context.getImageData(0, 0, sized.width, sized.height);
+    const plan = planTranscode(mediaType, bitmap.width, bitmap.height, options, hasTransparency(image.data)) || sized;
+    if (options.grayscale) {
+      toGrayscale(image.data);
+    }
+    context.putImageData(image, 0, 0);
+
+    const blob = await canvas.convertToBlob({ type: plan.outputType, quality: options.quality ?? JPEG_QUALITY });
+    return { data: new Uint8Array(await blob.arrayBuffer()), mediaType: plan.outputType };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Kindle only shows raster covers as library thumbnails, so the generated SVG cover is drawn to an
+// opaque JPEG. Without canvas support, or if drawing fails, the SVG is kept.
+export async function rasterizeCover(cover: EpubCover, options: ImageTranscodeOptions): Promise<EpubCover> {
+  if (!canTranscode() || cover.mediaType !== 'image/svg+xml') {
+    return cover;
+  }
+  try {
+    const raster = await rasterizeSvg(cover.data, options, 'image/jpeg');
+    return { ...raster, generated: cover.generated };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn('Cover rasterize failed:', message);
+    return cover;
+  }
+}
@@ -3,7 +3,7 @@ import { sendGmailMessage } from './email-gmail.js';
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const DEFAULT_MAX_ATTACHMENTS_PER_EMAIL = 25;
 // Keeps batches comfortably below Gmail's 35 MB request-body limit after base64 expansion.
-const DEFAULT_MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+export const DEFAULT_MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
 
 export interface KindleAttachment {
   filename: string;
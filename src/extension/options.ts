@@ -0,0 +1,185 @@
+import type { ExtractionRule, Settings, UiMessage, UiResponse, UiRulePreviewResponse } from './types.js';
+
+const rulesEl = document.getElementById('rules') as HTMLDivElement;
+const ruleTemplate = document.getElementById('rule-template') as HTMLTemplateElement;
+const addBtn = document.getElementById('rule-add') as HTMLButtonElement;
+const saveBtn = document.getElementById('rules-save') as HTMLButtonElement;
+const statusEl = document.getElementById('status');
+const previewEl = document.getElementById('preview') as HTMLElement;
+const previewTitleEl = document.getElementById('preview-title') as HTMLHeadingElement;
+const previewMetaEl = document.getElementById('preview-meta') as HTMLDivElement;
+const previewFrame = document.getElementById('preview-frame') as HTMLIFrameElement;
+const filenameTemplateEl = document.getElementById('filename-template') as HTMLInputElement;
+const filenameSaveBtn = document.getElementById('filename-save') as HTMLButtonElement;
+const filenameStatusEl = document.getElementById('filename-status');
+
+const LIST_FIELDS = new Set(['includeSelectors', 'excludeSelectors']);
+
+function setStatus(message: string, isError = false, target = statusEl): void {
+  if (!target) return;
+  target.textContent = message;
+  target.style.color = isError ? '#b00020' : '#444';
+}
+
+function setBusy(isBusy: boolean): void {
+  document.querySelectorAll('button').forEach((button) => {
+    (button as HTMLButtonElement).disabled = isBusy;
+  });
+}
+
+async function sendMessage(message: UiMessage): Promise<UiResponse> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      const err = chrome.runtime.lastError;
+      if (err) {
+        resolve({ ok: false, error: err.message || 'Message failed' });
+        return;
+      }
+      resolve(response as UiResponse);
+    });
+  });
+}
+
+function isSettingsResponse(response: UiResponse): response is UiResponse & { settings: Settings } {
+  return response.ok && 'settings' in response;
+}
+
+function isPreviewResponse(response: UiResponse): response is UiRulePreviewResponse {
+  return response.ok && 'preview' in response;
+}
+
+function fieldsOf(ruleEl: Element): HTMLInputElement[] {
+  return Array.from(ruleEl.querySelectorAll<HTMLInputElement>('[data-field]'));
+}
+
+function addRuleElement(rule?: ExtractionRule): HTMLElement {
+  const fragment = ruleTemplate.content.cloneNode(true) as DocumentFragment;
+  const ruleEl = fragment.querySelector('.rule') as HTMLElement;
+  if (rule) {
+    for (const field of fieldsOf(ruleEl)) {
+      const value = rule[field.dataset.field as keyof ExtractionRule];
+      field.value = Array.isArray(value) ? value.join('\n') : value || '';
+    }
+  }
+  rulesEl.append(fragment);
+  return ruleEl;
+}
+
+function invalidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Reads a rule back from its form; selectors are checked here since only pages have a DOM.
+function readRule(ruleEl: Element): ExtractionRule {
+  const rule: Record<string, string | string[]> = {};
+  for (const field of fieldsOf(ruleEl)) {
+    const name = field.dataset.field || '';
+    rule[name] = LIST_FIELDS.has(name)
+      ? field.value.split('\n').map((line) => line.trim()).filter(Boolean)
+      : field.value.trim();
+  }
+  const selectors = Object.entries(rule)
+    .filter(([name]) => name !== 'domain')
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .filter(Boolean);
+  const invalid = selectors.find(invalidSelector);
+  if (invalid) {
+    throw new Error(`"${invalid}" is not a valid CSS selector`);
+  }
+  return rule as unknown as ExtractionRule;
+}
+
+function readRules(): ExtractionRule[] {
+  return Array.from(rulesEl.querySelectorAll('.rule')).map(readRule);
+}
+
+async function loadRules(): Promise<void> {
+  const response = await sendMessage({ type: 'UI_GET_SETTINGS' });
+  if (!isSettingsResponse(response)) {
+    setStatus(response.ok ? 'Settings response was malformed' : response.error, true);
+    return;
+  }
+  rulesEl.replaceChildren();
+  response.settings.extractionRules.forEach((rule) => addRuleElement(rule));
+  filenameTemplateEl.value = response.settings.filenameTemplate;
+}
+
+async function saveFilenameTemplate(): Promise<void> {
+  setBusy(true);
+  try {
+    const response = await sendMessage({ type: 'UI_SET_FILENAME_TEMPLATE', template: filenameTemplateEl.value });
+    if (!response.ok) {
+      throw new Error(response.error);
+    }
+    setStatus(filenameTemplateEl.value.trim() ? 'Filename template saved.' : 'Using the default filename.', false, filenameStatusEl);
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Saving the template failed', true, filenameStatusEl);
+  } finally {
+    setBusy(false);
+  }
+}
+
+async function saveRules(): Promise<void> {
+  setBusy(true);
+  try {
+    const response = await sendMessage({ type: 'UI_SET_EXTRACTION_RULES', rules: readRules() });
+    if (!response.ok) {
+      throw new Error(response.error);
+    }
+    await loadRules();
+    setStatus('Rules saved.');
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Saving rules failed', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
+async function previewRule(ruleEl: Element): Promise<void> {
+  setBusy(true);
+  setStatus('Extracting...');
+  try {
+    const response = await sendMessage({ type: 'UI_PREVIEW_EXTRACTION_RULE', rule: readRule(ruleEl) });
+    if (!response.ok) {
+      throw new Error(response.error);
+    }
+    if (!isPreviewResponse(response)) {
+      throw new Error('Preview response was malformed');
+    }
+    const { preview } = response;
+    previewTitleEl.textContent = preview.title;
+    previewMetaEl.textContent = [preview.byline, preview.url].filter(Boolean).join(' · ');
+    previewFrame.srcdoc = `<!doctype html><meta charset="utf-8"><style>body{font:15px/1.5 Georgia,serif;margin:16px}img{max-width:100%;height:auto}</style>${preview.html}`;
+    previewEl.hidden = false;
+    setStatus('Preview uses this form, not the saved rules.');
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Preview failed', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  void loadRules();
+  addBtn.addEventListener('click', () => {
+    addRuleElement().querySelector<HTMLInputElement>('[data-field="domain"]')?.focus();
+  });
+  saveBtn.addEventListener('click', () => void saveRules());
+  filenameSaveBtn.addEventListener('click', () => void saveFilenameTemplate());
+  rulesEl.addEventListener('click', (event) => {
+    const button = (event.target as Element).closest<HTMLButtonElement>('button[data-action]');
+    const ruleEl = button?.closest('.rule');
+    if (!button || !ruleEl) return;
+    if (button.dataset.action === 'remove') {
+      ruleEl.remove();
+      setStatus('Removed. Save rules to keep the change.');
+    } else if (button.dataset.action === 'preview') {
+      void previewRule(ruleEl);
+    }
+  });
+});
@@ -0,0 +1,109 @@
+(() => {
+  type PageLink = { href: string; rel: string; text: string; inPager: boolean };
+
+  const globalState = globalThis as typeof globalThis & {
+    TabToEpubPagination?: {
+      findNextPageUrl: (pageUrl: string, links: PageLink[]) => string | null;
+      continuesArticle: (current: URL, candidate: URL, signalled: boolean) => boolean;
+    };
+  };
+
+  if (globalState.TabToEpubPagination) {
+    return;
+  }
+
+  const NEXT_LINK_TEXT_RE = /^(?:next|next page|continue|older)?\s*[›»→>]*$/i;
+  const NEXT_PAGE_TEXT_RE = /^(?:next page|continue (?:reading )?on (?:the )?next page)\s*[›»→>]*$/i;
+  const PAGE_NUMBER_TEXT_RE = /^(?:page\s+)?(\d+)$/i;
+  // A trailing /2 is a page only when small; /news/12346 is the next story, not page 12346.
+  const MAX_PATH_PAGE_NUMBER = 50;
+
+  // ?page=N, ?pg=N and /page/N/ say outright which page a URL is.
+  function explicitPageNumber(url: URL): number | null {
+    const param = url.searchParams.get('page') || url.searchParams.get('pg') || '';
+    if (/^\d+$/.test(param)) {
+      return Number(param);
+    }
+    const match = url.pathname.match(/\/page\/(\d+)\/?$/i);
+    return match ? Number(match[1]) : null;
+  }
+
+  function pathPageNumber(url: URL): number | null {
+    const match = url.pathname.match(/\/(\d+)\/?$/);
+    const number = match ? Number(match[1]) : 0;
+    return number >= 2 && number <= MAX_PATH_PAGE_NUMBER ? number : null;
+  }
+
+  function pageNumberOf(url: URL): number {
+    return explicitPageNumber(url) ?? pathPageNumber(url) ?? 1;
+  }
+
+  // Path segments without the page segment or a file extension: /story/foo for /story/foo/2.
+  function stemSegments(url: URL): string[] {
+    let path = url.pathname.replace(/\/page\/\d+\/?$/i, '');
+    if (pathPageNumber(url) !== null) {
+      path = path.replace(/\/\d+\/?$/, '');
+    }
+    return path
+      .replace(/\.[a-z0-9]+$/i, '')
+      .split('/')
+      .filter(Boolean);
+  }
+
+  function sameSegments(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((segment, index) => segment === b[index]);
+  }
+
+  // A candidate continues this article only on the same site and under the same path, compared by
+  // whole segments. An explicit page number one past this page is enough; a /N path page or an
+  // extra path segment also needs a pagination signal (rel="next", "Next page", a pager link).
+  function continuesArticle(current: URL, candidate: URL, signalled: boolean): boolean {
+    if (candidate.origin !== current.origin || !/^https?:$/.test(candidate.protocol)) {
+      return false;
+    }
+    if (candidate.href.replace(/#.*$/, '') === current.href.replace(/#.*$/, '')) {
+      return false;
+    }
+    const stem = stemSegments(current);
+    const candidateStem = stemSegments(candidate);
+    const nextNumber = pageNumberOf(current) + 1;
+    if (sameSegments(candidateStem, stem)) {
+      if (explicitPageNumber(candidate) === nextNumber) {
+        return true;
+      }
+      return signalled && pathPageNumber(candidate) === nextNumber;
+    }
+    return (
+      signalled &&
+      stem.length > 0 &&
+      candidateStem.length === stem.length + 1 &&
+      sameSegments(candidateStem.slice(0, stem.length), stem)
+    );
+  }
+
+  // Links come from the content script, already resolved: rel="next" <link>s first, then anchors.
+  function findNextPageUrl(pageUrl: string, links: PageLink[]): string | null {
+    const current = new URL(pageUrl);
+    const nextNumber = pageNumberOf(current) + 1;
+    for (const link of links) {
+      let candidate: URL;
+      try {
+        candidate = new URL(link.href);
+      } catch {
+        continue;
+      }
+      const numbered = link.text.match(PAGE_NUMBER_TEXT_RE);
+      const signalled =
+        /(^|\s)next(\s|$)/i.test(link.rel) ||
+        NEXT_PAGE_TEXT_RE.test(link.text) ||
+        (link.inPager && Boolean(link.text) && NEXT_LINK_TEXT_RE.test(link.text)) ||
+        (Boolean(numbered) && Number(numbered?.[1]) === nextNumber && (link.inPager || /^page/i.test(link.text)));
+      if (continuesArticle(current, candidate, signalled)) {
+        return candidate.href;
+      }
+    }
+    return null;
+  }
+
+  globalState.TabToEpubPagination = { findNextPageUrl, continuesArticle };
+})();
@@ -0,0 +1,152 @@
+import { discoverPdfSourcesFromTabDom } from './pdf-dom-discovery.js';
+import { buildPdfFilename, detectPdfTab, ensureUniqueFilename } from './pdf.js';
+import { mapWithConcurrency } from './async-limit.js';
+import { parseContentType } from './http.js';
+import type { OutputArtifact } from './types.js';
+
+const PDF_MIME_TYPE = 'application/pdf';
+const PDF_CLASSIFICATION_CONCURRENCY = 3;
+const PDF_CANDIDATE_VERIFY_CONCURRENCY = 3;
+const PDF_FETCH_CONCURRENCY = 3;
+const PDF_DOM_WRAPPER_MIN_SCORE = 88;
+
+export interface PdfTabCandidate {
+  tab: chrome.tabs.Tab;
+  sourceUrl: string;
+}
+
+function hasPdfMagicBytes(bytes: Uint8Array): boolean {
+  return bytes.length >= 5 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46 && bytes[4] === 0x2d;
+}
+
+async function fetchPdfBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`PDF fetch failed (${response.status})`);
+  }
+  const contentType = parseContentType(response.headers.get('content-type'));
+  const buffer = new Uint8Array(await response.arrayBuffer());
+  if (contentType && contentType !== PDF_MIME_TYPE && !hasPdfMagicBytes(buffer)) {
+    throw new Error(`Resource is not a PDF (${contentType})`);
+  }
+  if (!contentType && !hasPdfMagicBytes(buffer)) {
+    throw new Error('Resource is not a PDF');
+  }
+  return buffer;
+}
+
+export async function splitTabsByPdf(tabs: chrome.tabs.Tab[]): Promise<{
+  articleTabs: chrome.tabs.Tab[];
+  pdfTabs: PdfTabCandidate[];
+  failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
+}> {
+  const resolvePdfSourceFromDomCandidates = async (tab: chrome.tabs.Tab): Promise<string | null> => {
+    const domCandidates = await discoverPdfSourcesFromTabDom(tab);
+    const limited = domCandidates
+      .filter((candidate) => candidate.score >= PDF_DOM_WRAPPER_MIN_SCORE)
+      .map((candidate) => candidate.url)
+      .slice(0, 6);
+    if (limited.length === 0) {
+      return null;
+    }
+
+    const checked = await mapWithConcurrency(limited, PDF_CANDIDATE_VERIFY_CONCURRENCY, async (candidateUrl) => {
+      const candidateDetection = await detectPdfTab(
+        { url: candidateUrl },
+        fetch,
+        { verifyUrlPath: true }
+      );
+      return candidateDetection.isPdf && candidateDetection.sourceUrl ? candidateDetection.sourceUrl : null;
+    });
+    return checked.find((sourceUrl): sourceUrl is string => Boolean(sourceUrl)) ?? null;
+  };
+
+  const classifications = await mapWithConcurrency(tabs, PDF_CLASSIFICATION_CONCURRENCY, async (tab) => {
+    try {
+      const detection = await detectPdfTab({
+        url: tab.url,
+        pendingUrl: tab.pendingUrl,
+        title: tab.title
+      });
+      if (detection.isPdf) {
+        if (!detection.sourceUrl) {
+          return { kind: 'failure' as const, tab, error: 'PDF tab has no downloadable source URL' };
+        }
+        return { kind: 'pdf' as const, tab, sourceUrl: detection.sourceUrl };
+      }
+
+      const resolvedPdfSource = await resolvePdfSourceFromDomCandidates(tab);
+      if (resolvedPdfSource) {
+        return { kind: 'pdf' as const, tab, sourceUrl: resolvedPdfSource };
+      }
+      return { kind: 'article' as const, tab };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return { kind: 'failure' as const, tab, error: errorMessage };
+    }
+  });
+
+  const articleTabs: chrome.tabs.Tab[] = [];
+  const pdfTabs: PdfTabCandidate[] = [];
+  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
+  for (const result of classifications) {
+    if (result.kind === 'pdf') {
+      pdfTabs.push({ tab: result.tab, sourceUrl: result.sourceUrl });
+      continue;
+    }
+    if (result.kind === 'article') {
+      articleTabs.push(result.tab);
+      continue;
+    }
+    failures.push({ tab: result.tab, error: result.error });
+  }
+
+  return { articleTabs, pdfTabs, failures };
+}
+
+export async function buildPdfArtifacts(
+  pdfTabs: PdfTabCandidate[],
+  now: Date,
+  usedFilenames: Set<string>
+): Promise<{
+  artifacts: OutputArtifact[];
+  failures: Array<{ tab: chrome.tabs.Tab; error: string }>;
+}> {
+  const fetched = await mapWithConcurrency(pdfTabs, PDF_FETCH_CONCURRENCY, async (candidate) => {
+    try {
+      const bytes = await fetchPdfBytes(candidate.sourceUrl);
+      return { candidate, bytes, error: null as string | null };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return { candidate, bytes: null as Uint8Array | null, error: errorMessage };
+    }
+  });
+
+  const artifacts: OutputArtifact[] = [];
+  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
+  for (const result of fetched) {
+    if (!result.bytes) {
+      if (result.error) {
+        failures.push({ tab: result.candidate.tab, error: result.error });
+      }
+      continue;
+    }
+    const baseFilename = buildPdfFilename(
+      {
+        title: result.candidate.tab.title,
+        url: result.candidate.tab.url,
+        pendingUrl: result.candidate.tab.pendingUrl
+      },
+      result.candidate.sourceUrl,
+      now
+    );
+    const filename = ensureUniqueFilename(baseFilename, usedFilenames);
+    artifacts.push({
+      filename,
+      mimeType: PDF_MIME_TYPE,
+      bytes: result.bytes
+    });
+  }
+
+  return { artifacts, failures };
+}
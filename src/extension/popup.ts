@@ -1,4 +1,6 @@
-import { storeHandle, getDirectoryState, writeFile, clearHandle } from './directory-handle.js';
+import { storeHandle, getDirectoryState, writeFile, clearHandle, listEpubFiles } from './directory-handle.js';
+import { STYLE_PRESETS } from '../core/styles.js';
+import { bytesToMegabytes } from '../core/volumes.js';
 import type { Settings, UiBuildEpubResponse, UiMessage, UiResponse } from './types.js';
 
 const statusEl = document.getElementById('status');
@@ -9,6 +11,22 @@ const dirStatusEl = document.getElementById('dir-status') as HTMLSpanElement;
 const dirPickBtn = document.getElementById('dir-pick') as HTMLButtonElement;
 const dirDownloadsBtn = document.getElementById('dir-downloads') as HTMLButtonElement;
 const dirClearBtn = document.getElementById('dir-clear') as HTMLButtonElement;
+const appendRowEl = document.getElementById('append-row') as HTMLDivElement;
+const appendTargetEl = document.getElementById('append-target') as HTMLSelectElement;
+const appendBtn = document.getElementById('append-btn') as HTMLButtonElement;
+const stylePresetEl = document.getElementById('style-preset') as HTMLSelectElement;
+const customCssEl = document.getElementById('custom-css') as HTMLTextAreaElement;
+const styleSaveBtn = document.getElementById('style-save') as HTMLButtonElement;
+const linkNotesEl = document.getElementById('link-notes') as HTMLSelectElement;
+const imageMaxEl = document.getElementById('image-max') as HTMLInputElement;
+const imageGrayscaleEl = document.getElementById('image-grayscale') as HTMLInputElement;
+const imageMinEl = document.getElementById('image-min') as HTMLInputElement;
+const imageRasterizeSvgEl = document.getElementById('image-rasterize-svg') as HTMLInputElement;
+const imageSaveBtn = document.getElementById('image-save') as HTMLButtonElement;
+const volumeChaptersEl = document.getElementById('volume-chapters') as HTMLInputElement;
+const volumeMegabytesEl = document.getElementById('volume-megabytes') as HTMLInputElement;
+const volumeSaveBtn = document.getElementById('volume-save') as HTMLButtonElement;
+const openOptionsBtn = document.getElementById('open-options') as HTMLButtonElement;
 
 function setStatus(message: string, isError = false): void {
   if (!statusEl) return;
@@ -21,6 +39,9 @@ function setBusy(isBusy: boolean): void {
     (button as HTMLButtonElement).disabled = isBusy;
   });
   emailKindleCheckbox.disabled = isBusy;
+  appendTargetEl.disabled = isBusy;
+  stylePresetEl.disabled = isBusy;
+  linkNotesEl.disabled = isBusy;
 }
 
 function isSettingsResponse(response: UiResponse): response is UiResponse & { settings: Settings } {
@@ -96,7 +117,21 @@ async function getSettings(): Promise<Settings> {
   return response.settings;
 }
 
+async function updateAppendTargets(handle: FileSystemDirectoryHandle | null): Promise<void> {
+  const filenames = handle ? await listEpubFiles(handle).catch(() => []) : [];
+  appendTargetEl.replaceChildren(
+    ...filenames.map((filename) => {
+      const option = document.createElement('option');
+      option.value = filename;
+      option.textContent = filename;
+      return option;
+    })
+  );
+  appendRowEl.style.display = filenames.length > 0 ? '' : 'none';
+}
+
 async function updateDirectoryDisplay(): Promise<void> {
+  await updateAppendTargets(null);
   const settings = await getSettings().catch(() => null);
   if (settings?.useDefaultDownloads) {
     dirStatusEl.textContent = 'Using Downloads (Chrome default)';
@@ -120,6 +155,7 @@ async function updateDirectoryDisplay(): Promise<void> {
       dirPickBtn.textContent = 'Change';
       dirDownloadsBtn.style.display = 'none';
       dirClearBtn.style.display = '';
+      await updateAppendTargets(state.handle);
     } else {
       dirStatusEl.textContent = `Folder: ${state.name} (re-authorize needed)`;
       dirPickBtn.textContent = 'Re-authorize';
@@ -217,6 +253,63 @@ async function saveKindleEmail(): Promise<void> {
   }
 }
 
+async function saveStyle(): Promise<void> {
+  setBusy(true);
+  setStatus('Saving…');
+  try {
+    const response = await sendMessage({
+      type: 'UI_SET_STYLE',
+      preset: stylePresetEl.value,
+      customCss: customCssEl.value.trim() || null
+    });
+    if (!response.ok) throw new Error(response.error);
+    const warning = getResponseWarning(response);
+    setStatus(warning || 'Reading style saved.', Boolean(warning));
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Failed to save style', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
+async function saveImageOptions(): Promise<void> {
+  setBusy(true);
+  setStatus('Saving…');
+  try {
+    const response = await sendMessage({
+      type: 'UI_SET_IMAGE_OPTIONS',
+      maxDimension: Number(imageMaxEl.value),
+      grayscale: imageGrayscaleEl.checked,
+      minSize: Number(imageMinEl.value),
+      rasterizeSvg: imageRasterizeSvgEl.checked
+    });
+    if (!response.ok) throw new Error(response.error);
+    setStatus('Image options saved.');
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Failed to save image options', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
+async function saveVolumeLimits(): Promise<void> {
+  setBusy(true);
+  setStatus('Saving…');
+  try {
+    const response = await sendMessage({
+      type: 'UI_SET_VOLUME_LIMITS',
+      maxChapters: Number(volumeChaptersEl.value),
+      maxMegabytes: Number(volumeMegabytesEl.value)
+    });
+    if (!response.ok) throw new Error(response.error);
+    setStatus('Volume limits saved.');
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Failed to save volume limits', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
 async function handleAction(action: string): Promise<void> {
   setBusy(true);
   setStatus('Working…');
@@ -261,11 +354,59 @@ async function handleAction(action: string): Promise<void> {
   }
 }
 
+async function appendToBook(): Promise<void> {
+  const filename = appendTargetEl.value;
+  if (!filename) {
+    setStatus('No book selected.', true);
+    return;
+  }
+  setBusy(true);
+  setStatus('Working…');
+  try {
+    const tabIds = await getSelectedTabIds();
+    if (tabIds.length === 0) {
+      setStatus('No tabs selected.', true);
+      return;
+    }
+    const response = await sendMessage({
+      type: 'UI_APPEND_EPUB',
+      tabIds,
+      filename,
+      emailToKindle: emailKindleCheckbox.checked
+    });
+    if (!response.ok) throw new Error(response.error);
+    const warning = getResponseWarning(response);
+    setStatus(warning ? `Appended to ${filename}. ${warning}` : `Appended to ${filename}.`, Boolean(warning));
+    showTooLargeEmailAlert(getTooLargeForEmail(response));
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : 'Append failed', true);
+  } finally {
+    setBusy(false);
+  }
+}
+
 document.addEventListener('DOMContentLoaded', () => {
+  stylePresetEl.replaceChildren(
+    ...Object.entries(STYLE_PRESETS).map(([id, preset]) => {
+      const option = document.createElement('option');
+      option.value = id;
+      option.textContent = preset.label;
+      return option;
+    })
+  );
   void getSettings()
     .then((settings) => {
       kindleInputEl.value = settings.kindleEmail || '';
       emailKindleCheckbox.checked = settings.emailToKindle;
+      stylePresetEl.value = settings.stylePreset;
+      customCssEl.value = settings.customCss || '';
+      linkNotesEl.value = settings.linkNotes;
+      imageMaxEl.value = String(settings.maxImageDimension);
+      imageGrayscaleEl.checked = settings.grayscaleImages;
+      imageMinEl.value = String(settings.minImageSize);
+      imageRasterizeSvgEl.checked = settings.rasterizeSvg;
+      volumeChaptersEl.value = String(settings.volumeMaxChapters);
+      volumeMegabytesEl.value = String(bytesToMegabytes(settings.volumeMaxBytes));
       setStatus('Ready.');
     })
     .catch(() => setStatus('Ready.'));
@@ -276,6 +417,14 @@ document.addEventListener('DOMContentLoaded', () => {
   emailKindleCheckbox.addEventListener('change', () => {
     void sendMessage({ type: 'UI_SET_EMAIL_TO_KINDLE', enabled: emailKindleCheckbox.checked });
   });
+  appendBtn.addEventListener('click', () => void appendToBook());
+  styleSaveBtn.addEventListener('click', () => void saveStyle());
+  imageSaveBtn.addEventListener('click', () => void saveImageOptions());
+  volumeSaveBtn.addEventListener('click', () => void saveVolumeLimits());
+  openOptionsBtn.addEventListener('click', () => void chrome.runtime.openOptionsPage());
+  linkNotesEl.addEventListener('change', () => {
+    void sendMessage({ type: 'UI_SET_LINK_NOTES', mode: linkNotesEl.value as Settings['linkNotes'] });
+  });
   kindleSaveBtn.addEventListener('click', () => void saveKindleEmail());
   kindleInputEl.addEventListener('keydown', (e) => {
     if (e.key === 'Enter') void saveKindleEmail();
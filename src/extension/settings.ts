@@ -0,0 +1,58 @@
+import { DEFAULT_STYLE_PRESET } from '../core/styles.js';
+import { DEFAULT_MIN_IMAGE_SIZE } from './image-filter.js';
+import { DEFAULT_MAX_IMAGE_DIMENSION } from './image-transcode.js';
+import type { ImageTranscodeOptions, Settings } from './types.js';
+
+const SETTINGS_KEY = 'tabstoepub-settings';
+
+const DEFAULT_SETTINGS: Settings = {
+  testMode: false,
+  kindleEmail: null,
+  useDefaultDownloads: false,
+  emailToKindle: false,
+  stylePreset: DEFAULT_STYLE_PRESET,
+  customCss: null,
+  linkNotes: 'off',
+  maxImageDimension: DEFAULT_MAX_IMAGE_DIMENSION,
+  grayscaleImages: false,
+  minImageSize: DEFAULT_MIN_IMAGE_SIZE,
+  rasterizeSvg: true,
+  volumeMaxChapters: 0,
+  volumeMaxBytes: 0,
+  extractionRules: [],
+  filenameTemplate: ''
+};
+
+function storageGet<T>(key: string): Promise<T | undefined> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(key, (result) => {
+      resolve(result[key] as T | undefined);
+    });
+  });
+}
+
+function storageSet(value: Record<string, unknown>): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set(value, () => resolve());
+  });
+}
+
+export async function getSettings(): Promise<Settings> {
+  const stored = await storageGet<Settings>(SETTINGS_KEY);
+  return { ...DEFAULT_SETTINGS, ...(stored || {}) };
+}
+
+export async function setSettings(next: Partial<Settings>): Promise<Settings> {
+  const current = await getSettings();
+  const updated = { ...current, ...next };
+  await storageSet({ [SETTINGS_KEY]: updated });
+  return updated;
+}
+
+export function imageTranscodeOptions(settings: Settings): ImageTranscodeOptions {
+  return {
+    maxDimension: settings.maxImageDimension,
+    grayscale: settings.grayscaleImages,
+    rasterizeSvg: settings.rasterizeSvg
+  };
+}
@@ -0,0 +1,181 @@
+import { buildEpub } from '../core/epub.js';
+import type { BuildEpubOptions, BuildEpubResult, EpubAsset } from '../core/types.js';
+import { mapWithConcurrency } from './async-limit.js';
+import { transcodeImage } from './image-transcode.js';
+import type { ExtractedArticleWithTab, ImageTranscodeOptions, SizeBudgetReport } from './types.js';
+
+// Each step re-encodes from the embedded images, so quality loss does not compound.
+const BUDGET_STEPS = [
+  { maxDimension: 1200, quality: 0.75 },
+  { maxDimension: 1000, quality: 0.65 },
+  { maxDimension: 800, quality: 0.55 },
+  { maxDimension: 600, quality: 0.45 }
+];
+const BUDGET_TRANSCODE_CONCURRENCY = 2;
+
+const IMG_TAG_RE = /<img\b[^>]*>/gi;
+
+const EXT_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+};
+
+function assetHref(asset: EpubAsset): string {
+  return asset.href || asset.path.replace(/^OEBPS\//, '');
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3] ?? '') : null;
+}
+
+function isDecorativeTag(tag: string): boolean {
+  const role = (attribute(tag, 'role') || '').toLowerCase();
+  return attribute(tag, 'alt') === '' || role === 'presentation' || role === 'none' || attribute(tag, 'aria-hidden') === 'true';
+}
+
+// An image is decorative only if every place that shows it marks it as such.
+export function findDecorativeImages(articles: ExtractedArticleWithTab[], assets: EpubAsset[]): Set<string> {
+  const decorative = new Set(assets.map(assetHref));
+  const seen = new Set<string>();
+  for (const article of articles) {
+    for (const tag of (article.content || '').match(IMG_TAG_RE) || []) {
+      const src = attribute(tag, 'src');
+      if (!src || !decorative.has(src)) continue;
+      seen.add(src);
+      if (!isDecorativeTag(tag)) decorative.delete(src);
+    }
+  }
+  return new Set([...decorative].filter((href) => seen.has(href)));
+}
+
+function removeImages(articles: ExtractedArticleWithTab[], hrefs: Set<string>): ExtractedArticleWithTab[] {
+  return articles.map((article) => ({
+    ...article,
+    content: (article.content || '').replace(IMG_TAG_RE, (tag) => (hrefs.has(attribute(tag, 'src') || '') ? '' : tag))
+  }));
+}
+
+function renameImages(articles: ExtractedArticleWithTab[], renames: Map<string, string>): ExtractedArticleWithTab[] {
+  if (renames.size === 0) return articles;
+  return articles.map((article) => {
+    let content = article.content || '';
+    for (const [from, to] of renames) {
+      content = content.replaceAll(`"${from}"`, `"${to}"`);
+    }
+    return { ...article, content };
+  });
+}
+
+async function shrinkAsset(asset: EpubAsset, options: ImageTranscodeOptions): Promise<EpubAsset> {
+  try {
+    const result = await transcodeImage(asset.data, asset.mediaType, options);
+    if (result.data.length >= asset.data.length) {
+      return asset;
+    }
+    if (result.mediaType === asset.mediaType) {
+      return { ...asset, data: result.data };
+    }
+    const href = assetHref(asset).replace(/\.[a-z0-9]+$/i, '') + `.${EXT_BY_TYPE[result.mediaType]}`;
+    return { path: `OEBPS/${href}`, href, mediaType: result.mediaType, data: result.data };
+  } catch (err) {
+    console.warn('Image recompression failed:', assetHref(asset), err instanceof Error ? err.message : String(err));
+    return asset;
+  }
+}
+
+// Builds the EPUB, then recompresses and downsizes images step by step (and finally drops
+// decorative ones) until the book fits maxBytes or there is nothing left to give up.
+export async function buildEpubWithinBudget(
+  articles: ExtractedArticleWithTab[],
+  assets: EpubAsset[],
+  options: BuildEpubOptions,
+  budget: { maxBytes: number; transcode: ImageTranscodeOptions }
+): Promise<BuildEpubResult & { report: SizeBudgetReport }> {
+  let result = buildEpub(articles, { ...options, assets });
+  const report: SizeBudgetReport = {
+    budgetBytes: budget.maxBytes,
+    originalBytes: result.bytes.length,
+    finalBytes: result.bytes.length,
+    fits: result.bytes.length <= budget.maxBytes,
+    maxDimension: null,
+    quality: null,
+    recompressedImages: 0,
+    droppedImages: []
+  };
+  if (report.fits || assets.length === 0) {
+    return { ...result, report };
+  }
+
+  let currentArticles = articles;
+  let currentAssets = assets;
+  for (const step of BUDGET_STEPS) {
+    const maxDimension = Math.min(step.maxDimension, budget.transcode.maxDimension || step.maxDimension);
+    const stepOptions = { ...budget.transcode, maxDimension, quality: step.quality };
+    const shrunk = await mapWithConcurrency(assets, BUDGET_TRANSCODE_CONCURRENCY, (asset) => shrinkAsset(asset, stepOptions));
+    const renames = new Map<string, string>();
+    shrunk.forEach((asset, index) => {
+      if (assetHref(asset) !== assetHref(assets[index])) renames.set(assetHref(assets[index]), assetHref(asset));
+    });
+    const recompressed = shrunk.filter((asset, index) => asset !== assets[index]).length;
+    // A later, harsher step may still shrink what this one could not.
+    if (recompressed === 0) {
+      continue;
+    }
+    currentArticles = renameImages(articles, renames);
+    currentAssets = shrunk;
+    result = buildEpub(currentArticles, { ...options, assets: currentAssets });
+    Object.assign(report, { maxDimension, quality: step.quality, recompressedImages: recompressed });
+    if (result.bytes.length <= budget.maxBytes) {
+      break;
+    }
+  }
+
+  if (result.bytes.length > budget.maxBytes) {
+    // Drop the largest decorative images until the overshoot is covered; images are stored uncompressed.
+    const decorative = findDecorativeImages(currentArticles, currentAssets);
+    const candidates = currentAssets
+      .filter((asset) => decorative.has(assetHref(asset)))
+      .sort((a, b) => b.data.length - a.data.length);
+    const dropped = new Set<string>();
+    let overshoot = result.bytes.length - budget.maxBytes;
+    for (const asset of candidates) {
+      if (overshoot <= 0) break;
+      dropped.add(assetHref(asset));
+      overshoot -= asset.data.length;
+    }
+    if (dropped.size > 0) {
+      currentArticles = removeImages(currentArticles, dropped);
+      currentAssets = currentAssets.filter((asset) => !dropped.has(assetHref(asset)));
+      result = buildEpub(currentArticles, { ...options, assets: currentAssets });
+      report.droppedImages = [...dropped];
+    }
+  }
+
+  report.finalBytes = result.bytes.length;
+  report.fits = result.bytes.length <= budget.maxBytes;
+  return { ...result, report };
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function describeSizeBudgetReport(report: SizeBudgetReport): string | null {
+  const changes: string[] = [];
+  if (report.recompressedImages > 0) {
+    changes.push(`${report.recompressedImages} image(s) recompressed to at most ${report.maxDimension}px`);
+  }
+  if (report.droppedImages.length > 0) {
+    changes.push(`${report.droppedImages.length} decorative image(s) dropped`);
+  }
+  if (report.fits && changes.length === 0) {
+    return null;
+  }
+  const summary = changes.join(', ');
+  if (!report.fits) {
+    const tried = summary ? ` even after reducing images (${summary})` : '';
+    return `The EPUB is ${megabytes(report.finalBytes)}, over the ${megabytes(report.budgetBytes)} email limit${tried}.`;
+  }
+  return `Images were reduced to fit the ${megabytes(report.budgetBytes)} email limit: ${megabytes(report.originalBytes)} → ${megabytes(report.finalBytes)} (${summary}).`;
+}
@@ -0,0 +1,55 @@
+(() => {
+  type SrcsetCandidate = { url: string; width: number | null; density: number };
+
+  const globalState = globalThis as typeof globalThis & {
+    TabToEpubSrcset?: {
+      parseSrcset: (value: string) => SrcsetCandidate[];
+      pickSrcsetCandidate: (candidates: SrcsetCandidate[], targetWidth: number) => string | null;
+    };
+  };
+
+  if (globalState.TabToEpubSrcset) {
+    return;
+  }
+
+  // Follows the HTML srcset algorithm: the URL runs to the next whitespace, so commas inside it
+  // (w_424,c_limit,... on image CDNs) stay part of it. Only a trailing comma or one after the
+  // descriptors separates candidates.
+  function parseSrcset(value: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    let rest = value;
+    for (;;) {
+      rest = rest.replace(/^[\s,]+/, '');
+      if (!rest) break;
+      const token = (rest.match(/^\S+/) as RegExpMatchArray)[0];
+      rest = rest.slice(token.length);
+      let descriptors = '';
+      if (!token.endsWith(',')) {
+        const end = rest.indexOf(',');
+        descriptors = (end === -1 ? rest : rest.slice(0, end)).trim();
+        rest = end === -1 ? '' : rest.slice(end + 1);
+      }
+      const url = token.replace(/,+$/, '');
+      const descriptor = descriptors.match(/^(\d+(?:\.\d+)?)([wx])$/i);
+      // Candidates with descriptors this parser does not understand are dropped, as browsers do.
+      if (!url || url.startsWith('data:') || (descriptors && !descriptor)) continue;
+      const amount = descriptor ? Number(descriptor[1]) : 1;
+      const kind = descriptor ? descriptor[2].toLowerCase() : 'x';
+      candidates.push({ url, width: kind === 'w' ? amount : null, density: kind === 'x' ? amount : 1 });
+    }
+    return candidates;
+  }
+
+  // Smallest width that still covers the target, otherwise the largest on offer.
+  function pickSrcsetCandidate(candidates: SrcsetCandidate[], targetWidth: number): string | null {
+    const widths = candidates.filter((candidate) => candidate.width !== null).sort((a, b) => (a.width ?? 0) - (b.width ?? 0));
+    if (widths.length > 0) {
+      const covering = targetWidth > 0 ? widths.find((candidate) => (candidate.width ?? 0) >= targetWidth) : undefined;
+      return (covering || widths[widths.length - 1]).url;
+    }
+    const densities = [...candidates].sort((a, b) => b.density - a.density);
+    return densities.length > 0 ? densities[0].url : null;
+  }
+
+  globalState.TabToEpubSrcset = { parseSrcset, pickSrcsetCandidate };
+})();
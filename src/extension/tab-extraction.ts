@@ -0,0 +1,183 @@
+import { applyArticleMetadata } from './article-metadata.js';
+import { MAX_ARTICLE_PAGES, joinArticlePages, pageKey } from './article-pages.js';
+import { mapWithConcurrency } from './async-limit.js';
+import { findExtractionRule } from './extraction-rules.js';
+import { parseContentType } from './http.js';
+import type {
+  ExtractMessage,
+  ExtractResponse,
+  ExtractSuccessResponse,
+  ExtractedArticle,
+  ExtractedArticleWithTab,
+  ExtractionRule,
+  FetchImageMessage,
+  FetchImageResponse
+} from './types.js';
+
+const TAB_EXTRACTION_CONCURRENCY = 4;
+
+function tabsSendMessage<T>(tabId: number, message: ExtractMessage | FetchImageMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, message, (response) => {
+      const err = chrome.runtime.lastError;
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(response as T);
+    });
+  });
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function executeScript(tabId: number, files: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.scripting.executeScript({ target: { tabId }, files }, () => {
+      const err = chrome.runtime.lastError;
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+async function ensureContentScript(tabId: number): Promise<void> {
+  await executeScript(tabId, [
+    'extension/vendor/readability.js',
+    'extension/extract-heuristics.js',
+    'extension/srcset.js',
+    'extension/pagination.js',
+    'extension/extractor-registry.js',
+    'extension/extractor-readability.js',
+    'extension/extractors-sites.js',
+    'extension/content-extract.js'
+  ]);
+}
+
+async function fetchPageHtml(url: string): Promise<string> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const contentType = parseContentType(response.headers.get('content-type'));
+  if (contentType && !contentType.includes('html')) {
+    throw new Error(`Not a web page (${contentType})`);
+  }
+  return response.text();
+}
+
+// Follows the article's next-page links, extracting each page with the same extractor in the
+// tab. Stops at the page limit, on a URL or content already seen, or when a page fails.
+async function extractArticlePages(
+  tabId: number,
+  first: ExtractSuccessResponse,
+  message: ExtractMessage
+): Promise<ExtractedArticle[]> {
+  const pages: ExtractedArticle[] = [first.article];
+  const seen = new Set([pageKey(first.article.url || '')]);
+  let nextPageUrl = first.nextPageUrl;
+  while (nextPageUrl && pages.length < MAX_ARTICLE_PAGES && !seen.has(pageKey(nextPageUrl))) {
+    const url = nextPageUrl;
+    seen.add(pageKey(url));
+    try {
+      const html = await fetchPageHtml(url);
+      const response = await tabsSendMessage<ExtractResponse>(tabId, { ...message, page: { url, html } });
+      if (!response || response.ok === false) {
+        throw new Error(response && response.error ? response.error : 'Extraction failed');
+      }
+      // Sites that ignore an unknown page number serve the same article again.
+      if (pages.some((page) => page.content === response.article.content)) {
+        break;
+      }
+      pages.push(response.article);
+      nextPageUrl = response.nextPageUrl;
+    } catch (err) {
+      console.warn('Stopped following article pages at', url, err instanceof Error ? err.message : String(err));
+      break;
+    }
+  }
+  return pages;
+}
+
+async function extractFromTab(
+  tab: chrome.tabs.Tab,
+  targetWidth: number,
+  rule: ExtractionRule | null,
+  selection: boolean
+): Promise<ExtractedArticleWithTab> {
+  if (typeof tab.id !== 'number') {
+    throw new Error('Missing tab.');
+  }
+  if (tab.url && (tab.url.startsWith('chrome') || tab.url.startsWith('chrome-extension'))) {
+    throw new Error(`Cannot access ${tab.url}`);
+  }
+  await ensureContentScript(tab.id);
+  const message: ExtractMessage = selection ? { type: 'EXTRACT', targetWidth, selection } : { type: 'EXTRACT', targetWidth, rule };
+  const response = await tabsSendMessage<ExtractResponse>(tab.id, message);
+  if (!response || response.ok === false) {
+    const errorMessage = response && 'error' in response && response.error ? response.error : 'Extraction failed';
+    throw new Error(errorMessage);
+  }
+  // A selection is a single passage, so next-page links and the lead image are left out.
+  const article = selection
+    ? applyArticleMetadata(response.article, { leadImage: false })
+    : applyArticleMetadata(joinArticlePages(await extractArticlePages(tab.id, response, message)));
+  return {
+    ...article,
+    tabId: tab.id,
+    tabTitle: tab.title || article.title || 'Untitled'
+  };
+}
+
+// The content script fetches with the page's cookies and Referer, or copies an already
+// rendered <img>, which gets past hotlink protection and in-page authentication.
+export async function fetchImageInTab(tabId: number, url: string): Promise<{ buffer: Uint8Array; contentType: string }> {
+  const response = await tabsSendMessage<FetchImageResponse>(tabId, { type: 'FETCH_IMAGE', url });
+  if (!response || response.ok === false) {
+    throw new Error(response && response.error ? response.error : 'Image fetch in tab failed');
+  }
+  return { buffer: base64ToBytes(response.base64), contentType: parseContentType(response.contentType) };
+}
+
+export async function extractArticles(
+  tabs: chrome.tabs.Tab[],
+  {
+    targetWidth = 0,
+    rules = [],
+    selection = false
+  }: { targetWidth?: number; rules?: ExtractionRule[]; selection?: boolean } = {}
+): Promise<{ articles: ExtractedArticleWithTab[]; failures: Array<{ tab: chrome.tabs.Tab; error: string }> }> {
+  const results = await mapWithConcurrency(tabs, TAB_EXTRACTION_CONCURRENCY, async (tab) => {
+    try {
+      const rule = findExtractionRule(rules, tab.url);
+      return { tab, article: await extractFromTab(tab, targetWidth, rule, selection), error: null as string | null };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return { tab, article: null as ExtractedArticleWithTab | null, error: errorMessage };
+    }
+  });
+
+  const articles: ExtractedArticleWithTab[] = [];
+  const failures: Array<{ tab: chrome.tabs.Tab; error: string }> = [];
+  for (const result of results) {
+    if (result.article) {
+      articles.push(result.article);
+      continue;
+    }
+    if (result.error) {
+      failures.push({ tab: result.tab, error: result.error });
+    }
+  }
+
+  return { articles, failures };
+}
@@ -1,12 +1,17 @@
-import type { ArticleInput, EpubAsset } from '../core/types.js';
+import type { ArticleInput, EpubAsset, LinkNotesMode, MetadataSources, StylePresetId } from '../core/types.js';
 
 export interface ImageToken {
   token: string;
   src: string;
+  // Size declared by the page's width/height attributes, when both are given.
+  width?: number;
+  height?: number;
 }
 
 export interface ExtractedArticle extends ArticleInput {
   images?: ImageToken[];
+  // Parsed into ArticleMetadata fields by the background, then dropped.
+  metadataSources?: MetadataSources;
 }
 
 export interface ExtractedArticleWithTab extends ExtractedArticle {
@@ -14,9 +19,65 @@ export interface ExtractedArticleWithTab extends ExtractedArticle {
   tabTitle: string;
 }
 
+export interface MissingImage {
+  articleTitle: string;
+  url: string;
+  reason: string;
+}
+
+// Trackers, spacers and icons left out of the book on purpose.
+export interface FilteredImage {
+  url: string;
+  reason: string;
+}
+
 export interface EmbeddedResult {
   articles: ExtractedArticleWithTab[];
   assets: EpubAsset[];
+  missingImages: MissingImage[];
+  filteredImages: FilteredImage[];
+}
+
+export interface OutputArtifact {
+  filename: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface BuiltEpub {
+  bytes: Uint8Array;
+  filename: string;
+  assetsCount: number;
+  sizeWarning: string | null;
+}
+
+export interface ImageTranscodeOptions {
+  maxDimension: number;
+  grayscale: boolean;
+  quality?: number;
+  // For readers without SVG support; SVG is kept (sanitized) when rendering it fails.
+  rasterizeSvg?: boolean;
+}
+
+export interface SizeBudgetReport {
+  budgetBytes: number;
+  originalBytes: number;
+  finalBytes: number;
+  fits: boolean;
+  maxDimension: number | null;
+  quality: number | null;
+  recompressedImages: number;
+  droppedImages: string[];
+}
+
+// Per-domain overrides for pages the extractors get wrong. Empty selectors are ignored.
+export interface ExtractionRule {
+  domain: string;
+  contentSelector: string;
+  includeSelectors: string[];
+  excludeSelectors: string[];
+  titleSelector: string;
+  bylineSelector: string;
 }
 
 export interface Settings {
@@ -24,15 +85,37 @@ export interface Settings {
   kindleEmail: string | null;
   useDefaultDownloads: boolean;
   emailToKindle: boolean;
+  stylePreset: StylePresetId;
+  customCss: string | null;
+  linkNotes: LinkNotesMode;
+  maxImageDimension: number;
+  grayscaleImages: boolean;
+  minImageSize: number;
+  rasterizeSvg: boolean;
+  // 0 means no limit; either limit starts a new "Part N" volume.
+  volumeMaxChapters: number;
+  volumeMaxBytes: number;
+  extractionRules: ExtractionRule[];
+  // Empty keeps the default "<timestamp> <domains>" filename.
+  filenameTemplate: string;
 }
 
 export interface ExtractMessage {
   type: 'EXTRACT';
+  // Preferred image width when picking from srcset candidates; 0 takes the largest.
+  targetWidth?: number;
+  rule?: ExtractionRule | null;
+  // A later page of the article, fetched by the background, to extract instead of the live page.
+  page?: { url: string; html: string };
+  // Extract only the text selected in the live page.
+  selection?: boolean;
 }
 
 export interface ExtractSuccessResponse {
   ok: true;
   article: ExtractedArticle;
+  // Where the article continues, from rel="next" or pagination links.
+  nextPageUrl?: string | null;
 }
 
 export interface ExtractErrorResponse {
@@ -42,11 +125,21 @@ export interface ExtractErrorResponse {
 
 export type ExtractResponse = ExtractSuccessResponse | ExtractErrorResponse;
 
+// Asks the content script to load an image the service worker could not fetch.
+export interface FetchImageMessage {
+  type: 'FETCH_IMAGE';
+  url: string;
+}
+
+export type FetchImageResponse = { ok: true; base64: string; contentType: string } | ExtractErrorResponse;
+
+export type TabImageFetcher = (tabId: number, url: string) => Promise<{ buffer: Uint8Array; contentType: string }>;
+
 export type TestMessage =
   | { type: 'TEST_SET_MODE'; enabled: boolean }
   | { type: 'TEST_RESET_STATE' }
   | { type: 'TEST_LIST_TABS' }
-  | { type: 'TEST_SAVE_ACTIVE_TAB' }
+  | { type: 'TEST_SAVE_ACTIVE_TAB'; selection?: boolean }
   | { type: 'TEST_SAVE_TAB_IDS'; tabIds: number[] };
 
 export type UiMessage =
@@ -54,8 +147,16 @@ export type UiMessage =
   | { type: 'UI_CLEAR_DIRECTORY' }
   | { type: 'UI_SET_DEFAULT_DOWNLOADS'; enabled: boolean }
   | { type: 'UI_BUILD_EPUB'; tabIds: number[]; closeTabs?: boolean; emailToKindle?: boolean }
+  | { type: 'UI_APPEND_EPUB'; tabIds: number[]; filename: string; closeTabs?: boolean; emailToKindle?: boolean }
   | { type: 'UI_SET_KINDLE_EMAIL'; email: string | null }
   | { type: 'UI_SET_EMAIL_TO_KINDLE'; enabled: boolean }
+  | { type: 'UI_SET_STYLE'; preset: string; customCss: string | null }
+  | { type: 'UI_SET_LINK_NOTES'; mode: LinkNotesMode }
+  | { type: 'UI_SET_IMAGE_OPTIONS'; maxDimension: number; grayscale: boolean; minSize: number; rasterizeSvg: boolean }
+  | { type: 'UI_SET_VOLUME_LIMITS'; maxChapters: number; maxMegabytes: number }
+  | { type: 'UI_SET_EXTRACTION_RULES'; rules: ExtractionRule[] }
+  | { type: 'UI_PREVIEW_EXTRACTION_RULE'; rule: ExtractionRule }
+  | { type: 'UI_SET_FILENAME_TEMPLATE'; template: string }
   | { type: 'UI_GET_SETTINGS' };
 
 export interface TestSuccessBase {
@@ -74,6 +175,8 @@ export interface TestSaveResponse extends TestSuccessBase {
   bytesBase64: string;
   filename: string;
   failures: Array<{ tab?: chrome.tabs.Tab; error: string }>;
+  missingImages: MissingImage[];
+  filteredImages: FilteredImage[];
   articleCount: number;
   assetsCount: number;
 }
@@ -91,6 +194,15 @@ export interface UiSettingsResponse extends TestSuccessBase {
   settings: Settings;
 }
 
+export interface UiRulePreviewResponse extends TestSuccessBase {
+  preview: {
+    url: string;
+    title: string;
+    byline: string | null;
+    html: string;
+  };
+}
+
 export type TestResponse =
   | TestSaveResponse
   | TestListTabsResponse
@@ -107,4 +219,9 @@ export interface UiBuildEpubResponse extends TestSuccessBase {
   filename?: string;
 }
 
-export type UiResponse = TestSuccessBase | TestErrorResponse | UiSettingsResponse | UiBuildEpubResponse;
+export type UiResponse =
+  | TestSuccessBase
+  | TestErrorResponse
+  | UiSettingsResponse
+  | UiBuildEpubResponse
+  | UiRulePreviewResponse;
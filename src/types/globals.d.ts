@@ -1,11 +1,20 @@
 export {};
 
 declare global {
+  type TabToEpubExtractionRule = {
+    domain: string;
+    contentSelector: string;
+    includeSelectors: string[];
+    excludeSelectors: string[];
+    titleSelector: string;
+    bylineSelector: string;
+  };
+
   type TestMessage =
     | { type: 'TEST_SET_MODE'; enabled: boolean }
     | { type: 'TEST_RESET_STATE' }
     | { type: 'TEST_LIST_TABS' }
-    | { type: 'TEST_SAVE_ACTIVE_TAB' }
+    | { type: 'TEST_SAVE_ACTIVE_TAB'; selection?: boolean }
     | { type: 'TEST_SAVE_TAB_IDS'; tabIds: number[] };
 
   type TestResponse =
@@ -15,6 +24,8 @@ declare global {
         bytesBase64: string;
         filename: string;
         failures: Array<{ tab?: chrome.tabs.Tab; error: string }>;
+        missingImages: Array<{ articleTitle: string; url: string; reason: string }>;
+        filteredImages: Array<{ url: string; reason: string }>;
         articleCount: number;
         assetsCount: number;
         warning?: string;
@@ -28,8 +39,16 @@ declare global {
     | { type: 'UI_CLEAR_DIRECTORY' }
     | { type: 'UI_SET_DEFAULT_DOWNLOADS'; enabled: boolean }
     | { type: 'UI_BUILD_EPUB'; tabIds: number[]; closeTabs?: boolean; emailToKindle?: boolean }
+    | { type: 'UI_APPEND_EPUB'; tabIds: number[]; filename: string; closeTabs?: boolean; emailToKindle?: boolean }
     | { type: 'UI_SET_KINDLE_EMAIL'; email: string | null }
     | { type: 'UI_SET_EMAIL_TO_KINDLE'; enabled: boolean }
+    | { type: 'UI_SET_STYLE'; preset: string; customCss: string | null }
+    | { type: 'UI_SET_LINK_NOTES'; mode: 'off' | 'chapter' | 'book' }
+    | { type: 'UI_SET_IMAGE_OPTIONS'; maxDimension: number; grayscale: boolean; minSize: number; rasterizeSvg: boolean }
+    | { type: 'UI_SET_VOLUME_LIMITS'; maxChapters: number; maxMegabytes: number }
+    | { type: 'UI_SET_EXTRACTION_RULES'; rules: TabToEpubExtractionRule[] }
+    | { type: 'UI_PREVIEW_EXTRACTION_RULE'; rule: TabToEpubExtractionRule }
+    | { type: 'UI_SET_FILENAME_TEMPLATE'; template: string }
     | { type: 'UI_GET_SETTINGS' };
 
   type UiResponse =
@@ -39,7 +58,28 @@ declare global {
         ok: true;
         warning?: string;
         tooLargeForEmail?: string[];
-        settings: { testMode: boolean; kindleEmail: string | null; useDefaultDownloads: boolean; emailToKindle: boolean };
+        settings: {
+          testMode: boolean;
+          kindleEmail: string | null;
+          useDefaultDownloads: boolean;
+          emailToKindle: boolean;
+          stylePreset: string;
+          customCss: string | null;
+          linkNotes: 'off' | 'chapter' | 'book';
+          maxImageDimension: number;
+          grayscaleImages: boolean;
+          minImageSize: number;
+          rasterizeSvg: boolean;
+          volumeMaxChapters: number;
+          volumeMaxBytes: number;
+          extractionRules: TabToEpubExtractionRule[];
+          filenameTemplate: string;
+        };
+      }
+    | {
+        ok: true;
+        warning?: string;
+        preview: { url: string; title: string; byline: string | null; html: string };
       }
     | {
         ok: true;
@@ -50,16 +90,27 @@ declare global {
         filename?: string;
       };
 
+  type TabToEpubExtractedArticle = {
+    title?: string;
+    byline?: string | null;
+    content?: string;
+    excerpt?: string;
+    siteName?: string;
+    length?: number;
+  };
+
   interface TabToEpubExtractor {
     id: string;
-    extract: (doc: Document) => {
-      title?: string;
-      byline?: string | null;
-      content?: string;
-      excerpt?: string;
-      siteName?: string;
-      length?: number;
-    } | null;
+    // Higher runs first; Readability registers at 0 as the catch-all.
+    priority: number;
+    matches: (url: URL, doc: Document) => boolean;
+    extract: (doc: Document) => TabToEpubExtractedArticle | null;
+  }
+
+  interface TabToEpubExtractorRegistry {
+    register: (extractor: TabToEpubExtractor) => void;
+    // The first matching extractor, by priority, that returns content.
+    extract: (doc: Document, url: URL) => { extractorId: string; article: TabToEpubExtractedArticle } | null;
   }
 
   interface TabToEpubTestApi {
@@ -67,7 +118,7 @@ declare global {
     sendUi: (message: UiMessage) => Promise<UiResponse>;
   }
 
-  var TabToEpubExtractor: TabToEpubExtractor | undefined;
+  var TabToEpubExtractors: TabToEpubExtractorRegistry | undefined;
 
   interface Window {
     TabToEpubTest?: TabToEpubTestApi;
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { buildEpub } from '../src/core/epub.js';
+import { parseEpub } from '../src/core/epub-parser.js';
+import { appendToBookInFolder, describeSeparatePdfs } from '../src/extension/append-book.js';
+import { assertValidEpub } from './helpers.js';
+
+// Just enough of FileSystemDirectoryHandle for readFile/writeFile.
+function memoryFolder(files: Map<string, Uint8Array>): FileSystemDirectoryHandle {
+  return {
+    async getFileHandle(name: string) {
+      return {
+        async getFile() {
+          const bytes = files.get(name);
+          if (!bytes) {
+            throw new Error(`${name} not found`);
+          }
+          return new Blob([bytes.slice().buffer]);
+        },
+        async createWritable() {
+          return {
+            async write(bytes: Uint8Array) {
+              files.set(name, bytes);
+            },
+            async close() {}
+          };
+        }
+      };
+    }
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+const options = { now: new Date('2026-10-20T08:00:00Z'), transcode: { maxDimension: 1600, grayscale: false } };
+const pdf = { filename: 'paper.pdf', mimeType: 'application/pdf', bytes: new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]) };
+
+{
+  const files = new Map([['reading-list.epub', buildEpub([{ title: 'First', content: '<p>One</p>', url: 'https://example.com/1' }]).bytes]]);
+  const result = await appendToBookInFolder(
+    memoryFolder(files),
+    'reading-list.epub',
+    {
+      articles: [{ tabId: 2, tabTitle: 'Second', title: 'Second', content: '<p>Two</p>', url: 'https://example.org/2' }],
+      assets: [],
+      missingImages: [{ articleTitle: 'Second', url: 'https://example.org/a.png', reason: 'HTTP 404' }],
+      filteredImages: [{ url: 'https://example.org/pixel.gif', reason: 'tracker' }]
+    },
+    [pdf],
+    options
+  );
+
+  assert.deepEqual(
+    result.artifacts.map((artifact) => artifact.filename),
+    ['reading-list.epub', 'paper.pdf']
+  );
+  assert.equal(files.get('paper.pdf'), pdf.bytes);
+  const bytes = files.get('reading-list.epub') as Uint8Array;
+  assert.equal(result.artifacts[0].bytes, bytes);
+  assertValidEpub(bytes);
+  const book = parseEpub(bytes);
+  assert.deepEqual(
+    book.chapters.map((chapter) => chapter.title),
+    ['First', 'Second']
+  );
+  assert.equal(book.metadata.modified, '2026-10-20T08:00:00Z');
+  // Without canvas support (node) the redrawn cover stays SVG.
+  assert.match(new TextDecoder().decode(book.files.get('OEBPS/images/cover.svg')), /2 articles/);
+  assert.equal(
+    result.warning,
+    '1 image(s) in 1 article(s) could not be embedded and were replaced with a link. Skipped 1 tracking pixel(s). ' +
+      '1 PDF tab(s) cannot be added to a book and were saved as separate files: paper.pdf.'
+  );
+}
+
+{
+  // Only PDF tabs: the book is left untouched.
+  const original = buildEpub([{ title: 'First', content: '<p>One</p>' }]).bytes;
+  const files = new Map([['reading-list.epub', original]]);
+  const result = await appendToBookInFolder(memoryFolder(files), 'reading-list.epub', null, [pdf], options);
+  assert.deepEqual(
+    result.artifacts.map((artifact) => artifact.filename),
+    ['paper.pdf']
+  );
+  assert.equal(files.get('reading-list.epub'), original);
+}
+
+{
+  assert.equal(describeSeparatePdfs([]), null);
+}
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { formatArticleDate, normalizeDate, readArticleMetadata } from '../src/core/article-metadata.js';
+import { applyArticleMetadata } from '../src/extension/article-metadata.js';
+
+{
+  assert.equal(normalizeDate('2020-05-14T08:30:00-04:00'), '2020-05-14T08:30:00-04:00');
+  assert.equal(normalizeDate('2020/5/4'), '2020-05-04');
+  assert.equal(normalizeDate('2020/05'), '2020-05');
+  assert.equal(normalizeDate('2020-13-01'), null);
+  assert.equal(normalizeDate('yesterday'), null);
+  assert.equal(formatArticleDate('2020-05-04T08:30:00Z'), '4 May 2020');
+  assert.equal(formatArticleDate('2020-05'), 'May 2020');
+  assert.equal(formatArticleDate('2020'), '2020');
+  assert.equal(formatArticleDate(null), null);
+}
+
+{
+  const metadata = readArticleMetadata(
+    {
+      jsonLd: [
+        '{ not json',
+        JSON.stringify({
+          '@context': 'https://schema.org',
+          '@graph': [
+            { '@type': 'WebSite', name: 'Example' },
+            {
+              '@type': ['NewsArticle'],
+              datePublished: '2020-05-14T08:30:00Z',
+              dateModified: '2020-05-15T10:00:00Z',
+              author: [{ '@type': 'Person', name: 'By Jane Doe' }, 'https://example.com/staff/joe', 'Joe Bloggs'],
+              articleSection: 'Science',
+              keywords: 'space, rockets, Space',
+              image: { url: '/lead.jpg' }
+            }
+          ]
+        })
+      ],
+      meta: [
+        { name: 'citation_author', content: 'Ignored, Author' },
+        { name: 'og:url', content: 'https://example.com/story' }
+      ],
+      canonical: null
+    },
+    'https://example.com/story?utm_source=feed'
+  );
+  assert.deepEqual(metadata, {
+    publishedTime: '2020-05-14T08:30:00Z',
+    modifiedTime: '2020-05-15T10:00:00Z',
+    authors: ['Jane Doe', 'Joe Bloggs'],
+    section: 'Science',
+    tags: ['space', 'rockets'],
+    canonicalUrl: 'https://example.com/story',
+    leadImage: 'https://example.com/lead.jpg'
+  });
+}
+
+{
+  const metadata = readArticleMetadata(
+    {
+      jsonLd: [],
+      meta: [
+        { name: 'citation_author', content: 'Curie, Marie' },
+        { name: 'citation_author', content: 'Pierre Curie' },
+        { name: 'citation_publication_date', content: '1898/07' },
+        { name: 'citation_keywords', content: 'polonium; radium' },
+        { name: 'article:published_time', content: '2001-01-01' },
+        { name: 'og:image', content: 'javascript:alert(1)' }
+      ],
+      canonical: '/papers/radium'
+    },
+    'https://journal.example/view?id=1'
+  );
+  assert.equal(metadata.publishedTime, '1898-07');
+  assert.deepEqual(metadata.authors, ['Curie, Marie', 'Pierre Curie']);
+  assert.deepEqual(metadata.tags, ['polonium', 'radium']);
+  assert.equal(metadata.canonicalUrl, 'https://journal.example/papers/radium');
+  assert.equal(metadata.leadImage, null);
+}
+
+{
+  const metadata = readArticleMetadata({
+    jsonLd: [],
+    meta: [
+      { name: 'article:section', content: 'Opinion' },
+      { name: 'article:tag', content: 'Politics' },
+      { name: 'twitter:label1', content: 'Written by' },
+      { name: 'twitter:data1', content: 'Sam Writer' },
+      { name: 'twitter:label2', content: 'Est. reading time' },
+      { name: 'twitter:data2', content: '4 minutes' }
+    ],
+    canonical: null
+  });
+  assert.deepEqual(metadata.authors, ['Sam Writer']);
+  assert.equal(metadata.section, 'Opinion');
+  assert.deepEqual(metadata.tags, ['Politics']);
+  assert.equal(metadata.publishedTime, null);
+}
+
+{
+  const sources = { jsonLd: [], meta: [{ name: 'og:image', content: 'https://cdn.example.com/lead.jpg?w=1200' }], canonical: null };
+  const withLead = applyArticleMetadata({
+    url: 'https://example.com/story',
+    content: '<p>Body</p><img src="tabstoepub-image:1" alt=""/>',
+    images: [{ token: 'tabstoepub-image:1', src: 'https://example.com/inline.png' }],
+    metadataSources: sources
+  });
+  assert.equal('metadataSources' in withLead, false);
+  assert.equal(withLead.leadImage, 'https://cdn.example.com/lead.jpg?w=1200');
+  assert.ok(withLead.content?.startsWith('<figure class="lead-image"><img src="tabstoepub-image:2" alt=""/></figure>\n<p>Body</p>'));
+  assert.deepEqual(withLead.images?.[0], { token: 'tabstoepub-image:2', src: 'https://cdn.example.com/lead.jpg?w=1200' });
+
+  // The same picture at another size is already in the body.
+  const shown = applyArticleMetadata({
+    content: '<img src="tabstoepub-image:1" alt=""/>',
+    images: [{ token: 'tabstoepub-image:1', src: 'https://cdn.example.com/lead.jpg?w=600' }],
+    metadataSources: sources
+  });
+  assert.equal(shown.content, '<img src="tabstoepub-image:1" alt=""/>');
+  assert.equal(shown.images?.length, 1);
+
+  // A body that opens with its own picture, served from another resize host, gets no second one.
+  const opensWithPicture = applyArticleMetadata({
+    content: '<div class="hero">\n  <figure><img src="tabstoepub-image:1" alt=""/></figure></div><p>Body</p>',
+    images: [{ token: 'tabstoepub-image:1', src: 'https://images.example-cdn.net/resize/lead.jpg' }],
+    metadataSources: sources
+  });
+  assert.equal(opensWithPicture.content, '<div class="hero">\n  <figure><img src="tabstoepub-image:1" alt=""/></figure></div><p>Body</p>');
+  assert.equal(opensWithPicture.images?.length, 1);
+
+  const selected = applyArticleMetadata({ content: '<p>Passage</p>', images: [], metadataSources: sources }, { leadImage: false });
+  assert.equal(selected.content, '<p>Passage</p>');
+  assert.equal(selected.leadImage, 'https://cdn.example.com/lead.jpg?w=1200');
+}
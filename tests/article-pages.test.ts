@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { joinArticlePages, pageKey } from '../src/extension/article-pages.js';
+
+{
+  assert.equal(pageKey('https://example.com/story?page=2#comments'), 'https://example.com/story?page=2');
+  assert.equal(pageKey('not a url'), 'not a url');
+}
+
+{
+  const single = { title: 'One', content: '<p>Only</p>', images: [] };
+  assert.equal(joinArticlePages([single]), single);
+}
+
+{
+  const joined = joinArticlePages([
+    {
+      title: 'Story',
+      byline: 'Ann',
+      url: 'https://example.com/story',
+      content: '<p>Page one</p><img src="tabstoepub-image:1" alt="a"/><img src="tabstoepub-image:2" alt="b"/>',
+      images: [
+        { token: 'tabstoepub-image:1', src: 'https://example.com/a.png' },
+        { token: 'tabstoepub-image:2', src: 'https://example.com/b.png', width: 640, height: 480 }
+      ]
+    },
+    {
+      title: 'Story - page 2',
+      url: 'https://example.com/story?page=2',
+      content: '<p>Page two</p><img src="tabstoepub-image:1" alt="c"/>',
+      images: [{ token: 'tabstoepub-image:1', src: 'https://example.com/c.png' }]
+    }
+  ]);
+  assert.equal(joined.title, 'Story');
+  assert.equal(joined.byline, 'Ann');
+  assert.equal(joined.url, 'https://example.com/story');
+  assert.equal(
+    joined.content,
+    '<p>Page one</p><img src="tabstoepub-image:1" alt="a"/><img src="tabstoepub-image:2" alt="b"/>\n' +
+      '<p>Page two</p><img src="tabstoepub-image:3" alt="c"/>'
+  );
+  assert.deepEqual(joined.images, [
+    { token: 'tabstoepub-image:1', src: 'https://example.com/a.png' },
+    { token: 'tabstoepub-image:2', src: 'https://example.com/b.png', width: 640, height: 480 },
+    { token: 'tabstoepub-image:3', src: 'https://example.com/c.png' }
+  ]);
+}
+
+{
+  // Ten images on the first page must not collide with token 1 of the second.
+  const tokens = Array.from({ length: 10 }, (_, index) => `tabstoepub-image:${index + 1}`);
+  const joined = joinArticlePages([
+    {
+      content: tokens.map((token) => `<img src="${token}"/>`).join(''),
+      images: tokens.map((token, index) => ({ token, src: `https://example.com/${index}.png` }))
+    },
+    { content: '<img src="tabstoepub-image:1"/>', images: [{ token: 'tabstoepub-image:1', src: 'https://example.com/last.png' }] }
+  ]);
+  assert.equal(joined.images?.length, 11);
+  assert.equal(joined.images?.[10].token, 'tabstoepub-image:11');
+  assert.ok(joined.content?.endsWith('\n<img src="tabstoepub-image:11"/>'));
+}
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { buildCoverSvg, collectSourceDomains, wrapText } from '../src/core/cover.js';
+
+{
+  const domains = collectSourceDomains([
+    { url: 'https://www.nytimes.com/a' },
+    { url: 'https://nytimes.com/b' },
+    { url: 'https://en.wikipedia.org/wiki/EPUB' },
+    { url: 'not a url' },
+    {}
+  ]);
+  assert.deepEqual(domains, ['nytimes.com', 'en.wikipedia.org']);
+}
+
+{
+  const lines = wrapText('The quick brown fox jumps over the lazy dog', 10, 2);
+  assert.equal(lines.length, 2);
+  assert.equal(lines[0], 'The quick');
+  assert.match(lines[1], /…$/);
+  assert.ok(lines.every((line) => line.length <= 10));
+}
+
+{
+  const svg = buildCoverSvg({
+    title: 'Saved Tabs <Weekly> & More',
+    domains: ['example.com', 'example.org'],
+    date: new Date(2026, 9, 19),
+    articleCount: 3
+  });
+  assert.match(svg, /^<\?xml/);
+  assert.match(svg, /<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+  assert.match(svg, />&lt;Weekly&gt; &amp; More</);
+  assert.match(svg, />example\.com</);
+  assert.match(svg, />example\.org</);
+  assert.match(svg, /October 19, 2026 · 3 articles/);
+}
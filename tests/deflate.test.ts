@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { inflateRawSync } from 'node:zlib';
+import { deflateRaw } from '../src/core/deflate.js';
+
+function roundTrip(data: Uint8Array, level?: number): Uint8Array {
+  return new Uint8Array(inflateRawSync(deflateRaw(data, level)));
+}
+
+{
+  assert.deepEqual(roundTrip(new Uint8Array(0)), new Uint8Array(0));
+  assert.deepEqual(roundTrip(new Uint8Array([42])), new Uint8Array([42]));
+  const run = new Uint8Array(70000).fill(0x41);
+  assert.deepEqual(roundTrip(run), run);
+  assert.ok(deflateRaw(run).length < 200);
+}
+
+{
+  let seed = 3;
+  const next = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed >>> 8;
+  };
+  const mixed = new Uint8Array(120000);
+  for (let i = 0; i < mixed.length; i += 1) {
+    mixed[i] = i > 64 && next() % 3 === 0 ? mixed[i - 1 - (next() % 64)] : next() % 40;
+  }
+  for (const level of [1, 4, 6, 9]) {
+    assert.deepEqual(roundTrip(mixed, level), mixed, `level ${level} should round-trip`);
+  }
+}
+
+{
+  const xhtml = new TextEncoder().encode(
+    Array.from({ length: 400 }, (_, i) => `<p id="p-${i}">Paragraph ${i} of a long article &amp; more.</p>`).join('\n')
+  );
+  for (const level of [1, 9]) {
+    const compressed = deflateRaw(xhtml, level);
+    assert.ok(compressed.length < xhtml.length / 5);
+    assert.deepEqual(new Uint8Array(inflateRawSync(compressed)), xhtml);
+  }
+}
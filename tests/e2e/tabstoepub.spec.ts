@@ -4,11 +4,12 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { readLocalFiles, extractText } from '../helpers.js';
+import { extractText } from '../helpers.js';
+import { readZip } from '../../src/core/zip.js';
 import type { TestMessage, TestResponse, UiMessage, UiResponse } from '../../src/extension/types.js';
 
 const PNG_BASE64 =
-  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO4B9pUAAAAASUVORK5CYII=';
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAAAAACPAi4CAAABc0lEQVR4nKXOgUYDAABF0WtmZjLJJJkkyczMZGZmkmSSJMnMzMwkM5kkM5MkSZIkSZIkSZIkSZIkSZIkSZIkSZIkSZL0Ee98wQGjuaDQVmIvr3S4PF5/sLa+oamlLRJLtKc6u3pyvf2Dw6Pjk9Oz84vLq+ub27v7h8en55fXt/ePz6/vn9+/GEwWa1FxaVlFldNd7QvU1IUam1vD0XiyI53pzub7BoZGxiamZuYWllbWNrZ29g6OTs4urm7uHp5e3j6+fv7kAGLAgBgwIgZMiAEzYsCCGChADFgRA4WIgSLEgA0xUIwYKEEMlCIG7IiBMsRAOWKgAjFQiRioQgw4EANOxIALMeBGDHgQA9WIAS9iwIcY8CMGAoiBIGKgBjFQixioQwzUIwZCiIEGxEAjYqAJMdCMGGhBDLQiBtoQA2HEQAQxEEUMxBADccRAAjGQRAy0IwY6EAMpxEAaMdCJGMggBroQA92IgR7EQBYxkEMM5P8Bz5PwalPgElUAAAAASUVORK5CYII=';
 const PNG_BYTES = Buffer.from(PNG_BASE64, 'base64');
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -171,9 +172,9 @@ async function sendTestMessage<T extends TestResponse>(page: Page, message: Test
 
 function decodeZip(result: TestSaveResult) {
   const bytes = new Uint8Array(Buffer.from(result.bytesBase64, 'base64'));
-  const files = readLocalFiles(bytes);
+  const files = readZip(bytes);
   const text = (data: Uint8Array) => new TextDecoder().decode(data);
-  const fileMap = new Map(files.map((file) => [file.name, text(file.data)]));
+  const fileMap = new Map(files.map((file) => [file.path, text(file.data)]));
   return { files, fileMap };
 }
 
@@ -212,6 +213,56 @@ async function setupRoutes(context: BrowserContext): Promise<void> {
     })
   );
 
+  await context.route(`${baseUrl}/lazy.html`, (route) =>
+    route.fulfill({
+      status: 200,
+      contentType: 'text/html',
+      body: `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Lazy Images</title>
+  </head>
+  <body>
+    <article>
+      <h1>Lazy Images</h1>
+      <p>The real images only appear once the page scrolls.</p>
+      <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="${baseUrl}/image.png" alt="Lazy" />
+      <picture>
+        <source srcset="${baseUrl}/small.png 320w, ${baseUrl}/image.png 1600w" />
+        <img src="${baseUrl}/spacer.gif" alt="Responsive" />
+      </picture>
+    </article>
+  </body>
+</html>`
+    })
+  );
+
+  await context.route(`${baseUrl}/figure.html`, (route) =>
+    route.fulfill({
+      status: 200,
+      contentType: 'text/html',
+      body: `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Figures</title>
+  </head>
+  <body>
+    <article>
+      <h1>Figures</h1>
+      <p>Quarterly revenue grew steadily through the year, as the chart below shows in detail.</p>
+      <div class="wp-caption">
+        <a href="${baseUrl}/image.png"><img src="${baseUrl}/image.png" alt="Revenue chart" /></a>
+        <p class="wp-caption-text">Revenue by quarter, in millions of dollars.</p>
+      </div>
+      <p>Costs stayed flat over the same period, which left margins wider than the year before.</p>
+    </article>
+  </body>
+</html>`
+    })
+  );
+
   await context.route(`${baseUrl}/article2.html`, (route) =>
     route.fulfill({
       status: 200,
@@ -331,7 +382,7 @@ test('embeds images from article content', async () => {
     expect(result.assetsCount).toBeGreaterThan(0);
 
     const { files, fileMap } = decodeZip(result);
-    expect(files.some((file) => file.name === 'OEBPS/images/image-1.png')).toBeTruthy();
+    expect(files.some((file) => file.path === 'OEBPS/images/image-1.png')).toBeTruthy();
 
     const section = fileMap.get('OEBPS/section-1.xhtml');
     expect(section).toContain('images/image-1.png');
@@ -340,6 +391,204 @@ test('embeds images from article content', async () => {
   }
 });
 
+test('resolves lazy-loaded and responsive images', async () => {
+  const { context, testPage } = await launchWithExtension();
+
+  try {
+    await setupRoutes(context);
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/lazy.html`, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB' });
+
+    expect(result.ok).toBeTruthy();
+    const { fileMap } = decodeZip(result);
+    const section = fileMap.get('OEBPS/section-1.xhtml') || '';
+    expect(section).toContain('images/image-1.png');
+    expect(section).not.toContain('<picture');
+    expect(section).not.toContain('image-2');
+  } finally {
+    await context.close();
+  }
+});
+
+test('keeps image captions in figures', async () => {
+  const { context, testPage } = await launchWithExtension();
+
+  try {
+    await setupRoutes(context);
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/figure.html`, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB' });
+
+    expect(result.ok).toBeTruthy();
+    const { fileMap } = decodeZip(result);
+    const section = fileMap.get('OEBPS/section-1.xhtml') || '';
+    expect(section).toMatch(/<figure[^>]*>[\s\S]*images\/image-1\.png[\s\S]*<figcaption[^>]*>Revenue by quarter, in millions of dollars\.<\/figcaption>[\s\S]*<\/figure>/);
+  } finally {
+    await context.close();
+  }
+});
+
+test('stitches multi-page articles into one chapter', async () => {
+  const { context, testPage } = await launchWithExtension();
+  const pageText = [
+    'The first page sets out the question and the method used to answer it.',
+    'The second page walks through the measurements taken over the summer.',
+    'The third page draws conclusions and lists what remains to be studied.'
+  ];
+
+  try {
+    await context.route(`${baseUrl}/paged.html*`, (route) => {
+      const page = Number(new URL(route.request().url()).searchParams.get('page') || '1');
+      // Page 2 links on through numbered pagination; page 3 points back at page 1.
+      const head = page === 1 ? `<link rel="next" href="/paged.html?page=2" />` : page === 3 ? `<link rel="next" href="/paged.html" />` : '';
+      const pager = page === 2 ? `<nav class="pagination"><a href="/paged.html">1</a> <a href="/paged.html?page=3">3</a></nav>` : '';
+      return route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Paged Article</title>
+    ${head}
+  </head>
+  <body>
+    <article>
+      <h1>Paged Article</h1>
+      <p>${pageText[page - 1]} ${'It is long enough for the extractor to keep. '.repeat(4)}</p>
+    </article>
+    ${pager}
+  </body>
+</html>`
+      });
+    });
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/paged.html`, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB' });
+
+    expect(result.ok).toBeTruthy();
+    expect(result.articleCount).toBe(1);
+    const { fileMap } = decodeZip(result);
+    const text = getSectionText(fileMap, 1);
+    const positions = pageText.map((line) => text.indexOf(line));
+    expect(positions.every((position) => position >= 0)).toBe(true);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    expect(text.split(pageText[0]).length).toBe(2);
+  } finally {
+    await context.close();
+  }
+});
+
+test('uses the site adapter for Wikipedia articles', async () => {
+  const { context, testPage } = await launchWithExtension();
+  const wikiUrl = 'https://en.wikipedia.org/wiki/Lighthouse';
+
+  try {
+    await context.route(wikiUrl, (route) =>
+      route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Lighthouse - Wikipedia</title>
+  </head>
+  <body>
+    <h1 id="firstHeading">Lighthouse</h1>
+    <div id="mw-content-text">
+      <div class="mw-parser-output">
+        <table class="ambox"><tr><td>This article needs additional citations.</td></tr></table>
+        <p>A lighthouse is a tower designed to emit light from a system of lamps and lenses.</p>
+        <h2>History<span class="mw-editsection">[edit]</span></h2>
+        <p>Before lighthouses were built, fires were lit on hilltops to guide ships at night.</p>
+        <div class="navbox">Navigation templates</div>
+      </div>
+    </div>
+  </body>
+</html>`
+      })
+    );
+    const page = await context.newPage();
+    await page.goto(wikiUrl, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB' });
+
+    expect(result.ok).toBeTruthy();
+    const { fileMap } = decodeZip(result);
+    const section = fileMap.get('OEBPS/section-1.xhtml') || '';
+    expect(section).toContain('Lighthouse');
+    expect(section).toContain('fires were lit on hilltops');
+    expect(section).not.toContain('[edit]');
+    expect(section).not.toContain('Navigation templates');
+    expect(section).not.toContain('additional citations');
+  } finally {
+    await context.close();
+  }
+});
+
+test('saves only the selected passage', async () => {
+  const { context, testPage } = await launchWithExtension();
+
+  try {
+    await context.route(`${baseUrl}/selection.html`, (route) =>
+      route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Long Thread</title>
+  </head>
+  <body>
+    <article>
+      <h1>Long Thread</h1>
+      <p>An opening paragraph that was not selected.</p>
+      <div id="comment">
+        <p>The one comment worth keeping, with <a href="https://example.com/ref">a reference</a>.</p>
+        <p>It continues here.<script>window.bad = true;</script></p>
+      </div>
+      <p>A closing paragraph that was not selected.</p>
+    </article>
+  </body>
+</html>`
+      })
+    );
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/selection.html`, { waitUntil: 'load' });
+    await page.evaluate(() => {
+      const range = document.createRange();
+      range.selectNodeContents(document.getElementById('comment') as HTMLElement);
+      window.getSelection()?.addRange(range);
+    });
+    await page.bringToFront();
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB', selection: true });
+
+    expect(result.ok).toBeTruthy();
+    const { fileMap } = decodeZip(result);
+    const section = fileMap.get('OEBPS/section-1.xhtml') || '';
+    expect(section).toContain('<h1>Long Thread</h1>');
+    expect(section).toContain('The one comment worth keeping');
+    expect(section).toContain('<a href="https://example.com/ref">a reference</a>');
+    expect(section).toContain(`Source: <a href="${baseUrl}/selection.html">`);
+    expect(section).not.toContain('opening paragraph');
+    expect(section).not.toContain('closing paragraph');
+    expect(section).not.toContain('<script');
+  } finally {
+    await context.close();
+  }
+});
+
 test('creates a TOC for multiple tabs', async () => {
   const { context, testPage } = await launchWithExtension();
 
@@ -391,7 +640,7 @@ test('extracts from complex layouts and strips boilerplate', async () => {
     expect(result.assetsCount).toBeGreaterThan(0);
 
     const { files, fileMap } = decodeZip(result);
-    expect(files.some((file) => file.name === 'OEBPS/images/image-1.png')).toBeTruthy();
+    expect(files.some((file) => file.path === 'OEBPS/images/image-1.png')).toBeTruthy();
 
     const sectionText = getSectionText(fileMap, 1);
     expect(sectionText).toContain(COMPLEX_ARTICLES[0].lead);
@@ -4,8 +4,16 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { readLocalFiles, extractText } from '../helpers.js';
-import type { TestMessage, TestResponse, UiMessage, UiResponse, UiBuildEpubResponse } from '../../src/extension/types.js';
+import { extractText } from '../helpers.js';
+import { readZip } from '../../src/core/zip.js';
+import type {
+  TestMessage,
+  TestResponse,
+  TestSaveResponse,
+  UiMessage,
+  UiResponse,
+  UiBuildEpubResponse
+} from '../../src/extension/types.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const extensionPath = path.resolve(__dirname, '../../dist');
@@ -123,9 +131,9 @@ async function sendUiMessage<T extends UiResponse>(page: Page, message: UiMessag
 
 function decodeZip(base64: string) {
   const bytes = new Uint8Array(Buffer.from(base64, 'base64'));
-  const files = readLocalFiles(bytes);
+  const files = readZip(bytes);
   const text = (data: Uint8Array) => new TextDecoder().decode(data);
-  const fileMap = new Map(files.map((file) => [file.name, text(file.data)]));
+  const fileMap = new Map(files.map((file) => [file.path, text(file.data)]));
   return { files, fileMap };
 }
 
@@ -291,6 +299,119 @@ test('UI_BUILD_EPUB returns base64 epub and filename', async () => {
   }
 });
 
+test('UI_SET_EXTRACTION_RULES applies per-domain rules and previews them', async () => {
+  const { context, testPage } = await launchWithExtension();
+
+  try {
+    await context.route(`${baseUrl}/rules-test.html`, (route) =>
+      route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html>
+<html>
+  <head><meta charset="utf-8" /><title>Page Title</title></head>
+  <body>
+    <div class="story">
+      <h2 class="headline">Rule Headline</h2>
+      <span class="writer">Ada Writer</span>
+      <p>The body paragraph that the rule should keep in the chapter.</p>
+      <p class="promo">Subscribe to our newsletter for more.</p>
+    </div>
+    <div class="sidebar-note">A side note the rule explicitly includes.</div>
+  </body>
+</html>`
+      })
+    );
+
+    const invalid = await sendUiMessage(testPage, {
+      type: 'UI_SET_EXTRACTION_RULES',
+      rules: [{ domain: '', contentSelector: '.story', includeSelectors: [], excludeSelectors: [], titleSelector: '', bylineSelector: '' }]
+    });
+    expect(invalid.ok).toBe(false);
+
+    const rule = {
+      domain: 'example.test',
+      contentSelector: '.story',
+      includeSelectors: ['.sidebar-note'],
+      excludeSelectors: ['.promo'],
+      titleSelector: '.headline',
+      bylineSelector: '.writer'
+    };
+    const saved = await sendUiMessage(testPage, { type: 'UI_SET_EXTRACTION_RULES', rules: [rule] });
+    expect(saved.ok).toBe(true);
+    const settings = await sendUiMessage(testPage, { type: 'UI_GET_SETTINGS' });
+    expect('settings' in settings && settings.settings.extractionRules).toEqual([rule]);
+
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/rules-test.html`, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const preview = await sendUiMessage(testPage, { type: 'UI_PREVIEW_EXTRACTION_RULE', rule });
+    expect(preview.ok).toBe(true);
+    if ('preview' in preview) {
+      expect(preview.preview.title).toBe('Rule Headline');
+      expect(preview.preview.byline).toBe('Ada Writer');
+      expect(preview.preview.html).not.toContain('Subscribe to our newsletter');
+    }
+
+    const result = await sendTestMessage<TestSaveResponse>(testPage, { type: 'TEST_SAVE_ACTIVE_TAB' });
+    const { fileMap } = decodeZip(result.bytesBase64);
+    const sectionText = extractText(fileMap.get('OEBPS/section-1.xhtml') || '');
+    expect(sectionText).toContain('Rule Headline');
+    expect(sectionText).toContain('The body paragraph');
+    expect(sectionText).toContain('A side note the rule explicitly includes');
+    expect(sectionText).not.toContain('Subscribe to our newsletter');
+  } finally {
+    await context.close();
+  }
+});
+
+test('UI_BUILD_EPUB reports skipped tracking pixels in its warning', async () => {
+  const { context, testPage } = await launchWithExtension();
+
+  try {
+    await context.route(`${baseUrl}/pixel.gif`, (route) =>
+      route.fulfill({ status: 200, contentType: 'image/gif', body: Buffer.from('R0lGODlhAQABAAAAACw=', 'base64') })
+    );
+    await context.route(`${baseUrl}/tracked.html`, (route) =>
+      route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html>
+<html>
+  <head><meta charset="utf-8" /><title>Tracked Article</title></head>
+  <body>
+    <article>
+      <h1>Tracked Article</h1>
+      <p>Content with a tracking pixel. <img src="${baseUrl}/pixel.gif" alt="" /></p>
+    </article>
+  </body>
+</html>`
+      })
+    );
+
+    const page = await context.newPage();
+    await page.goto(`${baseUrl}/tracked.html`, { waitUntil: 'load' });
+    await page.bringToFront();
+
+    const list = await sendTestMessage<{ ok: boolean; tabs: Array<{ id?: number; url?: string }> }>(testPage, {
+      type: 'TEST_LIST_TABS'
+    });
+    const tab = list.tabs.find((t) => t.url === `${baseUrl}/tracked.html`);
+    expect(tab?.id).toBeDefined();
+
+    const result = await sendUiMessage<UiBuildEpubResponse>(testPage, {
+      type: 'UI_BUILD_EPUB',
+      tabIds: [tab!.id!]
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.warning).toContain('Skipped 1 tracking pixel(s).');
+  } finally {
+    await context.close();
+  }
+});
+
 test('UI_BUILD_EPUB returns a PDF file for PDF tabs', async () => {
   const { context, testPage } = await launchWithExtension();
 
@@ -1,5 +1,10 @@
 import assert from 'node:assert/strict';
-import { applyTooLargeEmailPrefix, emailArtifactsToKindleCollectTooLarge } from '../src/extension/email-artifacts.js';
+import { buildEpub } from '../src/core/epub.js';
+import {
+  applyTooLargeEmailPrefix,
+  emailArtifactsToKindleCollectTooLarge,
+  emailValidArtifactsToKindle
+} from '../src/extension/email-artifacts.js';
 
 function artifact(filename: string, mimeType: string, size: number) {
   return {
@@ -58,3 +63,27 @@ function artifact(filename: string, mimeType: string, size: number) {
     /Token exchange failed/
   );
 }
+
+{
+  // The caller's artifacts are renamed even though an invalid EPUB was filtered out before sending.
+  const { bytes } = buildEpub([{ title: 'Big', content: '<p>Big</p>' }], { title: 'Big', cover: false });
+  const artifacts = [
+    artifact('broken.epub', 'application/epub+zip', 10),
+    { filename: 'big.epub', mimeType: 'application/epub+zip', bytes },
+    artifact('paper.pdf', 'application/pdf', 1024)
+  ];
+  const sent: string[] = [];
+  const result = await emailValidArtifactsToKindle(artifacts, 'kindle@example.com', async (attachments) => {
+    sent.push(...attachments.map((entry) => entry.filename));
+    if (attachments.some((entry) => entry.filename === 'big.epub')) {
+      throw new Error('Attachments are too large to send via Gmail (30.0 MB total).');
+    }
+  });
+  assert.deepEqual(sent, ['big.epub', 'paper.pdf']);
+  assert.deepEqual(result.tooLargeForEmail, ['TOO LARGE FOR EMAIL big.epub']);
+  assert.deepEqual(
+    artifacts.map((entry) => entry.filename),
+    ['broken.epub', 'TOO LARGE FOR EMAIL big.epub', 'paper.pdf']
+  );
+  assert.match(result.warning || '', /^Some files are too large .* Not emailed because the EPUB failed validation: broken\.epub/);
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { checkXml } from '../src/core/epub-validator.js';
+import { convertLinksToNotes, renderLinkNotes } from '../src/core/endnotes.js';
+import { sanitizeXhtml } from '../src/core/xhtml.js';
+
+{
+  const content = sanitizeXhtml(
+    '<p>See <a href="https://example.com/a?x=1&y=2">the <b>docs</b></a>, <a href="#local">here</a>, ' +
+      '<a id="ref" href="http://example.org/">example.org</a> and <a href="https://example.com/a?x=1&y=2">again</a>.</p>'
+  );
+  const result = convertLinksToNotes(content, { firstNumber: 1, notesHref: '' });
+  assert.equal(
+    result.content,
+    '<p>See the <b>docs</b><sup><a class="noteref" epub:type="noteref" href="#linknote-1" id="linkref-1">1</a></sup>, ' +
+      '<a href="#local">here</a>, <span id="ref">example.org</span><sup><a class="noteref" epub:type="noteref" href="#linknote-2" id="linkref-2">2</a></sup> ' +
+      'and again<sup><a class="noteref" epub:type="noteref" href="#linknote-1">1</a></sup>.</p>'
+  );
+  assert.deepEqual(result.notes, [
+    { number: 1, url: 'https://example.com/a?x=1&y=2', label: 'the docs' },
+    { number: 2, url: 'http://example.org/', label: 'example.org' }
+  ]);
+
+  const section = renderLinkNotes(result.notes.map((note) => ({ ...note, backHref: '' })), 'footnote');
+  assert.match(section, /<section class="link-notes" epub:type="footnotes">/);
+  assert.match(
+    section,
+    /<li id="linknote-1" epub:type="footnote">the docs: <a href="https:\/\/example\.com\/a\?x=1&amp;y=2">https:\/\/example\.com\/a\?x=1&amp;y=2<\/a> <a class="noteback" href="#linkref-1">/
+  );
+  assert.match(section, /<li id="linknote-2" epub:type="footnote"><a href="http:\/\/example\.org\/">/);
+  assert.deepEqual(checkXml(`<body xmlns:epub="http://www.idpf.org/2007/ops">${result.content}${section}</body>`), []);
+}
+
+{
+  const nested = convertLinksToNotes('<a href="https://a.test/">out <a href="https://b.test/">in</a></a>', {
+    firstNumber: 4,
+    notesHref: 'links.xhtml'
+  });
+  assert.equal(nested.notes.length, 1);
+  assert.equal(nested.notes[0].number, 4);
+  assert.match(nested.content, /href="links\.xhtml#linknote-4"/);
+  assert.deepEqual(checkXml(`<p xmlns:epub="http://www.idpf.org/2007/ops">${nested.content}</p>`), []);
+
+  const later = renderLinkNotes([{ ...nested.notes[0], backHref: 'section-2.xhtml' }], 'endnote');
+  assert.match(later, /<ol start="4">/);
+  assert.match(later, /href="section-2\.xhtml#linkref-4"/);
+}
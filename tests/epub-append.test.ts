@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { appendToEpub, appendedCover, buildEpub } from '../src/core/epub.js';
+import { parseEpub } from '../src/core/epub-parser.js';
+import { assertValidEpub } from './helpers.js';
+
+const textDecoder = new TextDecoder();
+
+const original = buildEpub(
+  [
+    { title: 'First', content: '<h2>Intro</h2><p>Hello <img src="images/image-1.png" alt=""/></p>', url: 'https://example.com/1' },
+    { title: 'Second', content: '<p>World</p>', url: 'https://example.org/2', byline: 'Grace Hopper' }
+  ],
+  {
+    title: 'Reading List',
+    identifier: 'fixed-id',
+    modified: new Date('2026-10-19T12:00:00Z'),
+    assets: [{ path: 'OEBPS/images/image-1.png', href: 'images/image-1.png', mediaType: 'image/png', data: new Uint8Array([1]) }]
+  }
+);
+
+const appended = appendToEpub(
+  original.bytes,
+  [{ title: 'Third', byline: 'Alan Turing', content: '<h2>Later</h2><p>More <img src="images/image-1.png" alt=""/></p>', url: 'https://news.example.net/3' }],
+  {
+    filename: 'reading-list.epub',
+    modified: new Date('2026-10-20T08:00:00Z'),
+    assets: [{ path: 'OEBPS/images/image-1.png', href: 'images/image-1.png', mediaType: 'image/png', data: new Uint8Array([2]) }]
+  }
+);
+assert.equal(appended.filename, 'reading-list.epub');
+assertValidEpub(original.bytes);
+assertValidEpub(appended.bytes);
+
+const parsed = parseEpub(appended.bytes);
+assert.equal(parsed.metadata.identifier, 'urn:uuid:fixed-id');
+assert.equal(parsed.metadata.title, 'Reading List');
+assert.equal(parsed.metadata.modified, '2026-10-20T08:00:00Z');
+assert.deepEqual(parsed.metadata.creators, ['Grace Hopper', 'Alan Turing']);
+assert.deepEqual(parsed.metadata.subjects, ['example.com', 'example.org', 'news.example.net']);
+assert.deepEqual(
+  parsed.spine.map((item) => item.idref),
+  ['item-1', 'item-2', 'item-3']
+);
+assert.deepEqual(
+  parsed.chapters.map((chapter) => chapter.title),
+  ['First', 'Second', 'Third']
+);
+assert.equal(parsed.chapters[2].path, 'OEBPS/section-3.xhtml');
+
+// The colliding image is renamed and the new chapter points at the renamed file.
+assert.deepEqual(Array.from(parsed.files.get('OEBPS/images/image-1.png') || []), [1]);
+assert.deepEqual(Array.from(parsed.files.get('OEBPS/images/image-2.png') || []), [2]);
+assert.match(parsed.chapters[2].xhtml, /src="images\/image-2\.png"/);
+assert.match(parsed.chapters[0].xhtml, /src="images\/image-1\.png"/);
+assert.equal(new Set(parsed.manifest.map((item) => item.id)).size, parsed.manifest.length);
+
+const nav = textDecoder.decode(parsed.files.get('OEBPS/nav.xhtml'));
+assert.match(nav, /section-1\.xhtml#[^"]+">Intro</);
+assert.match(nav, /section-3\.xhtml">Third</);
+assert.match(nav, /section-3\.xhtml#[^"]+">Later</);
+const ncx = textDecoder.decode(parsed.files.get('OEBPS/toc.ncx'));
+assert.match(ncx, /playOrder="5"/);
+assert.match(ncx, /content="urn:uuid:fixed-id"/);
+
+const cover = textDecoder.decode(parsed.files.get('OEBPS/images/cover.svg'));
+assert.match(cover, /news\.example\.net/);
+assert.match(cover, /3 articles/);
+
+{
+  const custom = buildEpub([{ title: 'Only', content: '<p>One</p>' }], {
+    cover: { data: new Uint8Array([9, 9]), mediaType: 'image/png' }
+  });
+  const nextBytes = appendToEpub(custom.bytes, [{ title: 'Two', content: '<p>Two</p>' }]).bytes;
+  assertValidEpub(nextBytes);
+  const next = parseEpub(nextBytes);
+  assert.equal(next.metadata.coverId, 'cover-image');
+  assert.deepEqual(Array.from(next.files.get('OEBPS/images/cover.png') || []), [9, 9]);
+  assert.equal(next.chapters.length, 2);
+}
+
+{
+  // A rasterized generated cover is redrawn on append, and the caller may rasterize the new one too.
+  const raster = buildEpub([{ title: 'Only', content: '<p>One</p>', url: 'https://example.com/1' }], {
+    title: 'Raster',
+    cover: { data: new Uint8Array([7]), mediaType: 'image/jpeg', generated: true }
+  });
+  assert.ok(parseEpub(raster.bytes).files.has('OEBPS/images/generated-cover.jpg'));
+  const more = [{ title: 'Two', content: '<p>Two</p>', url: 'https://news.example.net/2' }];
+  const svg = appendedCover(raster.bytes, more, new Date('2026-10-20T08:00:00Z'));
+  assert.ok(svg);
+  assert.equal(svg.mediaType, 'image/svg+xml');
+  assert.match(textDecoder.decode(svg.data), /news\.example\.net/);
+  assert.match(textDecoder.decode(svg.data), /2 articles/);
+
+  const redrawn = parseEpub(appendToEpub(raster.bytes, more).bytes);
+  assert.ok(redrawn.files.has('OEBPS/images/cover.svg'));
+  assert.ok(!redrawn.files.has('OEBPS/images/generated-cover.jpg'));
+
+  const rasterBytes = appendToEpub(raster.bytes, more, { cover: { data: new Uint8Array([8]), mediaType: 'image/jpeg', generated: true } }).bytes;
+  assertValidEpub(rasterBytes);
+  const rasterized = parseEpub(rasterBytes);
+  assert.deepEqual(Array.from(rasterized.files.get('OEBPS/images/generated-cover.jpg') || []), [8]);
+  assert.ok(!rasterized.files.has('OEBPS/images/cover.svg'));
+
+  // Custom covers are kept, so there is nothing to redraw.
+  const custom = buildEpub([{ title: 'Only', content: '<p>One</p>' }], { cover: { data: new Uint8Array([9]), mediaType: 'image/png' } });
+  assert.equal(appendedCover(custom.bytes, more, new Date()), null);
+}
+
+{
+  assert.throws(() => appendToEpub(original.bytes, []), /No articles/);
+}
+
+{
+  const linked = appendToEpub(original.bytes, [{ title: 'Linked', content: '<p><a href="https://example.net/x">x</a></p>' }], {
+    linkNotes: 'book'
+  });
+  assertValidEpub(linked.bytes);
+  const chapter = parseEpub(linked.bytes).chapters[2].xhtml;
+  assert.match(chapter, /href="#linknote-1" id="linkref-1"/);
+  assert.match(chapter, /<li id="linknote-1" epub:type="footnote">x: <a href="https:\/\/example\.net\/x">/);
+}
+
+{
+  // The book's own metadata survives; new authors and subjects are added to it.
+  const single = buildEpub([
+    {
+      title: 'Essay',
+      content: '<p>One</p>',
+      url: 'https://example.com/essay',
+      siteName: 'Example Weekly',
+      excerpt: 'A short essay.',
+      publishedTime: '2026-01-02T00:00:00Z',
+      authors: ['Ada Lovelace', 'Charles Babbage'],
+      tags: ['History']
+    }
+  ]);
+  const next = parseEpub(
+    appendToEpub(single.bytes, [
+      { title: 'Reply', content: '<p>Two</p>', url: 'https://news.example.net/reply', authors: ['Grace Hopper'], tags: ['Computing'] }
+    ]).bytes
+  );
+  assert.deepEqual(next.metadata.creators, ['Ada Lovelace', 'Charles Babbage', 'Grace Hopper']);
+  assert.equal(next.metadata.publisher, 'Example Weekly');
+  assert.equal(next.metadata.description, 'A short essay.');
+  assert.equal(next.metadata.source, 'https://example.com/essay');
+  assert.equal(next.metadata.date, '2026-01-02T00:00:00Z');
+  assert.deepEqual(next.metadata.subjects, ['History', 'Computing', 'news.example.net']);
+}
+
+{
+  // New chapters go after the last article, and a book-level Links page stays at the end.
+  const noted = buildEpub([{ title: 'Noted', content: '<p><a href="https://example.net/x">x</a></p>', url: 'https://example.com/n' }], {
+    linkNotes: 'book'
+  });
+  const nextBytes = appendToEpub(noted.bytes, [{ title: 'Later', content: '<p>More</p>', url: 'https://example.org/later' }]).bytes;
+  assertValidEpub(nextBytes);
+  const next = parseEpub(nextBytes);
+  assert.deepEqual(
+    next.chapters.map((chapter) => chapter.title),
+    ['Noted', 'Later', 'Links']
+  );
+  assert.match(textDecoder.decode(next.files.get('OEBPS/images/cover.svg')), /2 articles/);
+}
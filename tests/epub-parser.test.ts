@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { buildEpub } from '../src/core/epub.js';
+import { parseEpub, resolveEpubPath } from '../src/core/epub-parser.js';
+import { createZip } from '../src/core/zip.js';
+import { assertValidEpub } from './helpers.js';
+
+const { bytes } = buildEpub(
+  [
+    { title: 'First <One>', content: '<p>Hello</p>', url: 'https://example.com/1', lang: 'fr' },
+    { title: 'Second', content: '<p>World</p>', url: 'https://example.org/2' }
+  ],
+  {
+    title: 'Parsed Book',
+    identifier: 'fixed-id',
+    modified: new Date('2026-10-19T12:00:00Z'),
+    assets: [{ path: 'OEBPS/images/image-1.png', href: 'images/image-1.png', mediaType: 'image/png', data: new Uint8Array([1]) }]
+  }
+);
+
+assertValidEpub(bytes);
+const parsed = parseEpub(bytes);
+assert.equal(parsed.opfPath, 'OEBPS/content.opf');
+assert.equal(parsed.version, '3.0');
+assert.equal(parsed.metadata.identifier, 'urn:uuid:fixed-id');
+assert.equal(parsed.metadata.title, 'Parsed Book');
+assert.equal(parsed.metadata.language, 'fr');
+assert.equal(parsed.metadata.modified, '2026-10-19T12:00:00Z');
+assert.equal(parsed.metadata.coverId, 'cover-image');
+assert.deepEqual(parsed.metadata.creators, ['Tabs to EPUB & Kindle']);
+assert.deepEqual(parsed.metadata.subjects, ['example.com', 'example.org']);
+assert.equal(parsed.metadata.date, '2026-10-19T12:00:00Z');
+assert.equal(parsed.metadata.source, null);
+assert.equal(parsed.tocId, 'ncx');
+
+const image = parsed.manifest.find((item) => item.href === 'images/image-1.png');
+assert.ok(image);
+assert.equal(image.path, 'OEBPS/images/image-1.png');
+assert.equal(image.mediaType, 'image/png');
+assert.deepEqual(parsed.manifest.find((item) => item.id === 'nav')?.properties, ['nav']);
+
+assert.deepEqual(
+  parsed.spine.map((item) => item.idref),
+  ['item-1', 'item-2']
+);
+assert.equal(parsed.chapters.length, 2);
+assert.equal(parsed.chapters[0].title, 'First <One>');
+assert.equal(parsed.chapters[0].path, 'OEBPS/section-1.xhtml');
+assert.match(parsed.chapters[1].xhtml, /<p>World<\/p>/);
+assert.ok(parsed.files.has('OEBPS/images/image-1.png'));
+
+{
+  assert.equal(resolveEpubPath('OEBPS/text/', '../images/a%20b.png#frag'), 'OEBPS/images/a b.png');
+  assert.equal(resolveEpubPath('', 'content.opf'), 'content.opf');
+}
+
+{
+  const notEpub = createZip([{ path: 'mimetype', data: 'application/zip' }]);
+  assert.throws(() => parseEpub(notEpub), /mimetype/);
+  const noContainer = createZip([{ path: 'mimetype', data: 'application/epub+zip' }]);
+  assert.throws(() => parseEpub(noContainer), /container\.xml/);
+}
+
+{
+  const single = buildEpub(
+    [
+      {
+        title: 'Deep Dive',
+        byline: 'By  Ada Lovelace',
+        siteName: 'Example & Co',
+        url: 'https://www.example.com/deep?x=1&y=2',
+        excerpt: 'A look at engines.',
+        content: '<p>Text</p>'
+      }
+    ],
+    { modified: new Date('2026-10-19T12:00:00Z') }
+  );
+  assertValidEpub(single.bytes);
+  const metadata = parseEpub(single.bytes).metadata;
+  assert.deepEqual(metadata.creators, ['Ada Lovelace']);
+  assert.equal(metadata.publisher, 'Example & Co');
+  assert.equal(metadata.source, 'https://www.example.com/deep?x=1&y=2');
+  assert.equal(metadata.description, 'A look at engines.');
+  assert.deepEqual(metadata.subjects, []);
+}
+
+{
+  const multi = buildEpub([
+    { title: 'A', byline: 'Ada Lovelace', url: 'https://a.example.com/1', content: '<p>a</p>' },
+    { title: 'B', byline: 'by ada lovelace', url: 'https://b.example.org/2', content: '<p>b</p>' },
+    { title: 'C', byline: 'Charles Babbage', url: 'https://a.example.com/3', content: '<p>c</p>' },
+    { title: 'D', content: '<p>d</p>' }
+  ]);
+  assertValidEpub(multi.bytes);
+  const metadata = parseEpub(multi.bytes).metadata;
+  assert.deepEqual(metadata.creators, ['Ada Lovelace', 'Charles Babbage']);
+  assert.deepEqual(metadata.subjects, ['a.example.com', 'b.example.org']);
+  assert.equal(metadata.publisher, null);
+  assert.equal(metadata.description, null);
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { buildEpub } from '../src/core/epub.js';
+import { checkXml, validateEpub } from '../src/core/epub-validator.js';
+import { createZip, readZip } from '../src/core/zip.js';
+import type { ZipEntry } from '../src/core/zip.js';
+
+const textDecoder = new TextDecoder();
+
+const { bytes } = buildEpub(
+  [
+    { title: 'One & Two', content: '<p>Hello <img src="images/image-1.png" alt="x"/></p>', url: 'https://example.com/1' },
+    { title: 'Three', content: '<p>World</p>' }
+  ],
+  {
+    title: 'Validated',
+    assets: [{ path: 'OEBPS/images/image-1.png', href: 'images/image-1.png', mediaType: 'image/png', data: new Uint8Array([1]) }]
+  }
+);
+
+assert.deepEqual(validateEpub(bytes), { valid: true, errors: [] });
+
+const entries: ZipEntry[] = readZip(bytes).map((entry) => ({ path: entry.path, data: entry.data }));
+
+function rebuild(edit: (entries: ZipEntry[]) => ZipEntry[]): Uint8Array {
+  return createZip(edit(entries.map((entry) => ({ ...entry, store: entry.path === 'mimetype' }))));
+}
+
+function replaceText(path: string, edit: (text: string) => string): (entries: ZipEntry[]) => ZipEntry[] {
+  return (list) =>
+    list.map((entry) =>
+      entry.path === path ? { ...entry, data: edit(textDecoder.decode(entry.data as Uint8Array)) } : entry
+    );
+}
+
+function messages(input: Uint8Array): string[] {
+  return validateEpub(input).errors.map((error) => error.message);
+}
+
+{
+  const reordered = rebuild((list) => [...list.slice(1), list[0]]);
+  assert.match(messages(reordered).join('\n'), /must be the first file/);
+}
+
+{
+  const missingImage = rebuild((list) => list.filter((entry) => entry.path !== 'OEBPS/images/image-1.png'));
+  assert.match(messages(missingImage).join('\n'), /points to missing file images\/image-1\.png/);
+
+  const badSpine = rebuild(replaceText('OEBPS/content.opf', (opf) => opf.replace('<itemref idref="item-2"/>', '<itemref idref="nope"/>')));
+  assert.match(messages(badSpine).join('\n'), /Spine references unknown id "nope"/);
+
+  const badImageType = rebuild(replaceText('OEBPS/content.opf', (opf) => opf.replace('media-type="image/png"', 'media-type="image/avif"')));
+  assert.match(messages(badImageType).join('\n'), /image\/avif is not allowed/);
+  const webp = rebuild(replaceText('OEBPS/content.opf', (opf) => opf.replace('media-type="image/png"', 'media-type="image/webp"')));
+  assert.match(messages(webp).join('\n'), /image\/webp is not allowed/);
+}
+
+{
+  const broken = rebuild(replaceText('OEBPS/section-2.xhtml', (xhtml) => xhtml.replace('<p>World</p>', '<p>World<br></p>')));
+  const result = validateEpub(broken);
+  assert.equal(result.valid, false);
+  assert.equal(result.errors[0].path, 'OEBPS/section-2.xhtml');
+  assert.match(result.errors[0].message, /Expected <\/br> but found <\/p>/);
+}
+
+{
+  const nested = rebuild(
+    replaceText('OEBPS/section-2.xhtml', (xhtml) => xhtml.replace('<p>World</p>', '<p><a href="#a">World <a href="#b">here</a></a></p>'))
+  );
+  assert.deepEqual(validateEpub(nested).errors, [{ path: 'OEBPS/section-2.xhtml', message: 'Nested <a> inside another <a>' }]);
+}
+
+{
+  assert.deepEqual(checkXml('<a><b id="x"/><c id="x">&amp;&#169;</c></a>'), ['Duplicate id "x"']);
+  assert.deepEqual(checkXml('<a x="1" x="2"/>'), ['Duplicate attribute x on <a>']);
+  assert.deepEqual(checkXml('<p>Fish & chips</p>'), ['Unescaped "&" near "& chips"']);
+  assert.deepEqual(checkXml('<p>&nbsp;</p>'), ['Undefined entity &nbsp;']);
+  assert.deepEqual(checkXml('<p>\u0001</p>'), ['Illegal XML character U+0001']);
+  assert.deepEqual(checkXml('<p>&#0;</p>'), ['Character reference &#0; is not a legal XML character']);
+  assert.deepEqual(checkXml('<a></a><b></b>'), ['Second root element <b>']);
+  assert.deepEqual(checkXml('<a><b></a>'), ['Expected </b> but found </a>']);
+  assert.deepEqual(checkXml('<a>'), ['Unclosed element <a>']);
+  assert.deepEqual(checkXml('<p><a href="#x"><b><a href="#y">y</a></b></a></p>', { xhtml: true }), ['Nested <a> inside another <a>']);
+  assert.deepEqual(checkXml('<p><a href="#x">x</a><a href="#y">y</a></p>', { xhtml: true }), []);
+  assert.deepEqual(checkXml('<a title="1 < 2"/>'), ['Unescaped "<" in attribute title']);
+  assert.deepEqual(checkXml('<?xml version="1.0"?>\n<!DOCTYPE html>\n<!-- c --><a><![CDATA[<x>]]></a>'), []);
+}
+
+{
+  assert.match(messages(new Uint8Array([1, 2, 3])).join('\n'), /Not a zip file/);
+}
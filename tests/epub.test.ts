@@ -1,6 +1,7 @@
 import assert from 'node:assert/strict';
 import { buildEpub } from '../src/core/epub.js';
-import { readLocalFiles } from './helpers.js';
+import { readZip } from '../src/core/zip.js';
+import { assertValidEpub } from './helpers.js';
 
 const articles = [
   {
@@ -27,11 +28,12 @@ const assets = [
 ];
 
 const { bytes } = buildEpub(articles, { title: 'Test Collection', assets });
-const files = readLocalFiles(bytes);
+assertValidEpub(bytes);
+const files = readZip(bytes);
 const text = (data: Uint8Array) => new TextDecoder().decode(data);
-const fileMap = new Map(files.map((file) => [file.name, text(file.data)]));
+const fileMap = new Map(files.map((file) => [file.path, text(file.data)]));
 
-assert.equal(files[0].name, 'mimetype');
+assert.equal(files[0].path, 'mimetype');
 assert.ok(fileMap.has('OEBPS/content.opf'));
 assert.ok(fileMap.has('OEBPS/nav.xhtml'));
 assert.ok(fileMap.has('OEBPS/section-1.xhtml'));
@@ -52,3 +54,169 @@ const section1 = fileMap.get('OEBPS/section-1.xhtml');
 assert.ok(section1);
 assert.doesNotMatch(section1, /<script/i);
 assert.doesNotMatch(section1, /onclick=/i);
+assert.match(opf, /<item id="cover-image" href="images\/cover\.svg" properties="cover-image" media-type="image\/svg\+xml"\/>/);
+assert.match(opf, /<meta name="cover" content="cover-image"\/>/);
+
+const cover = fileMap.get('OEBPS/images/cover.svg');
+assert.ok(cover);
+assert.match(cover, /Test Collection/);
+assert.match(cover, /example\.com/);
+assert.match(cover, /2 articles/);
+
+{
+  const customCover = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+  const custom = buildEpub(articles, { title: 'Custom Cover', cover: { data: customCover, mediaType: 'image/jpeg' } });
+  assertValidEpub(custom.bytes);
+  const customFiles = readZip(custom.bytes);
+  const coverFile = customFiles.find((file) => file.path === 'OEBPS/images/cover.jpg');
+  assert.ok(coverFile);
+  assert.deepEqual([...coverFile.data], [...customCover]);
+  assert.ok(!customFiles.some((file) => file.path === 'OEBPS/images/cover.svg'));
+  const customOpf = text(customFiles.find((file) => file.path === 'OEBPS/content.opf')!.data);
+  assert.match(customOpf, /href="images\/cover\.jpg" properties="cover-image" media-type="image\/jpeg"/);
+
+  // A rasterized generated cover is named apart from custom covers so appending can redraw it.
+  const generated = buildEpub(articles, { title: 'Generated Cover', cover: { data: customCover, mediaType: 'image/jpeg', generated: true } });
+  assertValidEpub(generated.bytes);
+  const generatedFiles = readZip(generated.bytes);
+  assert.ok(generatedFiles.some((file) => file.path === 'OEBPS/images/generated-cover.jpg'));
+  const generatedOpf = text(generatedFiles.find((file) => file.path === 'OEBPS/content.opf')!.data);
+  assert.match(generatedOpf, /href="images\/generated-cover\.jpg" properties="cover-image" media-type="image\/jpeg"/);
+}
+
+{
+  const noCover = buildEpub(articles, { title: 'No Cover', cover: false });
+  assertValidEpub(noCover.bytes);
+  const noCoverFiles = readZip(noCover.bytes);
+  assert.ok(!noCoverFiles.some((file) => file.path.startsWith('OEBPS/images/cover.')));
+  const noCoverOpf = text(noCoverFiles.find((file) => file.path === 'OEBPS/content.opf')!.data);
+  assert.doesNotMatch(noCoverOpf, /cover-image/);
+}
+
+{
+  const sectioned = [
+    {
+      title: 'Long Read',
+      content:
+        '<h2>Intro &amp; Setup</h2><p>a</p><h3>Details</h3><p>b</p><h2 id="custom">Second</h2><p>c</p><h3><em>Deep</em> Dive</h3>',
+      url: 'https://example.com/long'
+    },
+    { title: 'Short', content: '<p>No headings</p>' }
+  ];
+  const built = buildEpub(sectioned, { title: 'Sections', cover: false });
+  assertValidEpub(built.bytes);
+  const builtFiles = new Map(readZip(built.bytes).map((file) => [file.path, text(file.data)]));
+
+  const section = builtFiles.get('OEBPS/section-1.xhtml') || '';
+  assert.match(section, /<h2 id="toc-1-1">Intro &amp; Setup<\/h2>/);
+  assert.match(section, /<h3 id="toc-1-2">Details<\/h3>/);
+  assert.match(section, /<h2 id="custom">Second<\/h2>/);
+
+  const builtNav = builtFiles.get('OEBPS/nav.xhtml') || '';
+  assert.match(
+    builtNav,
+    /<li><a href="section-1\.xhtml">Long Read<\/a>\s*<ol>\s*<li><a href="section-1\.xhtml#toc-1-1">Intro &amp; Setup<\/a>\s*<ol>\s*<li><a href="section-1\.xhtml#toc-1-2">Details<\/a><\/li>/
+  );
+  assert.match(builtNav, /<a href="section-1\.xhtml#custom">Second<\/a>/);
+  assert.match(builtNav, /<a href="section-1\.xhtml#toc-1-3">Deep Dive<\/a>/);
+  assert.match(builtNav, /<li><a href="section-2\.xhtml">Short<\/a><\/li>/);
+
+  const builtNcx = builtFiles.get('OEBPS/toc.ncx') || '';
+  assert.match(builtNcx, /<meta name="dtb:depth" content="3"\/>/);
+  assert.match(builtNcx, /playOrder="6"/);
+  assert.doesNotMatch(builtNcx, /playOrder="7"/);
+
+  const shallow = buildEpub(sectioned, { title: 'Sections', cover: false, tocDepth: 2 });
+  assertValidEpub(shallow.bytes);
+  const shallowFiles = new Map(readZip(shallow.bytes).map((file) => [file.path, text(file.data)]));
+  assert.doesNotMatch(shallowFiles.get('OEBPS/nav.xhtml') || '', /Details/);
+  assert.match(shallowFiles.get('OEBPS/toc.ncx') || '', /<meta name="dtb:depth" content="2"\/>/);
+
+  const flat = buildEpub(sectioned, { title: 'Sections', cover: false, tocDepth: 1 });
+  assertValidEpub(flat.bytes);
+  const flatFiles = new Map(readZip(flat.bytes).map((file) => [file.path, text(file.data)]));
+  assert.doesNotMatch(flatFiles.get('OEBPS/nav.xhtml') || '', /<ol>\s*<li>[^]*<ol>/);
+  assert.match(flatFiles.get('OEBPS/toc.ncx') || '', /<meta name="dtb:depth" content="1"\/>/);
+}
+
+{
+  const compressed = buildEpub(articles, { title: 'Compressed', assets });
+  assertValidEpub(compressed.bytes);
+  const entries = readZip(compressed.bytes);
+  const methods = new Map(entries.map((entry) => [entry.path, entry.method]));
+  assert.equal(methods.get('mimetype'), 0);
+  assert.equal(methods.get('OEBPS/images/image-1.png'), 0);
+  assert.equal(methods.get('OEBPS/content.opf'), 8);
+}
+
+{
+  const styled = buildEpub(articles, { title: 'Styled', stylesheet: 'body { font-family: sans-serif; }' });
+  assertValidEpub(styled.bytes);
+  const css = readZip(styled.bytes).find((entry) => entry.path === 'OEBPS/styles.css');
+  assert.equal(text(css ? css.data : new Uint8Array()), 'body { font-family: sans-serif; }');
+}
+
+{
+  const linked = [
+    { title: 'One', content: '<p>Read <a href="https://example.com/spec">the spec</a>.</p>' },
+    { title: 'Two', content: '<p>Also <a href="https://example.org/">this</a> and <a href="#top">that</a>.</p>' }
+  ];
+
+  const perChapter = buildEpub(linked, { title: 'Notes', cover: false, linkNotes: 'chapter' });
+  assertValidEpub(perChapter.bytes);
+  const chapterFiles = new Map(readZip(perChapter.bytes).map((file) => [file.path, text(file.data)]));
+  const second = chapterFiles.get('OEBPS/section-2.xhtml') || '';
+  assert.match(second, /this<sup><a class="noteref" epub:type="noteref" href="#linknote-1" id="linkref-1">1<\/a><\/sup>/);
+  assert.match(second, /<a href="#top">that<\/a>/);
+  assert.match(second, /epub:type="footnotes">\n<h2>Links<\/h2>/);
+  assert.equal(chapterFiles.has('OEBPS/links.xhtml'), false);
+
+  const atEnd = buildEpub(linked, { title: 'Notes', cover: false, linkNotes: 'book' });
+  assertValidEpub(atEnd.bytes);
+  const bookFiles = new Map(readZip(atEnd.bytes).map((file) => [file.path, text(file.data)]));
+  assert.match(bookFiles.get('OEBPS/section-2.xhtml') || '', /href="links\.xhtml#linknote-2" id="linkref-2"/);
+  const links = bookFiles.get('OEBPS/links.xhtml') || '';
+  assert.match(links, /<li id="linknote-1" epub:type="endnote">the spec: <a href="https:\/\/example\.com\/spec">/);
+  assert.match(links, /href="section-2\.xhtml#linkref-2"/);
+  const opf = bookFiles.get('OEBPS/content.opf') || '';
+  assert.match(opf, /<itemref idref="item-2"\/>\n\s*<itemref idref="links"\/>/);
+  assert.match(bookFiles.get('OEBPS/nav.xhtml') || '', /<a href="links\.xhtml">Links<\/a>/);
+
+  const plain = buildEpub(linked, { title: 'Notes', cover: false });
+  const plainFiles = new Map(readZip(plain.bytes).map((file) => [file.path, text(file.data)]));
+  assert.match(plainFiles.get('OEBPS/section-1.xhtml') || '', /<a href="https:\/\/example\.com\/spec">the spec<\/a>/);
+}
+
+{
+  const described = buildEpub(
+    [
+      {
+        title: 'Rockets',
+        content: '<p>Lift-off.</p>',
+        url: 'https://example.com/rockets?utm_source=feed',
+        canonicalUrl: 'https://example.com/rockets',
+        authors: ['Jane Doe', 'Joe Bloggs'],
+        publishedTime: '2020-05-14T08:30:00Z',
+        modifiedTime: '2020-06-01',
+        section: 'Science',
+        tags: ['space', 'R&D']
+      }
+    ],
+    { cover: false }
+  );
+  assertValidEpub(described.bytes);
+  const describedFiles = new Map(readZip(described.bytes).map((file) => [file.path, text(file.data)]));
+  const chapter = describedFiles.get('OEBPS/section-1.xhtml') || '';
+  assert.match(chapter, /<header class="chapter-header">\n\s*<h1>Rockets<\/h1>\n\s*<p class="byline">Jane Doe, Joe Bloggs<\/p>/);
+  assert.match(
+    chapter,
+    /<p class="article-meta"><time datetime="2020-05-14T08:30:00Z">14 May 2020<\/time> · Science · Updated <time datetime="2020-06-01">1 June 2020<\/time><\/p>/
+  );
+  assert.match(chapter, /<p class="article-tags">space, R&amp;D<\/p>/);
+  assert.match(chapter, /Source: <a href="https:\/\/example\.com\/rockets">/);
+  const describedOpf = describedFiles.get('OEBPS/content.opf') || '';
+  assert.match(describedOpf, /<dc:date>2020-05-14T08:30:00Z<\/dc:date>/);
+  assert.match(describedOpf, /<dc:creator[^>]*>Jane Doe<\/dc:creator>/);
+  assert.match(describedOpf, /<dc:subject>Science<\/dc:subject>\s*<dc:subject>space<\/dc:subject>/);
+  assert.match(describedOpf, /<dc:source>https:\/\/example\.com\/rockets<\/dc:source>/);
+}
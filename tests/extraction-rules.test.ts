@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import {
+  findExtractionRule,
+  normalizeExtractionRule,
+  normalizeExtractionRules,
+  normalizeRuleDomain,
+  pickRulePreviewTab
+} from '../src/extension/extraction-rules.js';
+
+const baseRule = {
+  domain: 'example.com',
+  contentSelector: '',
+  includeSelectors: [],
+  excludeSelectors: [],
+  titleSelector: '',
+  bylineSelector: ''
+};
+
+{
+  assert.equal(normalizeRuleDomain(' https://www.Example.com:8080/post/1?x=1 '), 'example.com');
+  assert.equal(normalizeRuleDomain('*.blog.example.com'), 'blog.example.com');
+  assert.equal(normalizeRuleDomain('news.example.org.'), 'news.example.org');
+}
+
+{
+  const rule = normalizeExtractionRule({
+    domain: 'Example.com',
+    contentSelector: ' main .post ',
+    includeSelectors: ['.lede', '  ', '.footnotes'],
+    excludeSelectors: '.share\n\n.related ' as unknown as string[]
+  });
+  assert.deepEqual(rule, {
+    domain: 'example.com',
+    contentSelector: 'main .post',
+    includeSelectors: ['.lede', '.footnotes'],
+    excludeSelectors: ['.share', '.related'],
+    titleSelector: '',
+    bylineSelector: ''
+  });
+  assert.throws(() => normalizeExtractionRule({ ...baseRule, domain: ' ' }), /needs a domain/);
+  assert.throws(() => normalizeExtractionRule({ ...baseRule, domain: 'exa mple.com', titleSelector: 'h1' }), /not a valid domain/);
+  assert.throws(() => normalizeExtractionRule(baseRule), /has no selectors/);
+  assert.throws(
+    () => normalizeExtractionRules([{ ...baseRule, titleSelector: 'h1' }, { ...baseRule, domain: 'www.example.com', titleSelector: 'h2' }]),
+    /more than one rule for example\.com/
+  );
+  assert.throws(() => normalizeExtractionRules('nope'), /must be a list/);
+}
+
+{
+  const general = { ...baseRule, titleSelector: 'h1' };
+  const blog = { ...baseRule, domain: 'blog.example.com', titleSelector: 'h2' };
+  const rules = [general, blog];
+  assert.equal(findExtractionRule(rules, 'https://example.com/a'), general);
+  assert.equal(findExtractionRule(rules, 'https://news.example.com/a'), general);
+  assert.equal(findExtractionRule(rules, 'https://blog.example.com/a'), blog);
+  assert.equal(findExtractionRule(rules, 'https://cdn.blog.example.com/a'), blog);
+  assert.equal(findExtractionRule(rules, 'https://notexample.com/a'), null);
+  assert.equal(findExtractionRule(rules, 'not a url'), null);
+  assert.equal(findExtractionRule(rules, undefined), null);
+}
+
+{
+  const rule = { ...baseRule, titleSelector: 'h1' };
+  const tabs = [
+    { id: 1, url: 'https://other.org/', active: true },
+    { id: 2, url: 'https://example.com/a', active: false },
+    { id: 3, url: 'https://www.example.com/b', active: true }
+  ] as chrome.tabs.Tab[];
+  assert.equal(pickRulePreviewTab(tabs, rule)?.id, 3);
+  assert.equal(pickRulePreviewTab(tabs.slice(0, 2), rule)?.id, 2);
+  assert.equal(pickRulePreviewTab(tabs.slice(0, 1), rule), null);
+}
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { buildFilenameForArticles, validateFilenameTemplate } from '../src/extension/filename.js';
+
+{
+  const now = new Date(2026, 9, 19, 9, 0, 0);
+  const tagged = [
+    { tabId: 1, tabTitle: 'Tab', title: 'Rockets: A History', url: 'https://www.example.com/a', authors: ['Jane Doe'], publishedTime: '2020-05-14T08:30:00Z' },
+    { tabId: 2, tabTitle: 'Tab', title: 'Other', url: 'https://other.org/b' }
+  ];
+  assert.equal(validateFilenameTemplate('{published} {title} - {author}'), null);
+  assert.equal(validateFilenameTemplate('{title} {isbn}'), 'Unknown filename field {isbn}');
+  assert.match(validateFilenameTemplate('x'.repeat(201)) || '', /at most 200/);
+  assert.equal(buildFilenameForArticles(tagged, now, '{published} {title} - {author}'), '2020-05-14 Rockets- A History - Jane Doe.epub');
+  assert.equal(buildFilenameForArticles(tagged, now, '{title} - {section} - {domains}'), 'Rockets- A History - example other.epub');
+  assert.equal(buildFilenameForArticles(tagged, now, '  '), buildFilenameForArticles(tagged, now));
+}
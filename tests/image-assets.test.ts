@@ -1,5 +1,15 @@
 import assert from 'node:assert/strict';
-import { embedImages } from '../src/extension/image-assets.js';
+import { buildEpub } from '../src/core/epub.js';
+import { validateEpub } from '../src/core/epub-validator.js';
+import { describeMissingImages, embedImages } from '../src/extension/image-assets.js';
+
+function pngHeader(width: number, height: number, fill: number): Uint8Array {
+  const bytes = new Uint8Array(64).fill(fill);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  new DataView(bytes.buffer).setUint32(16, width);
+  new DataView(bytes.buffer).setUint32(20, height);
+  return bytes;
+}
 
 const sampleArticle = {
   tabId: 1,
@@ -16,8 +26,54 @@ const sampleArticle = {
     const result = await embedImages([sampleArticle]);
     assert.equal(result.assets.length, 0);
     assert.equal(result.articles.length, 1);
-    assert.match(result.articles[0].content || '', /<img[^>]*src=""/);
-    assert.doesNotMatch(result.articles[0].content || '', /https:\/\/example\.test\/image\?id=1&size=large/);
+    assert.equal(
+      result.articles[0].content,
+      '<p><span class="missing-image">[Image unavailable: sample] <a href="https://example.test/image?id=1&amp;size=large">https://example.test/image?id=1&amp;size=large</a></span></p>'
+    );
+    assert.deepEqual(result.missingImages, [
+      { articleTitle: 'Sample article', url: 'https://example.test/image?id=1&size=large', reason: 'Image fetch failed (404)' }
+    ]);
+    assert.equal(describeMissingImages(result.missingImages), '1 image(s) in 1 article(s) could not be embedded and were replaced with a link.');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  // Without canvas support a WebP cannot be converted, so it is reported instead of packaged.
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () =>
+    new Response(new Uint8Array(200), { status: 200, headers: { 'content-type': 'image/webp' } })) as typeof fetch;
+  try {
+    const result = await embedImages([sampleArticle]);
+    assert.equal(result.assets.length, 0);
+    assert.deepEqual(
+      result.missingImages.map((image) => image.reason),
+      ['Unsupported image type (image/webp)']
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  // A linked image gets a plain-text placeholder, because links cannot nest.
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => new Response('Not found', { status: 404 })) as typeof fetch;
+  try {
+    const linked = {
+      ...sampleArticle,
+      content: '<p><a href="https://example.test/full.png"><img src="tabstoepub-image:1" alt="sample" /></a> <img src="tabstoepub-image:2" alt="" /></p>',
+      images: [...sampleArticle.images, { token: 'tabstoepub-image:2', src: 'https://example.test/other.png' }]
+    };
+    const result = await embedImages([linked]);
+    assert.equal(
+      result.articles[0].content,
+      '<p><a href="https://example.test/full.png"><span class="missing-image">[Image unavailable: sample]</span></a> ' +
+        '<span class="missing-image">[Image unavailable] <a href="https://example.test/other.png">https://example.test/other.png</a></span></p>'
+    );
+    const { bytes } = buildEpub([{ title: 'Linked', content: result.articles[0].content }], { title: 'Linked', cover: false });
+    assert.deepEqual(validateEpub(bytes), { valid: true, errors: [] });
   } finally {
     globalThis.fetch = originalFetch;
   }
@@ -30,8 +86,158 @@ const sampleArticle = {
   try {
     const result = await embedImages([sampleArticle]);
     assert.equal(result.assets.length, 0);
-    assert.match(result.articles[0].content || '', /<img[^>]*src=""/);
-    assert.doesNotMatch(result.articles[0].content || '', /https:\/\/example\.test\/image\?id=1&size=large/);
+    assert.doesNotMatch(result.articles[0].content || '', /<img/);
+    assert.match(result.articles[0].content || '', /class="missing-image"/);
+    assert.equal(result.missingImages[0].reason, 'Not an image (text/plain)');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    const bytes = url.includes('avatar') ? pngHeader(96, 96, 7) : pngHeader(400, 120, 1);
+    return new Response(bytes, { status: 200, headers: { 'content-type': 'image/png' } });
+  }) as typeof fetch;
+  try {
+    const result = await embedImages([
+      {
+        tabId: 1,
+        tabTitle: 'First',
+        title: 'First',
+        content: '<img src="tabstoepub-image:1" /><img src="tabstoepub-image:2" />',
+        images: [
+          { token: 'tabstoepub-image:1', src: 'https://cdn.example.test/logo.png?v=1' },
+          { token: 'tabstoepub-image:2', src: 'https://cdn.example.test/avatar.png' }
+        ]
+      },
+      {
+        tabId: 2,
+        tabTitle: 'Second',
+        title: 'Second',
+        content: '<img src="tabstoepub-image:1" />',
+        images: [{ token: 'tabstoepub-image:1', src: 'https://img.example.test/logo.png?w=600&v=2' }]
+      }
+    ]);
+    assert.deepEqual(
+      result.assets.map((asset) => asset.href),
+      ['images/image-1.png', 'images/image-2.png']
+    );
+    assert.equal(result.articles[0].content, '<img src="images/image-1.png" /><img src="images/image-2.png" />');
+    assert.equal(result.articles[1].content, '<img src="images/image-1.png" />');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  const fetched: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    fetched.push(url);
+    const bytes = url.includes('share-icon') ? pngHeader(24, 24, 3) : pngHeader(800, 600, 4);
+    return new Response(bytes, { status: 200, headers: { 'content-type': 'image/png' } });
+  }) as typeof fetch;
+  try {
+    const result = await embedImages([
+      {
+        tabId: 1,
+        tabTitle: 'Tab',
+        title: 'Article',
+        content:
+          '<p><img src="tabstoepub-image:1" /><img src="tabstoepub-image:2" /></p>' +
+          '<p><img src="tabstoepub-image:3" /><img src="tabstoepub-image:4" alt="Chart" /></p>',
+        images: [
+          { token: 'tabstoepub-image:1', src: 'https://www.google-analytics.com/collect?v=1' },
+          { token: 'tabstoepub-image:2', src: 'https://example.test/beacon?id=7', width: 1, height: 1 },
+          { token: 'tabstoepub-image:3', src: 'https://example.test/share-icon.png' },
+          { token: 'tabstoepub-image:4', src: 'https://example.test/chart.png' }
+        ]
+      }
+    ]);
+    assert.deepEqual(fetched, ['https://example.test/share-icon.png', 'https://example.test/chart.png']);
+    assert.deepEqual(result.filteredImages, [
+      { url: 'https://www.google-analytics.com/collect?v=1', reason: 'tracker' },
+      { url: 'https://example.test/beacon?id=7', reason: 'declared 1x1' },
+      { url: 'https://example.test/share-icon.png', reason: '24x24' }
+    ]);
+    assert.deepEqual(result.missingImages, []);
+    assert.equal(result.articles[0].content, '<p></p><p><img src="images/image-1.png" alt="Chart" /></p>');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="200" onload="alert(1)"><script>alert(2)</script><rect width="400" height="200"/></svg>';
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () =>
+    new Response(svg, { status: 200, headers: { 'content-type': 'image/svg+xml' } })) as typeof fetch;
+  try {
+    const result = await embedImages([
+      {
+        tabId: 1,
+        tabTitle: 'Tab',
+        title: 'Diagram',
+        content: '<img src="tabstoepub-image:1" />',
+        images: [{ token: 'tabstoepub-image:1', src: 'https://example.test/diagram.svg' }]
+      }
+    ]);
+    assert.equal(result.assets[0].mediaType, 'image/svg+xml');
+    assert.equal(
+      new TextDecoder().decode(result.assets[0].data),
+      '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="200"><rect width="400" height="200"/></svg>'
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+{
+  const asked: Array<[number, string]> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) =>
+    String(input).includes('hotlinked')
+      ? new Response('<html>No hotlinking</html>', { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' } })
+      : new Response('Forbidden', { status: 403 })) as typeof fetch;
+  try {
+    const result = await embedImages(
+      [
+        {
+          tabId: 7,
+          tabTitle: 'Paywalled',
+          title: 'Paywalled',
+          content: '<img src="tabstoepub-image:1" /><img src="tabstoepub-image:2" /><img src="tabstoepub-image:3" />',
+          images: [
+            { token: 'tabstoepub-image:1', src: 'https://cdn.example.test/hotlinked.png' },
+            { token: 'tabstoepub-image:2', src: 'https://members.example.test/photo.png' },
+            { token: 'tabstoepub-image:3', src: 'https://members.example.test/gone.png' }
+          ]
+        }
+      ],
+      undefined,
+      undefined,
+      async (tabId, url) => {
+        asked.push([tabId, url]);
+        if (url.includes('gone')) throw new Error('Image is not rendered in the page');
+        return { buffer: pngHeader(300, url.includes('photo') ? 200 : 100, 5), contentType: 'image/png' };
+      }
+    );
+    assert.deepEqual(asked, [
+      [7, 'https://cdn.example.test/hotlinked.png'],
+      [7, 'https://members.example.test/photo.png'],
+      [7, 'https://members.example.test/gone.png']
+    ]);
+    assert.deepEqual(
+      result.assets.map((asset) => asset.href),
+      ['images/image-1.png', 'images/image-2.png']
+    );
+    assert.deepEqual(result.missingImages, [
+      { articleTitle: 'Paywalled', url: 'https://members.example.test/gone.png', reason: 'Image fetch failed (403)' }
+    ]);
   } finally {
     globalThis.fetch = originalFetch;
   }
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describeFilteredImages, filterReasonAfterFetch, isTooSmall, isTrackerUrl, readImageSize } from '../src/extension/image-filter.js';
+
+{
+  assert.equal(isTrackerUrl('https://www.facebook.com/tr?id=1&ev=PageView'), true);
+  assert.equal(isTrackerUrl('https://pixel.wp.com/g.gif?blog=1'), true);
+  assert.equal(isTrackerUrl('https://sb.scorecardresearch.com/p?c1=2'), true);
+  assert.equal(isTrackerUrl('https://news.example.com/static/spacer.gif'), true);
+  assert.equal(isTrackerUrl('https://www.facebook.com/photo.png'), false);
+  assert.equal(isTrackerUrl('https://news.example.com/tr/images/map.png'), false);
+  assert.equal(isTrackerUrl('not a url'), false);
+}
+
+{
+  assert.equal(isTooSmall(1, 1, 48), true);
+  assert.equal(isTooSmall(1200, 1, 48), true);
+  assert.equal(isTooSmall(32, 32, 48), true);
+  assert.equal(isTooSmall(48, 20, 48), false);
+  assert.equal(isTooSmall(1, 1, 0), false);
+}
+
+{
+  const png = new Uint8Array(33);
+  png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 2, 0x80, 0, 0, 1, 0xe0]);
+  assert.deepEqual(readImageSize(png, 'image/png'), { width: 640, height: 480 });
+
+  const gif = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 1, 0, 1, 0, 0, 0, 0]);
+  assert.deepEqual(readImageSize(gif, 'image/gif'), { width: 1, height: 1 });
+
+  // SOI, an APP0 segment, then SOF0 with height 300 and width 500.
+  const jpeg = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 0x01, 0x2c, 0x01, 0xf4, 3, 0, 0, 0
+  ]);
+  assert.deepEqual(readImageSize(jpeg, 'image/jpeg'), { width: 500, height: 300 });
+
+  const webp = new Uint8Array(30);
+  webp.set([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x58]);
+  webp.set([0x1f, 0x03, 0x00, 0x57, 0x02, 0x00], 24);
+  assert.deepEqual(readImageSize(webp, 'image/webp'), { width: 800, height: 600 });
+
+  assert.equal(readImageSize(new Uint8Array([1, 2, 3]), 'image/png'), null);
+  assert.equal(filterReasonAfterFetch(gif, 'image/gif', 48), '1x1');
+  assert.equal(filterReasonAfterFetch(new Uint8Array(40), 'image/svg+xml', 48), '40 bytes');
+  assert.equal(filterReasonAfterFetch(png, 'image/png', 48), null);
+  assert.equal(filterReasonAfterFetch(gif, 'image/gif', 0), null);
+}
+
+{
+  assert.equal(describeFilteredImages([]), null);
+  assert.equal(describeFilteredImages([{ url: 'https://example.com/p.gif', reason: 'tracker' }]), 'Skipped 1 tracking pixel(s).');
+  assert.equal(
+    describeFilteredImages([
+      { url: 'https://example.com/p.gif', reason: 'tracker' },
+      { url: 'https://example.com/icon.png', reason: '16x16' },
+      { url: 'https://example.com/spacer.gif', reason: 'declared 1x1' }
+    ]),
+    'Skipped 1 tracking pixel(s) and 2 small image(s) or icon(s).'
+  );
+}
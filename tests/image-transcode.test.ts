@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { generateCover } from '../src/core/cover.js';
+import { embedImages } from '../src/extension/image-assets.js';
+import { planTranscode, rasterizeCover, scaleToFit, transcodeImage } from '../src/extension/image-transcode.js';
+
+const options = { maxDimension: 1600, grayscale: false };
+
+{
+  assert.deepEqual(scaleToFit(4000, 2000, 1600), { width: 1600, height: 800 });
+  assert.deepEqual(scaleToFit(900, 3000, 1600), { width: 480, height: 1600 });
+  assert.deepEqual(scaleToFit(800, 600, 1600), { width: 800, height: 600 });
+  assert.deepEqual(scaleToFit(5, 9000, 1600), { width: 1, height: 1600 });
+}
+
+{
+  assert.equal(planTranscode('image/jpeg', 800, 600, options), null);
+  assert.equal(planTranscode('image/png', 1600, 1200, options), null);
+  assert.deepEqual(planTranscode('image/jpeg', 3200, 2400, options), { width: 1600, height: 1200, outputType: 'image/jpeg' });
+  assert.deepEqual(planTranscode('image/png', 400, 300, { ...options, grayscale: true }), {
+    width: 400,
+    height: 300,
+    outputType: 'image/png'
+  });
+  assert.deepEqual(planTranscode('image/webp', 400, 300, options, false), { width: 400, height: 300, outputType: 'image/jpeg' });
+  assert.deepEqual(planTranscode('image/x-icon', 32, 32, options, true), { width: 32, height: 32, outputType: 'image/png' });
+  assert.deepEqual(planTranscode('image/png', 400, 300, { ...options, quality: 0.6 }, false), {
+    width: 400,
+    height: 300,
+    outputType: 'image/jpeg'
+  });
+}
+
+{
+  // Without OffscreenCanvas (node, older browsers) images pass through untouched.
+  const data = new Uint8Array([1, 2, 3]);
+  assert.deepEqual(await transcodeImage(data, 'image/webp', options), { data, mediaType: 'image/webp' });
+  const cover = generateCover('Reading List', [], new Date('2026-10-19T12:00:00Z'));
+  assert.equal(await rasterizeCover(cover, options), cover);
+}
+
+{
+  const drawn: Array<[number, number]> = [];
+  const encoded: string[] = [];
+  const globals = globalThis as Record<string, unknown>;
+  globals.createImageBitmap = async () => ({ width: 4000, height: 2000, close: () => undefined });
+  globals.OffscreenCanvas = class {
+    constructor(
+      public width: number,
+      public height: number
+    ) {}
+    getContext() {
+      const pixels = new Uint8ClampedArray(this.width * this.height * 4).fill(255);
+      pixels.set([200, 100, 50, 255], 0);
+      return {
+        drawImage: (_image: unknown, _x: number, _y: number, width: number, height: number) => drawn.push([width, height]),
+        getImageData: () => ({ data: pixels }),
+        putImageData: (image: { data: Uint8ClampedArray }) => encoded.push(Array.from(image.data.slice(0, 4)).join(','))
+      };
+    }
+    async convertToBlob({ type }: { type: string }) {
+      return new Blob([type]);
+    }
+  };
+  try {
+    const result = await transcodeImage(new Uint8Array([9]), 'image/webp', { maxDimension: 1600, grayscale: true });
+    assert.equal(result.mediaType, 'image/jpeg');
+    assert.equal(new TextDecoder().decode(result.data), 'image/jpeg');
+    assert.deepEqual(drawn, [[1600, 800]]);
+    assert.deepEqual(encoded, ['124,124,124,255']);
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () =>
+      new Response(new Uint8Array([1]), { status: 200, headers: { 'content-type': 'image/webp' } })) as typeof fetch;
+    try {
+      const embedded = await embedImages(
+        [
+          {
+            tabId: 1,
+            tabTitle: 'Tab',
+            title: 'Hero',
+            content: '<img src="tabstoepub-image:1"/><img src="tabstoepub-image:2"/>',
+            images: [
+              { token: 'tabstoepub-image:1', src: 'https://example.test/hero.webp' },
+              { token: 'tabstoepub-image:2', src: 'https://example.test/hero.webp' }
+            ]
+          }
+        ],
+        { maxDimension: 1600, grayscale: false },
+        0
+      );
+      assert.deepEqual(
+        embedded.assets.map((asset) => [asset.href, asset.mediaType]),
+        [['images/image-1.jpg', 'image/jpeg']]
+      );
+      assert.equal(embedded.articles[0].content, '<img src="images/image-1.jpg"/><img src="images/image-1.jpg"/>');
+      // Repeated URLs are transcoded once.
+      assert.equal(drawn.length, 2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  } finally {
+    delete globals.createImageBitmap;
+    delete globals.OffscreenCanvas;
+  }
+}
+
+{
+  const decoded: Array<{ type: string; resizeWidth?: number; resizeHeight?: number }> = [];
+  const globals = globalThis as Record<string, unknown>;
+  globals.createImageBitmap = async (blob: Blob, options: { resizeWidth?: number; resizeHeight?: number } = {}) => {
+    decoded.push({ type: blob.type, ...options });
+    return { width: options.resizeWidth ?? 0, height: options.resizeHeight ?? 0, close: () => undefined };
+  };
+  globals.OffscreenCanvas = class {
+    getContext() {
+      return { drawImage: () => undefined };
+    }
+    async convertToBlob({ type }: { type: string }) {
+      return new Blob([type]);
+    }
+  };
+  try {
+    const svg = new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 3200 1600"></svg>');
+    assert.deepEqual(await transcodeImage(svg, 'image/svg+xml', { maxDimension: 1600, grayscale: false }), {
+      data: svg,
+      mediaType: 'image/svg+xml'
+    });
+    const raster = await transcodeImage(svg, 'image/svg+xml', { maxDimension: 1600, grayscale: false, rasterizeSvg: true });
+    assert.equal(raster.mediaType, 'image/png');
+    assert.deepEqual(decoded, [{ type: 'image/svg+xml', resizeWidth: 1600, resizeHeight: 800 }]);
+
+    const cover = generateCover('Reading List', [{ url: 'https://example.com/a' }], new Date('2026-10-19T12:00:00Z'));
+    const rasterCover = await rasterizeCover(cover, { maxDimension: 1600, grayscale: false });
+    assert.equal(rasterCover.mediaType, 'image/jpeg');
+    assert.equal(rasterCover.generated, true);
+    assert.equal(new TextDecoder().decode(rasterCover.data), 'image/jpeg');
+    assert.deepEqual(decoded[1], { type: 'image/svg+xml', resizeWidth: 1000, resizeHeight: 1600 });
+  } finally {
+    delete globals.createImageBitmap;
+    delete globals.OffscreenCanvas;
+  }
+}
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import { inflateRaw } from '../src/core/inflate.js';
+
+{
+  const text = new TextEncoder().encode('<p>Hello, inflater.</p>\n'.repeat(500));
+  for (const level of [0, 1, 9]) {
+    const compressed = new Uint8Array(deflateRawSync(text, { level }));
+    assert.deepEqual(inflateRaw(compressed), text, `zlib level ${level} should inflate`);
+  }
+}
+
+{
+  assert.throws(() => inflateRaw(new Uint8Array([0x07])), /reserved block type|Unexpected end/);
+  assert.throws(() => inflateRaw(new Uint8Array([0x01, 0x05, 0x00, 0x00, 0x00])), /length mismatch/);
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import '../src/extension/pagination.js';
+
+type PageLink = { href: string; rel: string; text: string; inPager: boolean };
+const { findNextPageUrl, continuesArticle } = (
+  globalThis as typeof globalThis & {
+    TabToEpubPagination: {
+      findNextPageUrl: (pageUrl: string, links: PageLink[]) => string | null;
+      continuesArticle: (current: URL, candidate: URL, signalled: boolean) => boolean;
+    };
+  }
+).TabToEpubPagination;
+
+const link = (href: string, text = '', rel = '', inPager = false): PageLink => ({ href, rel, text, inPager });
+const continues = (current: string, candidate: string, signalled = false) =>
+  continuesArticle(new URL(current), new URL(candidate), signalled);
+
+{
+  // Explicit page numbers need no other signal.
+  assert.equal(continues('https://example.com/story', 'https://example.com/story?page=2'), true);
+  assert.equal(continues('https://example.com/story?page=2', 'https://example.com/story?page=3'), true);
+  assert.equal(continues('https://example.com/story/page/2/', 'https://example.com/story/page/3/'), true);
+  assert.equal(continues('https://example.com/story', 'https://example.com/story?page=3'), false);
+  assert.equal(continues('https://example.com/story', 'https://example.com/other?page=2'), false);
+  assert.equal(continues('https://example.com/story', 'https://other.com/story?page=2'), false);
+  assert.equal(continues('https://example.com/story#top', 'https://example.com/story'), false);
+}
+
+{
+  // /N path pages count only with a pagination signal.
+  assert.equal(continues('https://example.com/story/foo', 'https://example.com/story/foo/2'), false);
+  assert.equal(continues('https://example.com/story/foo', 'https://example.com/story/foo/2', true), true);
+  assert.equal(continues('https://example.com/story/foo/2', 'https://example.com/story/foo/3', true), true);
+  assert.equal(continues('https://example.com/story/foo.html', 'https://example.com/story/foo/2', true), true);
+  assert.equal(continues('https://example.com/story/foo', 'https://example.com/story/foo/part-two', true), true);
+  assert.equal(continues('https://example.com/story/foo', 'https://example.com/story/foo/part-two'), false);
+}
+
+{
+  // A numeric article id is not a page number, and prefixes only match whole segments.
+  assert.equal(continues('https://example.com/news/12345', 'https://example.com/news/12346', true), false);
+  assert.equal(continues('https://example.com/news/12345', 'https://example.com/newsletter', true), false);
+  assert.equal(continues('https://example.com/news', 'https://example.com/newsletter', true), false);
+  assert.equal(continues('https://example.com/news/story', 'https://example.com/news/story-two', true), false);
+  assert.equal(continues('https://example.com/', 'https://example.com/about', true), false);
+}
+
+{
+  const page = 'https://example.com/news/12345';
+  assert.equal(
+    findNextPageUrl(page, [
+      link('https://example.com/news/12346', '', 'next'),
+      link('https://example.com/newsletter', 'Next', '', true),
+      link('https://example.com/news/12346', 'Next story')
+    ]),
+    null
+  );
+}
+
+{
+  const page = 'https://example.com/story/foo';
+  assert.equal(findNextPageUrl(page, [link('https://example.com/story/foo/2', '2')]), null);
+  assert.equal(findNextPageUrl(page, [link('https://example.com/story/foo/2', '2', '', true)]), 'https://example.com/story/foo/2');
+  assert.equal(findNextPageUrl(page, [link('https://example.com/story/foo/2', 'Next page »')]), 'https://example.com/story/foo/2');
+  assert.equal(findNextPageUrl(page, [link('https://example.com/story/foo/2', 'Page 2')]), 'https://example.com/story/foo/2');
+  assert.equal(findNextPageUrl(page, [link('https://example.com/story/foo/2', '', 'prev next')]), 'https://example.com/story/foo/2');
+  assert.equal(
+    findNextPageUrl(page, [link('https://example.com/about', 'About'), link('https://example.com/story/foo?page=2', 'More')]),
+    'https://example.com/story/foo?page=2'
+  );
+  assert.equal(findNextPageUrl(page, [link('not a url', 'Next page')]), null);
+}
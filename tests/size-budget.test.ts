@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { readZip } from '../src/core/zip.js';
+import { buildEpubWithinBudget, describeSizeBudgetReport, findDecorativeImages } from '../src/extension/size-budget.js';
+import { assertValidEpub } from './helpers.js';
+
+const KB = 1024;
+
+function asset(index: number, size: number) {
+  const href = `images/image-${index}.png`;
+  return { path: `OEBPS/${href}`, href, mediaType: 'image/png', data: new Uint8Array(size).fill(index) };
+}
+
+const article = {
+  tabId: 1,
+  tabTitle: 'Tab',
+  title: 'Heavy',
+  content:
+    '<p><img src="images/image-1.png" alt="Chart"/></p><p><img src="images/image-2.png" alt=""/></p>' +
+    '<p><img src="images/image-3.png" role="presentation"/><img src="images/image-1.png"/></p>'
+};
+const assets = [asset(1, 200 * KB), asset(2, 150 * KB), asset(3, 100 * KB)];
+const transcode = { maxDimension: 1600, grayscale: false };
+
+{
+  assert.deepEqual([...findDecorativeImages([article], assets)].sort(), ['images/image-2.png', 'images/image-3.png']);
+}
+
+{
+  const roomy = await buildEpubWithinBudget([article], assets, { title: 'Heavy' }, { maxBytes: 1024 * KB, transcode });
+  assert.equal(roomy.report.fits, true);
+  assert.equal(roomy.report.finalBytes, roomy.report.originalBytes);
+  assert.equal(describeSizeBudgetReport(roomy.report), null);
+}
+
+{
+  // Without canvas support nothing can be recompressed, so the largest decorative image goes first.
+  const result = await buildEpubWithinBudget([article], assets, { title: 'Heavy' }, { maxBytes: 400 * KB, transcode });
+  assertValidEpub(result.bytes);
+  assert.deepEqual(result.report.droppedImages, ['images/image-2.png']);
+  assert.equal(result.report.recompressedImages, 0);
+  assert.equal(result.report.fits, true);
+  assert.ok(result.bytes.length <= 400 * KB);
+  const paths = readZip(result.bytes).map((entry) => entry.path);
+  assert.equal(paths.includes('OEBPS/images/image-2.png'), false);
+  assert.equal(paths.includes('OEBPS/images/image-3.png'), true);
+  assert.match(describeSizeBudgetReport(result.report) || '', /1 decorative image\(s\) dropped/);
+
+  const hopeless = await buildEpubWithinBudget([article], assets, { title: 'Heavy' }, { maxBytes: 100 * KB, transcode });
+  assert.equal(hopeless.report.fits, false);
+  assert.equal(hopeless.report.droppedImages.length, 2);
+  assert.match(describeSizeBudgetReport(hopeless.report) || '', /over the 0\.1 MB email limit even after reducing images/);
+}
+
+{
+  const globals = globalThis as Record<string, unknown>;
+  globals.createImageBitmap = async () => ({ width: 2000, height: 1000, close: () => undefined });
+  globals.OffscreenCanvas = class {
+    constructor(
+      public width: number,
+      public height: number
+    ) {}
+    getContext() {
+      const pixels = new Uint8ClampedArray(16).fill(255);
+      return { drawImage: () => undefined, getImageData: () => ({ data: pixels }), putImageData: () => undefined };
+    }
+    async convertToBlob({ quality }: { quality: number }) {
+      return new Blob([new Uint8Array(Math.round((this.width * this.height * quality) / 10))]);
+    }
+  };
+  try {
+    const result = await buildEpubWithinBudget([article], assets, { title: 'Heavy' }, { maxBytes: 150 * KB, transcode });
+    assertValidEpub(result.bytes);
+    // 1200x600 at 0.75 is 54 KB per image, still too big; 1000x500 at 0.65 is 32.5 KB and fits.
+    assert.equal(result.report.maxDimension, 1000);
+    assert.equal(result.report.quality, 0.65);
+    assert.equal(result.report.recompressedImages, 3);
+    assert.deepEqual(result.report.droppedImages, []);
+    assert.equal(result.report.fits, true);
+    const entries = new Map(readZip(result.bytes).map((entry) => [entry.path, entry.data]));
+    assert.equal(entries.get('OEBPS/images/image-1.jpg')?.length, 32500);
+    const chapter = new TextDecoder().decode(entries.get('OEBPS/section-1.xhtml'));
+    assert.match(chapter, /src="images\/image-1\.jpg" alt="Chart"/);
+    assert.doesNotMatch(chapter, /image-\d\.png/);
+    assert.match(describeSizeBudgetReport(result.report) || '', /3 image\(s\) recompressed to at most 1000px/);
+
+    // Already compact images: 1200x600 at 0.75 (54 KB) is bigger than the 50 KB originals, so
+    // the first step changes nothing, but the next step still shrinks them instead of dropping any.
+    const compact = [asset(1, 50 * KB), asset(2, 50 * KB), asset(3, 50 * KB)];
+    const later = await buildEpubWithinBudget([article], compact, { title: 'Compact' }, { maxBytes: 120 * KB, transcode });
+    assertValidEpub(later.bytes);
+    assert.equal(later.report.maxDimension, 1000);
+    assert.equal(later.report.recompressedImages, 3);
+    assert.deepEqual(later.report.droppedImages, []);
+    assert.equal(later.report.fits, true);
+  } finally {
+    delete globals.createImageBitmap;
+    delete globals.OffscreenCanvas;
+  }
+}
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import '../src/extension/srcset.js';
+
+type SrcsetCandidate = { url: string; width: number | null; density: number };
+const { parseSrcset, pickSrcsetCandidate } = (
+  globalThis as typeof globalThis & {
+    TabToEpubSrcset: {
+      parseSrcset: (value: string) => SrcsetCandidate[];
+      pickSrcsetCandidate: (candidates: SrcsetCandidate[], targetWidth: number) => string | null;
+    };
+  }
+).TabToEpubSrcset;
+
+{
+  assert.deepEqual(parseSrcset('a.png 1x, b.png 2x'), [
+    { url: 'a.png', width: null, density: 1 },
+    { url: 'b.png', width: null, density: 2 }
+  ]);
+  assert.deepEqual(parseSrcset('small.jpg 320w,large.jpg 1024w'), [
+    { url: 'small.jpg', width: 320, density: 1 },
+    { url: 'large.jpg', width: 1024, density: 1 }
+  ]);
+  assert.deepEqual(parseSrcset('  only.png  '), [{ url: 'only.png', width: null, density: 1 }]);
+  // A comma right after the URL ends the candidate.
+  assert.deepEqual(parseSrcset('a.png, b.png 2x'), [
+    { url: 'a.png', width: null, density: 1 },
+    { url: 'b.png', width: null, density: 2 }
+  ]);
+  assert.deepEqual(parseSrcset('data:image/gif;base64,R0lGOD 1x, real.png 2x'), [{ url: 'real.png', width: null, density: 2 }]);
+  assert.deepEqual(parseSrcset('odd.png 100h, fine.png 200w'), [{ url: 'fine.png', width: 200, density: 1 }]);
+  assert.deepEqual(parseSrcset(''), []);
+}
+
+{
+  // Substack's CDN puts commas inside the URL path.
+  const small =
+    'https://substackcdn.com/image/fetch/w_424,c_limit,f_webp,q_auto:good,fl_progressive:steep/https%3A%2F%2Fbucket.s3.amazonaws.com%2Fa.png';
+  const large = small.replace('w_424', 'w_1456');
+  const candidates = parseSrcset(`${small} 424w, ${large} 1456w`);
+  assert.deepEqual(candidates, [
+    { url: small, width: 424, density: 1 },
+    { url: large, width: 1456, density: 1 }
+  ]);
+  assert.equal(pickSrcsetCandidate(candidates, 800), large);
+  assert.equal(pickSrcsetCandidate(candidates, 400), small);
+  assert.equal(pickSrcsetCandidate(candidates, 0), large);
+}
+
+{
+  assert.equal(pickSrcsetCandidate(parseSrcset('a.png 1x, b.png 2x'), 800), 'b.png');
+  assert.equal(pickSrcsetCandidate([], 800), null);
+}
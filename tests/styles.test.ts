@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { DEFAULT_STYLE_PRESET, STYLE_PRESETS, buildStylesheet, isStylePresetId, lintKindleCss } from '../src/core/styles.js';
+
+{
+  assert.equal(DEFAULT_STYLE_PRESET, 'classic');
+  assert.deepEqual(Object.keys(STYLE_PRESETS), ['classic', 'kindle-minimal', 'sans-large', 'technical', 'high-contrast']);
+  assert.equal(isStylePresetId('technical'), true);
+  assert.equal(isStylePresetId('toString'), false);
+
+  assert.match(buildStylesheet(), /Georgia/);
+  assert.equal(buildStylesheet('nope'), STYLE_PRESETS.classic.css);
+  assert.equal(buildStylesheet('sans-large', '   '), STYLE_PRESETS['sans-large'].css);
+  const custom = buildStylesheet('technical', 'p { text-indent: 1em; }');
+  assert.ok(custom.startsWith(STYLE_PRESETS.technical.css));
+  assert.match(custom, /\/\* Custom CSS \*\/\np \{ text-indent: 1em; \}\n$/);
+}
+
+{
+  // Every preset carries the shared layout exactly once, so layout fixes reach them all.
+  const layout = STYLE_PRESETS['kindle-minimal'].css.slice(STYLE_PRESETS['kindle-minimal'].css.indexOf('.byline {'));
+  for (const [id, preset] of Object.entries(STYLE_PRESETS)) {
+    assert.ok(preset.css.includes(layout), `${id} preset should include the shared layout`);
+    assert.equal(preset.css.split('figure {').length, 2, `${id} preset should not repeat layout rules`);
+  }
+  assert.match(STYLE_PRESETS.classic.css, /figcaption \{\n {2}color: #555;\n\}$/);
+}
+
+{
+  // The classic preset predates the linter and keeps its dark body text colour.
+  assert.deepEqual(
+    lintKindleCss(STYLE_PRESETS.classic.css).map((warning) => warning.property),
+    ['color']
+  );
+  for (const [id, preset] of Object.entries(STYLE_PRESETS).filter(([key]) => key !== 'classic')) {
+    assert.deepEqual(lintKindleCss(preset.css), [], `${id} preset should be Kindle-safe`);
+  }
+}
+
+{
+  const css = [
+    '@import url("https://fonts.example.com/a.css");',
+    '/* position: fixed; in a comment */',
+    'body {',
+    '  color: #eee;',
+    '  background: black;',
+    '}',
+    '.bar { position: fixed; display: flex; }',
+    'h1 { font-size: 24px; height: 50vh; }',
+    'p { line-height: 2 !important; transform: rotate(2deg); }',
+    '.bg { background-image: url(//cdn.example.com/x.png); }'
+  ].join('\n');
+  assert.deepEqual(
+    lintKindleCss(css).map((warning) => [warning.line, warning.property]),
+    [
+      [1, null],
+      [4, 'color'],
+      [5, 'background'],
+      [7, 'position'],
+      [7, 'display'],
+      [8, 'font-size'],
+      [8, 'height'],
+      [9, 'line-height'],
+      [9, 'transform'],
+      [10, 'background-image']
+    ]
+  );
+  assert.deepEqual(lintKindleCss('p { margin: 0 0 1em; float: none; }'), []);
+}
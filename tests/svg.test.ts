@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { readSvgSize, sanitizeSvg } from '../src/core/svg.js';
+
+{
+  const dirty = `<?xml version="1.0"?>
+<!DOCTYPE svg [<!ENTITY lol "lol">]>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10" onload="alert(1)">
+  <script type="text/javascript"><![CDATA[alert(document.cookie)]]></script>
+  <style>@import url(https://evil.test/x.css); rect { fill: url(#grad); stroke: url('https://evil.test/s.svg#p'); }</style>
+  <defs><linearGradient id="grad"><stop offset="0" stop-color="#000"/></linearGradient></defs>
+  <rect width="10" height="10" fill="url(#grad)" filter="url(https://evil.test/f.svg#f)" onclick="steal()"/>
+  <a href="javascript:alert(1)"><text x="1" y="5">Hi</text></a>
+  <use xlink:href="#grad"/><use xlink:href="https://evil.test/sprite.svg#icon"/>
+  <image href="https://tracker.test/p.png" width="1" height="1"/>
+  <image href="data:image/png;base64,AAAA" width="2" height="2"/>
+  <foreignObject width="10" height="10"><div xmlns="http://www.w3.org/1999/xhtml"><iframe src="https://evil.test"></iframe></div></foreignObject>
+  <set attributeName="href" to="javascript:alert(1)"/>
+  <animate attributeName="x" from="0" to="5"><set attributeName="y" to="1"/></animate>
+</svg>`;
+  const clean = sanitizeSvg(dirty);
+  assert.doesNotMatch(clean, /script|alert|onload|onclick|foreignObject|iframe|<set|<animate|DOCTYPE|ENTITY|<\?xml/i);
+  assert.doesNotMatch(clean, /evil\.test|tracker\.test/);
+  assert.match(clean, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" xmlns:xlink="http:\/\/www\.w3\.org\/1999\/xlink" viewBox="0 0 10 10">/);
+  assert.match(clean, /<style> rect \{ fill: url\(#grad\); stroke: none; \}<\/style>/);
+  assert.match(clean, /<rect width="10" height="10" fill="url\(#grad\)" filter="none"\/>/);
+  assert.match(clean, /<a><text x="1" y="5">Hi<\/text><\/a>/);
+  assert.match(clean, /<use xlink:href="#grad"\/><use\/>/);
+  assert.match(clean, /<image width="1" height="1"\/>/);
+  assert.match(clean, /<image href="data:image\/png;base64,AAAA" width="2" height="2"\/>/);
+  assert.match(clean, /<\/svg>$/);
+}
+
+{
+  assert.deepEqual(readSvgSize('<svg width="120" height="80px"></svg>'), { width: 120, height: 80 });
+  assert.deepEqual(readSvgSize('<svg viewBox="0 0 300 150"></svg>'), { width: 300, height: 150 });
+  assert.deepEqual(readSvgSize('<svg width="600" viewBox="0,0,300,150"></svg>'), { width: 600, height: 300 });
+  assert.equal(readSvgSize('<svg width="100%" height="100%"></svg>'), null);
+  assert.equal(readSvgSize('<html></html>'), null);
+}
+
+{
+  // The drop list matches local names whatever prefix the SVG namespace is bound to.
+  const prefixed = sanitizeSvg(
+    '<x:svg xmlns:x="http://www.w3.org/2000/svg"><x:script>alert(1)</x:script>' +
+      '<x:foreignObject><x:foreignObject/><p>html</p></x:foreignObject><x:rect width="1" height="1"/></x:svg>'
+  );
+  assert.equal(prefixed, '<x:svg xmlns:x="http://www.w3.org/2000/svg"><x:rect width="1" height="1"/></x:svg>');
+}
+
+{
+  // Adobe Illustrator declares its namespaces as internal entities.
+  const illustrator = sanitizeSvg(`<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd" [
+  <!ENTITY ns_svg "http://www.w3.org/2000/svg">
+  <!ENTITY ns_xlink "http://www.w3.org/1999/xlink">
+]>
+<svg xmlns="&ns_svg;" xmlns:xlink="&ns_xlink;" viewBox="0 0 4 4"><text>A &amp; B</text></svg>`);
+  assert.equal(
+    illustrator,
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 4 4"><text>A &amp; B</text></svg>'
+  );
+  assert.throws(() => sanitizeSvg('<svg xmlns="&ns_svg;"></svg>'), /does not define \(&ns_svg;\)/);
+  assert.throws(
+    () => sanitizeSvg('<!DOCTYPE svg [<!ENTITY a "x"><!ENTITY b "&a;&a;">]><svg><text>&b;</text></svg>'),
+    /&b; refers to other entities/
+  );
+  const markup = sanitizeSvg('<!DOCTYPE svg [<!ENTITY s "<script>alert(1)</script>">]><svg>&s;</svg>');
+  assert.equal(markup, '<svg></svg>');
+}
+
+{
+  // Markup the scanner cannot read would reach the book as broken XML, so it is rejected instead.
+  assert.throws(
+    () => sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg"><script/x>alert(1)</script></svg>'),
+    /SVG is not well-formed/
+  );
+  assert.throws(() => sanitizeSvg('<svg><g></svg>'), /SVG is not well-formed/);
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { appendToEpub } from '../src/core/epub.js';
+import { parseEpub } from '../src/core/epub-parser.js';
+import { bytesToMegabytes, megabytesToBytes, planVolumes, volumeTitle } from '../src/core/volumes.js';
+import { buildEpubVolumes } from '../src/extension/epub-volumes.js';
+import { buildVolumeFilename } from '../src/extension/filename.js';
+import { assertValidEpub } from './helpers.js';
+
+{
+  assert.deepEqual(planVolumes([1, 1, 1, 1, 1], {}), [[0, 1, 2, 3, 4]]);
+  assert.deepEqual(planVolumes([1, 1, 1, 1, 1], { maxChapters: 2 }), [[0, 1], [2, 3], [4]]);
+  assert.deepEqual(planVolumes([40, 30, 50, 10, 10], { maxBytes: 80 }), [[0, 1], [2, 3, 4]]);
+  assert.deepEqual(planVolumes([200, 10], { maxBytes: 80 }), [[0], [1]]);
+  assert.deepEqual(planVolumes([10, 10, 10], { maxChapters: 0, maxBytes: 0 }), [[0, 1, 2]]);
+  assert.equal(volumeTitle('Saved Tabs', 2, 3), 'Saved Tabs (Part 2 of 3)');
+  assert.equal(volumeTitle('Saved Tabs', 1, 1), 'Saved Tabs');
+  // Fractional MB limits survive a save and reload in the popup.
+  assert.equal(megabytesToBytes(2.5), 2621440);
+  assert.equal(bytesToMegabytes(megabytesToBytes(0.3)), 0.3);
+  assert.equal(bytesToMegabytes(megabytesToBytes(7.25)), 7.25);
+  assert.equal(bytesToMegabytes(0), 0);
+  assert.equal(buildVolumeFilename('2026-10-19T09_00_00 example.epub', 1, 3), '2026-10-19T09_00_00 example part 1 of 3.epub');
+  assert.equal(buildVolumeFilename(`${'x'.repeat(200)}.epub`, 10, 12).length, 180);
+}
+
+const now = new Date(2026, 9, 19, 9, 0, 0);
+const articles = [1, 2, 3, 4, 5].map((index) => ({
+  tabId: index,
+  tabTitle: `Tab ${index}`,
+  title: `Article ${index}`,
+  url: `https://site${index}.com/post`,
+  content: `<p>Body ${index}</p>${index === 4 ? '<img src="images/image-1.png" alt="x"/>' : ''}`
+}));
+const assets = [{ path: 'OEBPS/images/image-1.png', href: 'images/image-1.png', mediaType: 'image/png', data: new Uint8Array([1]) }];
+const transcode = { maxDimension: 1600, grayscale: false };
+
+{
+  const volumes = await buildEpubVolumes(
+    { articles, assets },
+    { now, build: {}, volumeLimits: { maxChapters: 2 }, transcode }
+  );
+  assert.equal(volumes.length, 3);
+  assert.deepEqual(
+    volumes.map((volume) => volume.filename),
+    [1, 2, 3].map((part) => `2026-10-19T09_00_00 site1 site2 site3 site4 site5 part ${part} of 3.epub`)
+  );
+  assert.deepEqual(
+    volumes.map((volume) => volume.assetsCount),
+    [0, 1, 0]
+  );
+
+  const parsed = volumes.map((volume) => {
+    assertValidEpub(volume.bytes);
+    return parseEpub(volume.bytes);
+  });
+  assert.deepEqual(
+    parsed.map((book) => book.metadata.title),
+    [1, 2, 3].map((part) => `Saved Tabs 20261019-090000 (Part ${part} of 3)`)
+  );
+  assert.deepEqual(
+    parsed.map((book) => book.chapters.map((chapter) => chapter.title)),
+    [['Article 1', 'Article 2'], ['Article 3', 'Article 4'], ['Article 5']]
+  );
+  const seriesId = parsed[0].metadata.series?.identifier || '';
+  assert.match(seriesId, /^urn:uuid:/);
+  assert.deepEqual(
+    parsed.map((book) => book.metadata.series),
+    [1, 2, 3].map((position) => ({ identifier: seriesId, title: 'Saved Tabs 20261019-090000', position }))
+  );
+  assert.notEqual(parsed[0].metadata.identifier, parsed[1].metadata.identifier);
+  assert.equal(parsed[1].files.has('OEBPS/images/image-1.png'), true);
+  assert.equal(parsed[0].files.has('OEBPS/images/image-1.png'), false);
+
+  // Appending to a volume keeps it in the series.
+  const appended = parseEpub(appendToEpub(volumes[2].bytes, [{ title: 'Late', content: '<p>Late</p>' }]).bytes);
+  assert.deepEqual(appended.metadata.series, parsed[2].metadata.series);
+}
+
+{
+  const single = await buildEpubVolumes({ articles: articles.slice(0, 1), assets: [] }, { now, build: {}, volumeLimits: {}, transcode });
+  assert.equal(single.length, 1);
+  assert.equal(single[0].filename, '2026-10-19T09_00_00 site1.epub');
+  const book = parseEpub(single[0].bytes);
+  assert.equal(book.metadata.title, 'Article 1');
+  assert.equal(book.metadata.series, null);
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { checkXml } from '../src/core/epub-validator.js';
+import { sanitizeXhtml, toXmlText, tokenizeHtml } from '../src/core/xhtml.js';
+
+{
+  assert.equal(toXmlText('a&nbsp;b &mdash; c &amp; d'), 'a&#160;b &#8212; c &amp; d');
+  assert.equal(toXmlText('Fish & chips < 5 > 4'), 'Fish &amp; chips &lt; 5 &gt; 4');
+  assert.equal(toXmlText('&bogus; &#x41;&#66;&#150;'), '&amp;bogus; &#65;&#66;&#8211;');
+  assert.equal(toXmlText('bell\u0007 &#1; &#0;'), 'bell  &#65533;');
+  assert.equal(toXmlText('say "hi"', true), 'say &quot;hi&quot;');
+}
+
+{
+  const tokens = tokenizeHtml('<P Class=lead data-x=\'1 "2"\'>Hi<br>there</p><!-- note --><script>if (a < b) {}</script>');
+  assert.deepEqual(tokens.slice(0, 5), [
+    { type: 'start', name: 'p', attrs: [['class', 'lead'], ['data-x', '1 &quot;2&quot;']], selfClosing: false },
+    { type: 'text', value: 'Hi' },
+    { type: 'start', name: 'br', attrs: [], selfClosing: false },
+    { type: 'text', value: 'there' },
+    { type: 'end', name: 'p' }
+  ]);
+  assert.deepEqual(tokens[6], { type: 'text', value: 'if (a &lt; b) {}' });
+}
+
+{
+  const html =
+    '<div><p>One<p>Two<ul><li>a<li>b</ul><img src="x.png" alt="A &amp; B"><font color=red>kept</font>' +
+    '<script>alert(1)</script><button onclick="x()">Click <b>me</b></button>' +
+    '<a href="javascript:alert(1)" onclick="x()">link</a><span id="dup">1</span><span id="dup">2</span>';
+  const output = sanitizeXhtml(html);
+  assert.equal(
+    output,
+    '<div><p>One</p><p>Two</p><ul><li>a</li><li>b</li></ul><img src="x.png" alt="A &amp; B"/>kept' +
+      '<a href="#">link</a><span id="dup">1</span><span>2</span></div>'
+  );
+  assert.deepEqual(checkXml(`<body>${output}</body>`), []);
+}
+
+{
+  const output = sanitizeXhtml('<table><tr><td>a<td>b<tr><td>c</table><p>x</div></p><em>open');
+  assert.equal(output, '<table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table><p>x</p><em>open</em>');
+}
+
+{
+  const messy = '<p>Caf&eacute; &copy; 2024 &hellip;</p><p>a\u000Bb</p><svg><circle/></svg><x-widget>text</x-widget>';
+  const output = sanitizeXhtml(messy);
+  assert.equal(output, '<p>Caf&#233; &#169; 2024 &#8230;</p><p>ab</p>text');
+  assert.deepEqual(checkXml(`<body>${output}</body>`), []);
+}
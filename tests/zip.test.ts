@@ -1,15 +1,56 @@
 import assert from 'node:assert/strict';
-import { createZip } from '../src/core/zip.js';
-import { readLocalFiles } from './helpers.js';
+import { createZip, readZip } from '../src/core/zip.js';
 
 const bytes = createZip([
   { path: 'mimetype', data: 'application/epub+zip' },
   { path: 'foo.txt', data: 'hello world' }
 ]);
 
-const files = readLocalFiles(bytes);
+const files = readZip(bytes);
 
-assert.equal(files[0].name, 'mimetype');
+assert.equal(files[0].path, 'mimetype');
 assert.equal(new TextDecoder().decode(files[0].data), 'application/epub+zip');
-assert.equal(files[1].name, 'foo.txt');
+assert.equal(files[1].path, 'foo.txt');
 assert.equal(new TextDecoder().decode(files[1].data), 'hello world');
+
+{
+  const text = '<p>Repetitive XHTML content compresses well.</p>\n'.repeat(200);
+  const compressed = createZip([
+    { path: 'mimetype', data: 'application/epub+zip', store: true },
+    { path: 'OEBPS/section-1.xhtml', data: text }
+  ]);
+  const entries = readZip(compressed);
+  assert.equal(entries[0].method, 0);
+  assert.equal(entries[1].method, 8);
+  assert.equal(new TextDecoder().decode(entries[1].data), text);
+  assert.ok(compressed.length < text.length / 4);
+
+  const stored = createZip([{ path: 'OEBPS/section-1.xhtml', data: text }], { compressionLevel: 0 });
+  assert.equal(readZip(stored)[0].method, 0);
+  assert.ok(stored.length > text.length);
+}
+
+{
+  // Incompressible data falls back to storing the entry.
+  const noise = new Uint8Array(4096);
+  let seed = 7;
+  for (let i = 0; i < noise.length; i += 1) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    noise[i] = seed >>> 16;
+  }
+  const entries = readZip(createZip([{ path: 'noise.bin', data: noise }]));
+  assert.equal(entries[0].method, 0);
+  assert.deepEqual(entries[0].data, noise);
+}
+
+{
+  const archive = createZip([{ path: 'a.txt', data: 'checksum me' }], { compressionLevel: 0 });
+  const entry = readZip(archive)[0];
+  assert.equal(entry.path, 'a.txt');
+  assert.equal(entry.size, 11);
+
+  const corrupted = archive.slice();
+  corrupted[30 + 'a.txt'.length] ^= 0xff;
+  assert.throws(() => readZip(corrupted), /CRC mismatch for a\.txt/);
+  assert.throws(() => readZip(new Uint8Array(10)), /Not a zip file/);
+}